@@ -0,0 +1,35 @@
+// Fact anchors - helpers for linking facts to paths in the project
+
+import path from "path";
+
+/**
+ * Normalises a file or directory path given by a client into the form stored
+ * in `fact_anchors`: relative to `rootPath`, "/"-separated, without a trailing
+ * slash, and "." for the root itself. Throws for paths outside the project.
+ */
+export function normalizeAnchorPath(input: string, rootPath: string): string {
+  const absolute = path.resolve(rootPath, input);
+  const relative = path.relative(rootPath, absolute);
+
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`Path is outside the project: ${input}`);
+  }
+
+  return relative ? relative.split(path.sep).join("/") : ".";
+}
+
+/**
+ * Returns the path followed by each of its parent directories, ending with
+ * ".", e.g. "src/api/users.ts" -> ["src/api/users.ts", "src/api", "src", "."].
+ */
+export function ancestorPaths(anchorPath: string): string[] {
+  if (anchorPath === ".") return ["."];
+
+  const segments = anchorPath.split("/");
+  const paths: string[] = [];
+  for (let i = segments.length; i > 0; i--) {
+    paths.push(segments.slice(0, i).join("/"));
+  }
+  paths.push(".");
+  return paths;
+}
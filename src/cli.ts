@@ -0,0 +1,240 @@
+// Command-line interface - one-off commands that run instead of the server
+
+import fs from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+
+import { ContextDatabase, FactScope } from "./database.js";
+import {
+  DatabaseCipher,
+  DatabaseKeys,
+  generateDatabaseKey,
+  loadDatabaseKeys,
+  prepareDatabaseEncryption,
+  writeKeyFile,
+} from "./encryption.js";
+import { createFactGuard } from "./fact-guard.js";
+import { FreshnessChecker } from "./freshness.js";
+import {
+  EXPORT_FORMATS,
+  exportKnowledge,
+  IMPORT_STRATEGIES,
+  importKnowledge,
+  parseKnowledge,
+  serializeKnowledge,
+} from "./knowledge.js";
+import { resolveProject } from "./project.js";
+
+const FACT_SCOPES: FactScope[] = ["project", "global", "all"];
+
+const USAGE = `Usage:
+  dev-assistant-mcp-server export [--format json|jsonl|markdown] [--scope project|global|all]
+                                  [--category <name>] [--output <file>]
+  dev-assistant-mcp-server import <file|-> [--strategy skip|overwrite|merge] [--dry-run]
+  dev-assistant-mcp-server encryption status|encrypt|decrypt|rotate-key
+  dev-assistant-mcp-server encryption keygen [--keyfile <file>]`;
+
+const ENCRYPTION_ACTIONS = [
+  "status",
+  "encrypt",
+  "decrypt",
+  "rotate-key",
+  "keygen",
+] as const;
+
+export function isCliCommand(command: string | undefined): boolean {
+  return (
+    command === "export" ||
+    command === "import" ||
+    command === "encryption" ||
+    command === "help"
+  );
+}
+
+/**
+ * Runs `export`, `import` or `encryption` against the database of the
+ * project in the current directory, as the server would see it.
+ */
+export async function runCli(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+  if (command === "help") {
+    console.log(USAGE);
+    return;
+  }
+  if (command === "encryption" && args[0] === "keygen") {
+    await generateKey(args.slice(1));
+    return;
+  }
+
+  const project = await resolveProject(process.cwd());
+  const keys = await loadDatabaseKeys();
+  const cipher = keys ? new DatabaseCipher(keys) : null;
+  const factGuard = createFactGuard(undefined, cipher);
+  const database = new ContextDatabase();
+  await database.initialize(project.id);
+
+  try {
+    if (command === "encryption") {
+      await runEncryption(database, keys, args);
+      return;
+    }
+
+    await prepareDatabaseEncryption(database, cipher);
+    if (command === "export") {
+      const { values } = parseArgs({
+        args,
+        options: {
+          format: { type: "string", short: "f", default: "json" },
+          scope: { type: "string", default: "project" },
+          category: { type: "string" },
+          output: { type: "string", short: "o" },
+        },
+      });
+      const format = oneOf(values.format!, EXPORT_FORMATS, "--format");
+      const scope = oneOf(values.scope!, FACT_SCOPES, "--scope");
+
+      const data = await exportKnowledge(
+        database,
+        project,
+        scope,
+        values.category
+      );
+      const text = serializeKnowledge(data, format);
+      if (values.output) {
+        await fs.writeFile(path.resolve(values.output), text, "utf-8");
+        console.error(
+          `Exported ${data.facts.length} facts and ${data.ruleDeployments.length} rule deployments to ${values.output}`
+        );
+      } else {
+        process.stdout.write(text);
+      }
+    } else {
+      const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+          strategy: { type: "string", short: "s", default: "skip" },
+          "dry-run": { type: "boolean", default: false },
+        },
+      });
+      if (positionals.length !== 1) {
+        throw new Error(`Expected one file to import\n${USAGE}`);
+      }
+      const strategy = oneOf(values.strategy!, IMPORT_STRATEGIES, "--strategy");
+
+      const text =
+        positionals[0] === "-"
+          ? await readStdin()
+          : await fs.readFile(path.resolve(positionals[0]), "utf-8");
+      const report = await importKnowledge(
+        database,
+        new FreshnessChecker(database, project.root),
+        parseKnowledge(text),
+        strategy,
+        values["dry-run"],
+        factGuard,
+        "command line"
+      );
+      console.log(JSON.stringify(report, null, 2));
+    }
+  } finally {
+    await database.close();
+  }
+}
+
+/**
+ * `encryption status` reports how facts are stored; `encrypt` encrypts them
+ * with the current key (as the server does when it starts); `decrypt`
+ * stores them in plain text again; `rotate-key` replaces the key in the
+ * keyfile and re-encrypts every fact, and every value the secret policy
+ * encrypted, with the new one.
+ */
+async function runEncryption(
+  database: ContextDatabase,
+  keys: DatabaseKeys | null,
+  args: string[]
+): Promise<void> {
+  const action = oneOf(args[0] ?? "status", ENCRYPTION_ACTIONS, "encryption");
+  if (action !== "status" && !keys) {
+    throw new Error(
+      "No database key is configured; set DEV_ASSISTANT_DB_KEY or DEV_ASSISTANT_DB_KEYFILE"
+    );
+  }
+
+  let status = await prepareDatabaseEncryption(
+    database,
+    keys ? new DatabaseCipher(keys) : null,
+    action === "encrypt"
+  );
+  if (action === "decrypt") {
+    const rewritten = await database.rewriteFactText(false);
+    console.error(
+      `Decrypted ${rewritten} facts. Remove the database key from the environment, or the server will encrypt them again when it starts. Values the encrypt secret policy encrypted stay encrypted with the key`
+    );
+    status = await prepareDatabaseEncryption(database, null);
+  } else if (action === "rotate-key") {
+    const keyfile = process.env.DEV_ASSISTANT_DB_KEYFILE;
+    if (!keyfile) {
+      throw new Error(
+        "rotate-key rewrites DEV_ASSISTANT_DB_KEYFILE. With DEV_ASSISTANT_DB_KEY, set the new key there and the old one in DEV_ASSISTANT_DB_PREVIOUS_KEYS, then run `encryption encrypt`"
+      );
+    }
+    // Keep the old keys until every fact has been re-encrypted, so an
+    // interrupted rotation can be run again
+    const filePath = path.resolve(keyfile);
+    const current = generateDatabaseKey();
+    await writeKeyFile(filePath, current, [keys!.current, ...keys!.previous]);
+    status = await prepareDatabaseEncryption(
+      database,
+      new DatabaseCipher((await loadDatabaseKeys())!)
+    );
+    await writeKeyFile(filePath, current);
+    console.error(`Rotated the database key in ${filePath} to ${status.keyId}`);
+  }
+  console.log(JSON.stringify(status, null, 2));
+}
+
+async function generateKey(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: { keyfile: { type: "string" } },
+  });
+  const key = generateDatabaseKey();
+  if (!values.keyfile) {
+    console.log(key);
+    return;
+  }
+
+  const filePath = path.resolve(values.keyfile);
+  try {
+    await fs.access(filePath);
+    throw new Error(
+      `${filePath} already exists; use \`encryption rotate-key\``
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  await writeKeyFile(filePath, key);
+  console.error(
+    `Wrote a new database key to ${filePath}. Set DEV_ASSISTANT_DB_KEYFILE to use it`
+  );
+}
+
+function oneOf<T extends string>(
+  value: string,
+  allowed: readonly T[],
+  option: string
+): T {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${option} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
@@ -0,0 +1,428 @@
+// Compliance checks - the standards in the rule templates that can be checked
+// mechanically, run against the files in the workspace
+
+import fs from "fs/promises";
+import path from "path";
+
+import { matchesFilePattern } from "./mdc.js";
+import { RuleDefinition } from "./rule-coverage.js";
+import { findSecrets } from "./secrets.js";
+import { TemplateVariables } from "./templating.js";
+
+export type ComplianceSeverity = "error" | "warning";
+
+export interface ComplianceViolation {
+  line?: number; // 1-based; absent for findings about a whole file
+  message: string;
+}
+
+export interface ComplianceFinding extends ComplianceViolation {
+  file: string; // Relative to the workspace root, "/"-separated
+}
+
+export interface ComplianceProject {
+  root: string;
+  files: string[]; // Every file in the workspace that is not ignored
+  rule: RuleDefinition; // The deployed rule the check belongs to
+  variables: TemplateVariables;
+}
+
+/**
+ * A standard from a rule template that can be checked without judgement.
+ * File checks look at one file at a time, project checks at the workspace
+ * as a whole; a check runs only when the rule for its category is deployed.
+ */
+export interface ComplianceCheck {
+  id: string;
+  category: string; // The rule template it enforces, e.g. "code-style"
+  description: string;
+  severity: ComplianceSeverity;
+  // Files a file check reads; defaults to the files its rule attaches to
+  files?: string[];
+  checkFile?(
+    content: string,
+    variables: TemplateVariables
+  ): ComplianceViolation[];
+  checkProject?(project: ComplianceProject): Promise<ComplianceFinding[]>;
+}
+
+export interface ComplianceResult {
+  check: ComplianceCheck;
+  rule: RuleDefinition;
+  filesChecked: number;
+  findings: ComplianceFinding[];
+}
+
+const SOURCE_FILES = [
+  "*.ts",
+  "*.tsx",
+  "*.js",
+  "*.jsx",
+  "*.mjs",
+  "*.cjs",
+  "*.vue",
+  "*.svelte",
+  "*.py",
+  "*.go",
+  "*.rs",
+  "*.java",
+  "*.kt",
+  "*.rb",
+  "*.php",
+  "*.cs",
+];
+const CONFIG_FILES = [
+  "*.json",
+  "*.yaml",
+  "*.yml",
+  "*.toml",
+  "*.ini",
+  "*.properties",
+  "*.xml",
+  "*.sh",
+  "*.env",
+  ".env.*",
+];
+// Directories that hold build output rather than source
+const BUILD_OUTPUT_DIRS = [
+  "dist",
+  "build",
+  "out",
+  "coverage",
+  ".next",
+  "target",
+];
+// Larger files are generated or data, not code anyone wrote
+const MAX_FILE_BYTES = 1024 * 1024;
+// Hosts plain HTTP is fine for
+const LOCAL_HOST_PATTERN =
+  /^(?:localhost|127\.[\d.]+|0\.0\.0\.0|\[::1\]|[\w.-]+\.(?:local|test|localhost)|(?:[\w-]+\.)*example\.(?:com|org|net)|www\.w3\.org)$/i;
+
+export const COMPLIANCE_CHECKS: ComplianceCheck[] = [
+  {
+    id: "max-line-length",
+    category: "code-style",
+    description: "Lines are no longer than maxLineLength characters",
+    severity: "warning",
+    checkFile(content, variables) {
+      const max = Number(variables.maxLineLength);
+      if (!(max > 0)) return [];
+      const violations: ComplianceViolation[] = [];
+      content.split(/\r?\n/).forEach((line, index) => {
+        if (line.length > max) {
+          violations.push({
+            line: index + 1,
+            message: `Line is ${line.length} characters, over the limit of ${max}`,
+          });
+        }
+      });
+      return violations;
+    },
+  },
+  {
+    id: "typescript-strict",
+    category: "code-style",
+    description: "TypeScript strict mode is enabled",
+    severity: "error",
+    async checkProject({ root, files }) {
+      if (!files.includes("tsconfig.json")) return [];
+      const strict = await readTsconfigStrict(root, "tsconfig.json", 0);
+      if (strict === true || strict === null) return [];
+
+      const text = await fs.readFile(path.join(root, "tsconfig.json"), "utf-8");
+      const offset = text.search(/"strict"\s*:/);
+      return [
+        {
+          file: "tsconfig.json",
+          line: offset === -1 ? undefined : lineAt(text, offset),
+          message:
+            strict === false
+              ? "compilerOptions.strict is false"
+              : "compilerOptions.strict is not set",
+        },
+      ];
+    },
+  },
+  {
+    id: "empty-catch",
+    category: "architecture",
+    description: "Caught errors are handled or logged, not silently dropped",
+    severity: "warning",
+    checkFile: (content) =>
+      matchAll(
+        content,
+        /\bcatch\s*(?:\([^)]*\)\s*)?\{\s*\}/g,
+        () => "Empty catch block swallows the error"
+      ),
+  },
+  {
+    id: "focused-test",
+    category: "testing",
+    description: "No tests are focused with .only, which skips the rest",
+    severity: "error",
+    checkFile: (content) =>
+      matchAll(
+        content,
+        /\b(?:(?:describe|it|test|context|suite)\.only|fit|fdescribe)\s*\(/g,
+        (match) => `${match[0].replace(/\s*\($/, "")} runs only this test`
+      ),
+  },
+  {
+    id: "tests-present",
+    category: "testing",
+    description: "The project has tests",
+    severity: "warning",
+    async checkProject({ files, rule }) {
+      if (rule.patterns.length === 0) return [];
+      const matches = (file: string, patterns: string[]) =>
+        patterns.some((pattern) => matchesFilePattern(file, pattern));
+      if (!files.some((file) => matches(file, SOURCE_FILES))) return [];
+      if (files.some((file) => matches(file, rule.patterns))) return [];
+      return [
+        {
+          file: ".",
+          message: `No file matches the testing rule's patterns (${rule.patterns.join(
+            ", "
+          )})`,
+        },
+      ];
+    },
+  },
+  {
+    id: "hardcoded-secret",
+    category: "security",
+    description: "Secrets come from environment variables, not the code",
+    severity: "error",
+    files: [...SOURCE_FILES, ...CONFIG_FILES],
+    checkFile: (content) =>
+      findSecrets(content).map((secret) => ({
+        line: lineAt(content, secret.index),
+        message: `Possible ${secret.kind}; load it from an environment variable`,
+      })),
+  },
+  {
+    id: "insecure-http",
+    category: "security",
+    description: "HTTPS is used for all communications",
+    severity: "warning",
+    checkFile: (content) =>
+      matchAll(content, /\bhttp:\/\/([^\s"'`<>()\\/:?#]+)/g, (match) =>
+        LOCAL_HOST_PATTERN.test(match[1])
+          ? null
+          : `Plain HTTP URL for ${match[1]}`
+      ),
+  },
+  {
+    id: "sql-string-building",
+    category: "security",
+    description: "Database queries are parameterized",
+    severity: "warning",
+    checkFile: (content) =>
+      matchAll(
+        content,
+        /\b(?:SELECT\b[^;\n]*\bFROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b[^\n]*?(?:\$\{|["'`]\s*\+\s*\w)/g,
+        () => "SQL built from interpolated values instead of parameters"
+      ),
+  },
+  {
+    id: "readme-present",
+    category: "documentation",
+    description: "The project has a README",
+    severity: "warning",
+    async checkProject({ files }) {
+      return files.some((file) => /^readme(?:\.[\w.]+)?$/i.test(file))
+        ? []
+        : [{ file: "README.md", message: "The project has no README" }];
+    },
+  },
+  {
+    id: "build-output-ignored",
+    category: "git-workflow",
+    description: "Build artifacts are excluded with .gitignore",
+    severity: "warning",
+    async checkProject({ files }) {
+      const findings: ComplianceFinding[] = [];
+      if (!files.includes(".gitignore")) {
+        findings.push({
+          file: ".gitignore",
+          message: "The project has no .gitignore",
+        });
+      }
+      for (const dir of BUILD_OUTPUT_DIRS) {
+        if (files.some((file) => file.startsWith(`${dir}/`))) {
+          findings.push({
+            file: `${dir}/`,
+            message: `Build output in ${dir}/ is not ignored`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: "img-alt",
+    category: "accessibility",
+    description: "Images have alt text",
+    severity: "error",
+    checkFile: (content) =>
+      matchAll(
+        content,
+        /<img\b(?:[^>"'{]|"[^"]*"|'[^']*'|\{[^}]*\})*\/?>/gi,
+        (match) =>
+          /\balt\s*=|\{\s*\.\.\./.test(match[0])
+            ? null
+            : "<img> has no alt attribute"
+      ),
+  },
+];
+
+/**
+ * Runs each check whose category has a deployed rule, over the files that
+ * rule attaches to (or the check's own `files`). Each file is read once;
+ * files that are binary or larger than 1 MB are skipped.
+ */
+export async function runComplianceChecks(
+  root: string,
+  files: string[],
+  rules: RuleDefinition[],
+  checks: ComplianceCheck[],
+  variables: TemplateVariables
+): Promise<{
+  results: ComplianceResult[];
+  skipped: { check: ComplianceCheck; reason: "rule-not-deployed" }[];
+}> {
+  const rulesByCategory = new Map(
+    rules.map((rule) => [path.posix.basename(rule.path, ".mdc"), rule])
+  );
+  const results: ComplianceResult[] = [];
+  const skipped: { check: ComplianceCheck; reason: "rule-not-deployed" }[] = [];
+  for (const check of checks) {
+    const rule = rulesByCategory.get(check.category);
+    if (rule) {
+      results.push({ check, rule, filesChecked: 0, findings: [] });
+    } else {
+      skipped.push({ check, reason: "rule-not-deployed" });
+    }
+  }
+
+  for (const result of results) {
+    if (!result.check.checkProject) continue;
+    result.findings.push(
+      ...(await result.check.checkProject({
+        root,
+        files,
+        rule: result.rule,
+        variables,
+      }))
+    );
+  }
+
+  const fileResults = results.filter((result) => result.check.checkFile);
+  for (const file of files) {
+    const applicable = fileResults.filter((result) =>
+      (result.check.files ?? result.rule.patterns).some((pattern) =>
+        matchesFilePattern(file, pattern)
+      )
+    );
+    if (applicable.length === 0) continue;
+
+    const content = await readTextFile(path.join(root, file));
+    if (content === null) continue;
+    for (const result of applicable) {
+      result.filesChecked++;
+      for (const violation of result.check.checkFile!(content, variables)) {
+        result.findings.push({ file, ...violation });
+      }
+    }
+  }
+
+  return { results, skipped };
+}
+
+async function readTextFile(filePath: string): Promise<string | null> {
+  try {
+    if ((await fs.stat(filePath)).size > MAX_FILE_BYTES) return null;
+    const content = await fs.readFile(filePath, "utf-8");
+    return content.includes("\u0000") ? null : content;
+  } catch (error) {
+    return null;
+  }
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let index = content.indexOf("\n"); index !== -1 && index < offset; ) {
+    line++;
+    index = content.indexOf("\n", index + 1);
+  }
+  return line;
+}
+
+/**
+ * One violation per match of `pattern`, at the line the match starts on;
+ * `describe` returns null for matches that are fine.
+ */
+function matchAll(
+  content: string,
+  pattern: RegExp,
+  describe: (match: RegExpMatchArray) => string | null
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  for (const match of content.matchAll(pattern)) {
+    const message = describe(match);
+    if (message !== null) {
+      violations.push({ line: lineAt(content, match.index!), message });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Whether a tsconfig turns on strict mode, following relative `extends`:
+ * undefined when no file in the chain sets it, null when it depends on a
+ * base config that cannot be read, such as one from a package.
+ */
+async function readTsconfigStrict(
+  root: string,
+  relativeFile: string,
+  depth: number
+): Promise<boolean | undefined | null> {
+  let config: any;
+  try {
+    config = parseJsonc(
+      await fs.readFile(path.join(root, relativeFile), "utf-8")
+    );
+  } catch (error) {
+    return null;
+  }
+  const strict = config?.compilerOptions?.strict;
+  if (typeof strict === "boolean") return strict;
+
+  // Later entries of an extends list override earlier ones
+  const bases = [config?.extends].flat().filter(Boolean).reverse();
+  let unknown = false;
+  for (const base of bases) {
+    if (typeof base !== "string" || !base.startsWith(".") || depth >= 5) {
+      unknown = true;
+      continue;
+    }
+    const file = path.posix.join(path.posix.dirname(relativeFile), base);
+    const inherited = await readTsconfigStrict(
+      root,
+      file.endsWith(".json") ? file : `${file}.json`,
+      depth + 1
+    );
+    if (typeof inherited === "boolean") return inherited;
+    if (inherited === null) unknown = true;
+  }
+  return unknown ? null : undefined;
+}
+
+// JSON with the comments and trailing commas tsconfig files allow
+function parseJsonc(text: string): any {
+  const stripped = text.replace(
+    /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (match, string) => string ?? ""
+  );
+  return JSON.parse(stripped.replace(/,(\s*[}\]])/g, "$1"));
+}
@@ -1,40 +1,436 @@
 import sqlite3 from "sqlite3";
+import { AsyncLocalStorage } from "async_hooks";
 import path from "path";
 import fs from "fs/promises";
 import { existsSync, accessSync, constants } from "fs";
 import { homedir } from "os";
 import crypto from "crypto";
 
+// "project" - facts of the current project (the default)
+// "global" - cross-project facts such as personal conventions
+// "all" - both of the above
+export type FactScope = "project" | "global" | "all";
+
 export interface StoredFact {
   id: number;
+  projectId: string | null; // null for global facts
   category: string;
   fact: string;
   context?: string;
   tags: string[];
   createdAt: string;
   updatedAt: string;
+  anchors?: FactAnchor[]; // Present when the fact is linked to code
+  possiblyStale?: boolean; // True when an anchor has changed or disappeared
+  deletedAt?: string; // Set while the fact is deleted and can be restored
+}
+
+// "baseline" - the fact as it was when revisions started being kept
+export type FactRevisionAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "restore"
+  | "revert"
+  | "baseline";
+
+// A fact as it was after a change
+export interface FactRevision {
+  factId: number;
+  revision: number; // Counts up from 1 for each fact
+  action: FactRevisionAction;
+  author?: string; // MCP client, or who the caller said made the change
+  createdAt: string;
+  projectId: string | null;
+  category: string;
+  fact: string;
+  context?: string;
+  tags: string[];
+  revertedTo?: number; // Revision a revert went back to
+  // Fields that differ from the previous revision
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+// "fresh" - anchored content matches what it was when the fact was stored
+// "changed" - the file, region, symbol or directory listing has changed
+// "missing" - the path or symbol no longer exists
+// "unchecked" - not yet compared against a stored hash
+export type AnchorStatus = "fresh" | "changed" | "missing" | "unchecked";
+
+export interface FactAnchor {
+  id: number;
+  factId: number;
+  filePath: string; // Relative to the project root, "/"-separated; may be a directory
+  startLine?: number;
+  endLine?: number;
+  symbol?: string;
+  commitSha?: string;
+  contentHash?: string; // Hash of the anchored content when last baselined
+  status: AnchorStatus;
+  checkedAt?: string;
+  createdAt: string;
+}
+
+export type FactAnchorInput = Omit<
+  FactAnchor,
+  "id" | "factId" | "status" | "checkedAt" | "createdAt"
+>;
+
+export interface AnchorStatusUpdate {
+  id: number;
+  status: AnchorStatus;
+  contentHash?: string; // Replaces the baseline when given
+}
+
+export interface FactSearchResult extends StoredFact {
+  score: number; // BM25 relevance, higher is better
+  snippet: string; // Matching excerpt with hits wrapped in ** **
+}
+
+export interface EmbeddedFact {
+  fact: StoredFact;
+  vector: Float32Array;
+}
+
+export interface FactEmbeddingStatus {
+  fact: StoredFact;
+  contentHash?: string; // Hash of the text the stored embedding was computed from
+}
+
+export type FileActivityKind = "add" | "change" | "unlink";
+
+export interface FileActivity {
+  id: number;
+  path: string; // Relative to the watched project root, "/"-separated
+  kind: FileActivityKind;
+  sizeDelta: number; // Bytes gained (positive) or lost (negative)
+  size?: number; // Size after the change; absent for deletions
+  occurredAt: string;
+}
+
+export interface RulePackRef {
+  name: string;
+  version: string;
+}
+
+// The project stack a deployment's rules were selected for
+export interface RuleDeploymentProfile {
+  languages: string[];
+  frameworks: string[];
+  testFrameworks: string[];
+  packageManager?: string;
+  detected: boolean; // False when stack detection was turned off
+  includeCategories: string[];
+  excludeCategories: string[];
+  categories: string[]; // Categories deployed
+  skipped: { category: string; reason: string }[];
 }
 
 export interface RuleDeployment {
   id: number;
-  templateVersion: string;
+  projectId?: string;
+  templateVersion: string; // "name@version" of each pack, comma-separated
   deployedAt: string;
   deployedBy?: string;
   totalFiles: number;
   backupPath?: string;
+  packs: RulePackRef[];
+  targets: string[]; // Assistants the rules were written for, e.g. "cursor"
+  rollbackOf?: number; // Deployment whose files this one restored
+  profile?: RuleDeploymentProfile; // Absent for rollbacks and older deployments
 }
 
 export interface RuleFile {
   id: number;
   deploymentId: number;
-  filename: string;
+  target: string;
+  filename: string; // Relative to the target's directory
   contentHash: string;
   deployedAt: string;
+  packName?: string; // Pack the file came from; absent for combined files
+  packVersion?: string;
+  content?: string; // As deployed, the base for merging local edits
+}
+
+// Encrypts the fact and context columns at rest, and holds the key for
+// values the secret policy encrypted within them (see encryption.ts)
+export interface FactTextCipher {
+  readonly keyId: string; // Key new values are written with
+  encrypt(text: string): string;
+  decrypt(text: string): string; // Returns plain text as it is
+  revealSpans(text: string): string;
+  rotateSpans(text: string): string;
+  digest(text: string): string; // Keyed hash
+}
+
+// Prefix of an encrypted column value, followed by the 8-character key ID
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+/**
+ * Formats a date the way SQLite's CURRENT_TIMESTAMP does
+ * (`YYYY-MM-DD HH:MM:SS`, UTC) so it compares correctly with stored values.
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+const FTS_OPERATOR_PATTERN = /["*()^:]|\b(AND|OR|NOT|NEAR)\b/;
+
+function isAdvancedFtsQuery(search: string): boolean {
+  return FTS_OPERATOR_PATTERN.test(search);
+}
+
+// Words too common to say anything about relevance in a question
+const FTS_STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "do",
+  "does",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "we",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "why",
+  "with",
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+// The words of a search that say something about relevance
+function searchTerms(search: string): string[] {
+  const words = search.match(WORD_PATTERN) || [];
+  const terms = words.filter((word) => !FTS_STOPWORDS.has(word.toLowerCase()));
+  return terms.length > 0 ? terms : words;
+}
+
+// Quote each word so punctuation in natural-language input can't be parsed
+// as FTS5 syntax, and OR them together so BM25 decides relevance.
+function toPlainFtsQuery(search: string): string {
+  const selected = searchTerms(search);
+  if (selected.length === 0) return '""';
+  return selected.map((term) => `"${term}"`).join(" OR ");
+}
+
+// An excerpt of about `size` words around the first word starting with one
+// of the terms, with hits wrapped in ** ** as FTS5's snippet() does
+function highlightSnippet(
+  text: string,
+  terms: string[],
+  size: number = 16
+): string {
+  const words = Array.from(text.matchAll(WORD_PATTERN));
+  if (words.length === 0) return text;
+  const isHit = (word: string) =>
+    terms.some((term) => word.toLowerCase().startsWith(term));
+  const first = words.findIndex((match) => isHit(match[0]));
+  const start = Math.max(0, Math.min(first - 4, words.length - size));
+
+  let snippet = start > 0 ? "..." : "";
+  let position = words[start].index!;
+  for (const match of words.slice(start, start + size)) {
+    snippet += text.slice(position, match.index);
+    snippet += isHit(match[0]) ? `**${match[0]}**` : match[0];
+    position = match.index! + match[0].length;
+  }
+  return snippet + (start + size < words.length ? "..." : "");
+}
+
+// What a schema migration can do to the database it upgrades
+interface MigrationContext {
+  projectId: string; // The project opening the database
+  run(sql: string, params?: any[]): Promise<unknown>;
+  columnExists(table: string, column: string): Promise<boolean>;
+}
+
+interface SchemaMigration {
+  version: number;
+  name: string;
+  up(db: MigrationContext): Promise<void>;
+}
+
+// Applied in order, each in its own transaction, to databases created by an
+// older version. New databases are created at the latest schema by
+// createTables, so each migration must be matched by a change there.
+// Databases from before schema_migrations existed may already have any of
+// migrations 1-8 applied, which is why those check the columns first.
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    name: "Update rule_deployments table schema",
+    async up(db) {
+      const hasOldTemplateHash = await db.columnExists(
+        "rule_deployments",
+        "template_hash"
+      );
+      const hasTotalFiles = await db.columnExists(
+        "rule_deployments",
+        "total_files"
+      );
+      if (!hasOldTemplateHash && hasTotalFiles) return;
+
+      // Create new table with correct schema
+      await db.run(`
+        CREATE TABLE rule_deployments_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          template_version TEXT NOT NULL,
+          deployed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          deployed_by TEXT,
+          total_files INTEGER NOT NULL DEFAULT 1,
+          backup_path TEXT
+        )
+      `);
+
+      // Copy data from old table, setting default total_files to 1
+      await db.run(`
+        INSERT INTO rule_deployments_new (id, template_version, deployed_at, deployed_by, total_files, backup_path)
+        SELECT id, template_version, deployed_at, deployed_by, 1, backup_path
+        FROM rule_deployments
+      `);
+
+      // Drop old table and rename new one
+      await db.run(`DROP TABLE rule_deployments`);
+      await db.run(
+        `ALTER TABLE rule_deployments_new RENAME TO rule_deployments`
+      );
+    },
+  },
+  {
+    version: 2,
+    name: "Track anchor content hashes for staleness detection",
+    async up(db) {
+      if (await db.columnExists("fact_anchors", "content_hash")) return;
+      await db.run(`ALTER TABLE fact_anchors ADD COLUMN content_hash TEXT`);
+      await db.run(
+        `ALTER TABLE fact_anchors ADD COLUMN status TEXT NOT NULL DEFAULT 'unchecked'`
+      );
+      await db.run(`ALTER TABLE fact_anchors ADD COLUMN checked_at DATETIME`);
+    },
+  },
+  {
+    version: 3,
+    name: "Scope facts, rule deployments and file activity to projects",
+    async up(db) {
+      for (const table of ["facts", "rule_deployments", "file_activity"]) {
+        if (await db.columnExists(table, "project_id")) continue;
+        await db.run(`ALTER TABLE ${table} ADD COLUMN project_id TEXT`);
+        // Existing rows belong to whichever project opens the database first
+        await db.run(`UPDATE ${table} SET project_id = ?`, [db.projectId]);
+      }
+    },
+  },
+  {
+    version: 4,
+    name: "Record which rule pack each deployed file came from",
+    async up(db) {
+      if (await db.columnExists("rule_files", "pack_name")) return;
+      await db.run(`ALTER TABLE rule_deployments ADD COLUMN packs TEXT`);
+      await db.run(`ALTER TABLE rule_files ADD COLUMN pack_name TEXT`);
+      await db.run(`ALTER TABLE rule_files ADD COLUMN pack_version TEXT`);
+      // Everything deployed so far came from the built-in templates
+      await db.run(`
+        UPDATE rule_deployments SET packs =
+          '[{"name":"default","version":' || json_quote(template_version) || '}]'
+      `);
+      await db.run(`
+        UPDATE rule_files SET pack_name = 'default', pack_version = (
+          SELECT template_version FROM rule_deployments
+          WHERE rule_deployments.id = rule_files.deployment_id
+        )
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "Track which assistant each rule file was written for",
+    async up(db) {
+      if (await db.columnExists("rule_files", "target")) return;
+      await db.run(`ALTER TABLE rule_deployments ADD COLUMN targets TEXT`);
+      await db.run(
+        `ALTER TABLE rule_files ADD COLUMN target TEXT NOT NULL DEFAULT 'cursor'`
+      );
+      // Only Cursor rules were deployed before targets existed
+      await db.run(`UPDATE rule_deployments SET targets = '["cursor"]'`);
+    },
+  },
+  {
+    version: 6,
+    name: "Keep deployed rule content for three-way merges",
+    async up(db) {
+      if (await db.columnExists("rule_files", "content")) return;
+      // Earlier deployments only recorded hashes, so they have no base
+      await db.run(`ALTER TABLE rule_files ADD COLUMN content TEXT`);
+    },
+  },
+  {
+    version: 7,
+    name: "Record rollbacks as deployments of their own",
+    async up(db) {
+      if (await db.columnExists("rule_deployments", "rollback_of")) return;
+      await db.run(
+        `ALTER TABLE rule_deployments ADD COLUMN rollback_of INTEGER`
+      );
+    },
+  },
+  {
+    version: 8,
+    name: "Record the project stack rules were selected for",
+    async up(db) {
+      if (await db.columnExists("rule_deployments", "profile")) return;
+      await db.run(`ALTER TABLE rule_deployments ADD COLUMN profile TEXT`);
+    },
+  },
+  {
+    version: 9,
+    name: "Keep fact revisions and soft-deleted facts",
+    async up(db) {
+      await db.run(`ALTER TABLE facts ADD COLUMN deleted_at DATETIME`);
+      // Earlier changes were not recorded, so history starts from here
+      await db.run(`
+        INSERT INTO fact_revisions (fact_id, revision, action, project_id, category, fact, context, tags, created_at)
+        SELECT id, 1, 'baseline', project_id, category, fact, context, tags, updated_at
+        FROM facts
+      `);
+    },
+  },
+];
+
+// The schema version this build creates and understands
+export const SCHEMA_VERSION =
+  SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
 }
 
 export class ContextDatabase {
   private db: sqlite3.Database | null = null;
   private dbPath: string;
+  private projectId: string | null = null;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  // Set while queued work runs, with how many transactions it has open
+  private queuedWork = new AsyncLocalStorage<{ transactions: number }>();
+  private cipher: FactTextCipher | null = null;
 
   constructor(dbPath?: string) {
     // Use a safe directory for the database - either provided path or home directory
@@ -57,7 +453,14 @@ export class ContextDatabase {
     }
   }
 
-  async initialize(): Promise<void> {
+  /**
+   * Opens the database for the given project. Project-scoped queries only
+   * see that project's rows; rows from before projects existed are adopted
+   * by the first project to open the database.
+   */
+  async initialize(projectId: string): Promise<void> {
+    this.projectId = projectId;
+
     // Ensure the directory exists
     const dbDir = path.dirname(this.dbPath);
     await fs.mkdir(dbDir, { recursive: true });
@@ -73,6 +476,11 @@ export class ContextDatabase {
     });
   }
 
+  // Where the database file is
+  get path(): string {
+    return this.dbPath;
+  }
+
   private async createTables(): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
@@ -85,16 +493,102 @@ export class ContextDatabase {
       });
     };
 
+    const created = !(await this.get(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'facts'"
+    ));
+
+    // Record which schema migrations have been applied
+    await run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // A newer build may have changed the schema in ways this one would break
+    const { version } = await this.get(
+      "SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations"
+    );
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `${this.dbPath} has schema version ${version}, but this version of dev-assistant-mcp-server only supports up to ${SCHEMA_VERSION}. Upgrade it to open this database`
+      );
+    }
+
     // Create facts table
     await run(`
       CREATE TABLE IF NOT EXISTS facts (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id TEXT, -- NULL for global facts
         category TEXT NOT NULL,
         fact TEXT NOT NULL,
         context TEXT,
         tags TEXT, -- JSON array of tags
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        deleted_at DATETIME -- Set by soft deletes
+      )
+    `);
+
+    // Create fact revisions table, a snapshot of a fact after each change
+    await run(`
+      CREATE TABLE IF NOT EXISTS fact_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        fact_id INTEGER NOT NULL,
+        revision INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        author TEXT,
+        project_id TEXT,
+        category TEXT NOT NULL,
+        fact TEXT NOT NULL,
+        context TEXT,
+        tags TEXT,
+        reverted_to INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (fact_id, revision)
+      )
+    `);
+
+    await run(`
+      CREATE TRIGGER IF NOT EXISTS fact_revisions_delete AFTER DELETE ON facts BEGIN
+        DELETE FROM fact_revisions WHERE fact_id = old.id;
+      END
+    `);
+
+    // Create fact anchors table linking facts to files, symbols and commits
+    await run(`
+      CREATE TABLE IF NOT EXISTS fact_anchors (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        fact_id INTEGER NOT NULL,
+        file_path TEXT NOT NULL,
+        start_line INTEGER,
+        end_line INTEGER,
+        symbol TEXT,
+        commit_sha TEXT,
+        content_hash TEXT,
+        status TEXT NOT NULL DEFAULT 'unchecked',
+        checked_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await run(`
+      CREATE TRIGGER IF NOT EXISTS fact_anchors_delete AFTER DELETE ON facts BEGIN
+        DELETE FROM fact_anchors WHERE fact_id = old.id;
+      END
+    `);
+
+    // Create file activity table, filled by the project watcher
+    await run(`
+      CREATE TABLE IF NOT EXISTS file_activity (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id TEXT,
+        path TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        size_delta INTEGER NOT NULL DEFAULT 0,
+        size INTEGER,
+        occurred_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
@@ -102,11 +596,16 @@ export class ContextDatabase {
     await run(`
       CREATE TABLE IF NOT EXISTS rule_deployments (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id TEXT,
         template_version TEXT NOT NULL,
         deployed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         deployed_by TEXT,
         total_files INTEGER NOT NULL,
-        backup_path TEXT
+        backup_path TEXT,
+        packs TEXT, -- JSON array of {name, version}
+        targets TEXT, -- JSON array of target names
+        rollback_of INTEGER,
+        profile TEXT -- JSON RuleDeploymentProfile
       )
     `);
 
@@ -117,12 +616,38 @@ export class ContextDatabase {
         deployment_id INTEGER NOT NULL,
         filename TEXT NOT NULL,
         content_hash TEXT NOT NULL,
-        deployed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        deployed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        pack_name TEXT,
+        pack_version TEXT,
+        target TEXT NOT NULL DEFAULT 'cursor',
+        content TEXT
       )
     `);
 
     // Run migrations for existing databases
-    await this.runMigrations();
+    await this.runMigrations(created);
+
+    // Full-text index over facts, kept in sync by triggers
+    await this.createFactsFts();
+
+    // Embedding vectors per fact and model, computed lazily by SemanticIndex
+    await run(`
+      CREATE TABLE IF NOT EXISTS fact_embeddings (
+        fact_id INTEGER NOT NULL,
+        model TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        vector BLOB NOT NULL, -- Encrypted text while the database is encrypted
+        content_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (fact_id, model)
+      )
+    `);
+
+    await run(`
+      CREATE TRIGGER IF NOT EXISTS fact_embeddings_delete AFTER DELETE ON facts BEGIN
+        DELETE FROM fact_embeddings WHERE fact_id = old.id;
+      END
+    `);
 
     // Create indexes for better search performance
     await run(`
@@ -133,6 +658,26 @@ export class ContextDatabase {
       CREATE INDEX IF NOT EXISTS idx_facts_created_at ON facts(created_at)
     `);
 
+    await run(`
+      CREATE INDEX IF NOT EXISTS idx_facts_project_id ON facts(project_id)
+    `);
+
+    await run(`
+      CREATE INDEX IF NOT EXISTS idx_fact_anchors_fact_id ON fact_anchors(fact_id)
+    `);
+
+    await run(`
+      CREATE INDEX IF NOT EXISTS idx_fact_anchors_file_path ON fact_anchors(file_path)
+    `);
+
+    await run(`
+      CREATE INDEX IF NOT EXISTS idx_file_activity_occurred_at ON file_activity(occurred_at)
+    `);
+
+    await run(`
+      CREATE INDEX IF NOT EXISTS idx_file_activity_project_id ON file_activity(project_id)
+    `);
+
     await run(`
       CREATE INDEX IF NOT EXISTS idx_rule_deployments_deployed_at ON rule_deployments(deployed_at)
     `);
@@ -142,99 +687,284 @@ export class ContextDatabase {
     `);
   }
 
-  private async runMigrations(): Promise<void> {
+  /**
+   * Applies the migrations this database has not had yet, each in a
+   * transaction with its row in schema_migrations. A database created just
+   * now is already at the latest schema, so its migrations are only
+   * recorded.
+   */
+  private async runMigrations(created: boolean): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const run = (sql: string): Promise<void> => {
-      return new Promise((resolve, reject) => {
-        this.db!.run(sql, (err) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
+    const context: MigrationContext = {
+      projectId: this.projectId!,
+      run: (sql, params) => this.run(sql, params),
+      columnExists: async (table, column) =>
+        (await this.all(`PRAGMA table_info(${table})`)).some(
+          (row) => row.name === column
+        ),
     };
+    const applied = new Set(
+      (await this.all("SELECT version FROM schema_migrations")).map(
+        (row) => row.version
+      )
+    );
 
-    const columnExists = (
-      tableName: string,
-      columnName: string
-    ): Promise<boolean> => {
-      return new Promise((resolve, reject) => {
-        this.db!.all(`PRAGMA table_info(${tableName})`, (err, rows: any[]) => {
-          if (err) {
-            reject(err);
-          } else {
-            const exists = rows.some((row) => row.name === columnName);
-            resolve(exists);
+    for (const migration of SCHEMA_MIGRATIONS) {
+      if (applied.has(migration.version)) continue;
+      try {
+        await this.transaction(async () => {
+          if (!created) {
+            console.error(
+              `Applying migration ${migration.version}: ${migration.name}...`
+            );
+            await migration.up(context);
           }
+          await this.run(
+            "INSERT INTO schema_migrations (version, name) VALUES (?, ?)",
+            [migration.version, migration.name]
+          );
         });
-      });
+      } catch (error) {
+        console.error(`Migration ${migration.version} failed:`, error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * The schema version of the database, the newest this build supports, and
+   * the migrations applied to it.
+   */
+  async getSchemaStatus(): Promise<{
+    version: number;
+    supportedVersion: number;
+    migrations: AppliedMigration[];
+  }> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const rows = await this.all(
+      "SELECT version, name, applied_at FROM schema_migrations ORDER BY version"
+    );
+    return {
+      version: rows.length > 0 ? rows[rows.length - 1].version : 0,
+      supportedVersion: SCHEMA_VERSION,
+      migrations: rows.map((row) => ({
+        version: row.version,
+        name: row.name,
+        appliedAt: row.applied_at,
+      })),
     };
+  }
 
-    try {
-      // Migration 1: Update rule_deployments table schema
-      const hasOldTemplateHash = await columnExists(
-        "rule_deployments",
-        "template_hash"
-      );
-      const hasTotalFiles = await columnExists(
-        "rule_deployments",
-        "total_files"
-      );
+  /**
+   * The number of rows in each table, across every project.
+   */
+  async getTableCounts(): Promise<Record<string, number>> {
+    if (!this.db) throw new Error("Database not initialized");
 
-      if (hasOldTemplateHash || !hasTotalFiles) {
-        console.error("Migrating rule_deployments table to new schema...");
-
-        // Create new table with correct schema
-        await run(`
-          CREATE TABLE rule_deployments_new (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            template_version TEXT NOT NULL,
-            deployed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            deployed_by TEXT,
-            total_files INTEGER NOT NULL DEFAULT 1,
-            backup_path TEXT
-          )
-        `);
-
-        // Copy data from old table, setting default total_files to 1
-        await run(`
-          INSERT INTO rule_deployments_new (id, template_version, deployed_at, deployed_by, total_files, backup_path)
-          SELECT id, template_version, deployed_at, deployed_by, 1, backup_path
-          FROM rule_deployments
-        `);
-
-        // Drop old table and rename new one
-        await run(`DROP TABLE rule_deployments`);
-        await run(
-          `ALTER TABLE rule_deployments_new RENAME TO rule_deployments`
-        );
+    const counts: Record<string, number> = {};
+    for (const table of [
+      "facts",
+      "fact_anchors",
+      "fact_embeddings",
+      "file_activity",
+      "rule_deployments",
+      "rule_files",
+    ]) {
+      const row = await this.get(`SELECT COUNT(*) AS count FROM ${table}`);
+      counts[table] = row.count;
+    }
+    return counts;
+  }
+
+  private async createFactsFts(): Promise<void> {
+    const existing = await this.get(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'facts_fts'"
+    );
+
+    await this.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS facts_fts USING fts5(
+        fact,
+        context,
+        tags,
+        category,
+        content='facts',
+        content_rowid='id',
+        tokenize='porter unicode61'
+      )
+    `);
+
+    await this.run(`
+      CREATE TRIGGER IF NOT EXISTS facts_fts_insert AFTER INSERT ON facts BEGIN
+        INSERT INTO facts_fts (rowid, fact, context, tags, category)
+        VALUES (new.id, new.fact, new.context, new.tags, new.category);
+      END
+    `);
+
+    await this.run(`
+      CREATE TRIGGER IF NOT EXISTS facts_fts_delete AFTER DELETE ON facts BEGIN
+        INSERT INTO facts_fts (facts_fts, rowid, fact, context, tags, category)
+        VALUES ('delete', old.id, old.fact, old.context, old.tags, old.category);
+      END
+    `);
+
+    await this.run(`
+      CREATE TRIGGER IF NOT EXISTS facts_fts_update AFTER UPDATE ON facts BEGIN
+        INSERT INTO facts_fts (facts_fts, rowid, fact, context, tags, category)
+        VALUES ('delete', old.id, old.fact, old.context, old.tags, old.category);
+        INSERT INTO facts_fts (rowid, fact, context, tags, category)
+        VALUES (new.id, new.fact, new.context, new.tags, new.category);
+      END
+    `);
+
+    // Index facts stored before the FTS table existed
+    if (!existing) {
+      await this.run("INSERT INTO facts_fts (facts_fts) VALUES ('rebuild')");
+    }
+  }
 
-        console.error("Migration completed successfully.");
+  /**
+   * Runs `work` inside BEGIN/COMMIT, rolling back if it throws. Transactions
+   * are queued because every caller shares one connection. Called from
+   * inside another transaction, e.g. storeFact during an import, it joins
+   * it as a savepoint, so the outer transaction still commits or rolls
+   * back everything.
+   */
+  transaction<T>(work: () => Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const queued = this.queuedWork.getStore()!;
+      const savepoint =
+        queued.transactions > 0 ? `nested_${queued.transactions}` : null;
+      await this.run(savepoint ? `SAVEPOINT ${savepoint}` : "BEGIN");
+      queued.transactions++;
+      try {
+        const value = await work();
+        await this.run(savepoint ? `RELEASE ${savepoint}` : "COMMIT");
+        return value;
+      } catch (error) {
+        if (savepoint) {
+          await this.run(`ROLLBACK TO ${savepoint}`);
+          await this.run(`RELEASE ${savepoint}`);
+        } else {
+          await this.run("ROLLBACK");
+        }
+        throw error;
+      } finally {
+        queued.transactions--;
       }
-    } catch (error) {
-      console.error("Migration failed:", error);
-      throw error;
+    });
+  }
+
+  /**
+   * Runs `work` once the queued transactions have finished. Every write
+   * goes through the queue, so none lands inside another caller's
+   * transaction and is committed or rolled back with it. Work queued from
+   * queued work runs straight away, as part of it; waiting would deadlock.
+   */
+  private enqueue<T>(work: () => Promise<T>): Promise<T> {
+    if (this.queuedWork.getStore()) return work();
+
+    const result = this.transactionQueue.then(() =>
+      this.queuedWork.run({ transactions: 0 }, work)
+    );
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // A single statement, run through the queue
+  private write(
+    sql: string,
+    params: any[] = []
+  ): Promise<{ lastID: number; changes: number }> {
+    return this.enqueue(() => this.run(sql, params));
+  }
+
+  /**
+   * SQL condition restricting `facts` (or the given alias) to a scope.
+   * Deleted facts are left out unless `includeDeleted` is set.
+   */
+  private scopeCondition(
+    scope: FactScope,
+    table: string = "facts",
+    includeDeleted: boolean = false
+  ): { sql: string; params: any[] } {
+    if (!this.projectId) throw new Error("Database not initialized");
+
+    const live = includeDeleted ? "" : ` AND ${table}.deleted_at IS NULL`;
+    switch (scope) {
+      case "project":
+        return {
+          sql: `${table}.project_id = ?${live}`,
+          params: [this.projectId],
+        };
+      case "global":
+        return { sql: `${table}.project_id IS NULL${live}`, params: [] };
+      case "all":
+        return {
+          sql: `(${table}.project_id = ? OR ${table}.project_id IS NULL)${live}`,
+          params: [this.projectId],
+        };
     }
   }
 
+  private run(
+    sql: string,
+    params: any[] = []
+  ): Promise<{ lastID: number; changes: number }> {
+    return new Promise((resolve, reject) => {
+      this.db!.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve({ lastID: this.lastID, changes: this.changes });
+      });
+    });
+  }
+
+  private get(sql: string, params: any[] = []): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.db!.get(sql, params, (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows || []);
+      });
+    });
+  }
+
   async storeFact(
     category: string,
     fact: string,
     context?: string,
-    tags: string[] = []
+    tags: string[] = [],
+    anchors: FactAnchorInput[] = [],
+    scope: Exclude<FactScope, "all"> = "project",
+    author?: string
   ): Promise<number> {
     if (!this.db) throw new Error("Database not initialized");
 
-    return new Promise((resolve, reject) => {
-      this.db!.run(
-        `INSERT INTO facts (category, fact, context, tags) 
-         VALUES (?, ?, ?, ?)`,
-        [category, fact, context, JSON.stringify(tags)],
-        function (err) {
-          if (err) reject(err);
-          else resolve(this.lastID);
-        }
+    const projectId = scope === "global" ? null : this.projectId;
+    return this.transaction(async () => {
+      const { lastID } = await this.run(
+        `INSERT INTO facts (project_id, category, fact, context, tags) 
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          projectId,
+          category,
+          this.encryptFactText(fact),
+          context && this.encryptFactText(context),
+          JSON.stringify(tags),
+        ]
       );
+      await this.insertFactAnchors(lastID, anchors);
+      await this.recordRevision(lastID, "create", author);
+      return lastID;
     });
   }
 
@@ -242,23 +972,25 @@ export class ContextDatabase {
     category?: string,
     tags?: string[],
     search?: string,
-    limit: number = 20
+    limit: number = 20,
+    scope: FactScope = "project",
+    includeDeleted: boolean = false // Not with `search`
   ): Promise<StoredFact[]> {
     if (!this.db) throw new Error("Database not initialized");
 
-    let query = "SELECT * FROM facts WHERE 1=1";
-    const params: any[] = [];
+    if (search && search.trim()) {
+      return this.searchFacts(search, category, tags, limit, scope);
+    }
+
+    const scopeFilter = this.scopeCondition(scope, "facts", includeDeleted);
+    let query = `SELECT * FROM facts WHERE ${scopeFilter.sql}`;
+    const params: any[] = [...scopeFilter.params];
 
     if (category) {
       query += " AND category = ?";
       params.push(category);
     }
 
-    if (search) {
-      query += " AND (fact LIKE ? OR context LIKE ?)";
-      params.push(`%${search}%`, `%${search}%`);
-    }
-
     if (tags && tags.length > 0) {
       // Search for any of the provided tags in the JSON array
       const tagConditions = tags.map(() => "tags LIKE ?").join(" OR ");
@@ -268,6 +1000,7 @@ export class ContextDatabase {
       });
     }
 
+    // A negative limit returns every matching fact
     query += " ORDER BY created_at DESC LIMIT ?";
     params.push(limit);
 
@@ -278,102 +1011,721 @@ export class ContextDatabase {
       });
     });
 
-    return rows.map((row) => ({
-      id: row.id,
-      category: row.category,
-      fact: row.fact,
-      context: row.context,
-      tags: JSON.parse(row.tags || "[]"),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return this.attachAnchors(rows.map((row) => this.mapFactRow(row)));
   }
 
-  async updateFact(
-    id: number,
-    updates: Partial<Pick<StoredFact, "category" | "fact" | "context" | "tags">>
-  ): Promise<void> {
+  /**
+   * Full-text search ranked by BM25. Accepts FTS5 query syntax (phrases in
+   * double quotes, prefix*, AND/OR/NOT, NEAR); plain text is matched on any
+   * of its words so natural-language questions still find relevant facts.
+   */
+  async searchFacts(
+    search: string,
+    category?: string,
+    tags?: string[],
+    limit: number = 20,
+    scope: FactScope = "project"
+  ): Promise<FactSearchResult[]> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const fields: string[] = [];
-    const params: any[] = [];
-
-    if (updates.category !== undefined) {
-      fields.push("category = ?");
-      params.push(updates.category);
+    if (this.cipher) {
+      return this.searchDecryptedFacts(search, category, tags, limit, scope);
     }
 
-    if (updates.fact !== undefined) {
-      fields.push("fact = ?");
-      params.push(updates.fact);
-    }
+    const scopeFilter = this.scopeCondition(scope);
+    const runSearch = (matchQuery: string) => {
+      // Column weights: fact, context, tags, category
+      let query = `
+        SELECT facts.*,
+          bm25(facts_fts, 10.0, 4.0, 2.0, 1.0) AS rank,
+          snippet(facts_fts, -1, '**', '**', '...', 16) AS snippet
+        FROM facts_fts
+        JOIN facts ON facts.id = facts_fts.rowid
+        WHERE facts_fts MATCH ? AND ${scopeFilter.sql}`;
+      const params: any[] = [matchQuery, ...scopeFilter.params];
+
+      if (category) {
+        query += " AND facts.category = ?";
+        params.push(category);
+      }
 
-    if (updates.context !== undefined) {
-      fields.push("context = ?");
-      params.push(updates.context);
-    }
+      if (tags && tags.length > 0) {
+        const tagConditions = tags.map(() => "facts.tags LIKE ?").join(" OR ");
+        query += ` AND (${tagConditions})`;
+        tags.forEach((tag) => {
+          params.push(`%"${tag}"%`);
+        });
+      }
 
-    if (updates.tags !== undefined) {
-      fields.push("tags = ?");
-      params.push(JSON.stringify(updates.tags));
+      query += " ORDER BY rank LIMIT ?";
+      params.push(limit);
+
+      return this.all(query, params);
+    };
+
+    let rows: any[];
+    if (isAdvancedFtsQuery(search)) {
+      try {
+        rows = await runSearch(search);
+      } catch (error) {
+        // Malformed FTS5 syntax, such as an unterminated quote or a stray
+        // column filter: fall back to matching the individual words
+        if ((error as any)?.code !== "SQLITE_ERROR") throw error;
+        rows = await runSearch(toPlainFtsQuery(search));
+      }
+    } else {
+      rows = await runSearch(toPlainFtsQuery(search));
     }
 
-    if (fields.length === 0) return;
+    return this.attachAnchors(
+      rows.map((row) => ({
+        ...this.mapFactRow(row),
+        score: Number((-row.rank).toPrecision(4)),
+        snippet: row.snippet,
+      }))
+    );
+  }
+
+  /**
+   * Search used while the fact and context columns are encrypted, when the
+   * full-text index only holds ciphertext. Facts are decrypted and ranked by
+   * the words in each column that start with a search word, weighted as in
+   * searchFacts; FTS5 operators are read as plain words.
+   */
+  private async searchDecryptedFacts(
+    search: string,
+    category: string | undefined,
+    tags: string[] | undefined,
+    limit: number,
+    scope: FactScope
+  ): Promise<FactSearchResult[]> {
+    const scopeFilter = this.scopeCondition(scope);
+    let query = `SELECT * FROM facts WHERE ${scopeFilter.sql}`;
+    const params: any[] = [...scopeFilter.params];
 
-    fields.push("updated_at = CURRENT_TIMESTAMP");
-    params.push(id);
+    if (category) {
+      query += " AND category = ?";
+      params.push(category);
+    }
 
-    await new Promise<void>((resolve, reject) => {
-      this.db!.run(
-        `UPDATE facts SET ${fields.join(", ")} WHERE id = ?`,
-        params,
-        (err) => {
-          if (err) reject(err);
-          else resolve();
+    if (tags && tags.length > 0) {
+      const tagConditions = tags.map(() => "tags LIKE ?").join(" OR ");
+      query += ` AND (${tagConditions})`;
+      tags.forEach((tag) => {
+        params.push(`%"${tag}"%`);
+      });
+    }
+
+    const terms = searchTerms(
+      search.replace(/\b(AND|OR|NOT|NEAR)\b/g, " ")
+    ).map((term) => term.toLowerCase());
+    const weights = [10, 4, 2, 1]; // fact, context, tags, category
+    const results: FactSearchResult[] = [];
+    for (const row of await this.all(
+      `${query} ORDER BY created_at DESC`,
+      params
+    )) {
+      const fact = this.mapFactRow(row);
+      const columns = [
+        fact.fact,
+        fact.context ?? "",
+        fact.tags.join(" "),
+        fact.category,
+      ];
+      let score = 0;
+      columns.forEach((text, column) => {
+        for (const word of text.toLowerCase().match(WORD_PATTERN) || []) {
+          if (terms.some((term) => word.startsWith(term))) {
+            score += weights[column];
+          }
         }
-      );
-    });
+      });
+      if (score === 0) continue;
+
+      const inFact = highlightSnippet(fact.fact, terms);
+      results.push({
+        ...fact,
+        score,
+        snippet:
+          !inFact.includes("**") && fact.context
+            ? highlightSnippet(fact.context, terms)
+            : inFact,
+      });
+    }
+
+    // Stable, so equal scores stay newest first
+    results.sort((a, b) => b.score - a.score);
+    return this.attachAnchors(limit < 0 ? results : results.slice(0, limit));
   }
 
-  async deleteFact(id: number): Promise<void> {
+  /**
+   * Looks up a fact of the current project or a global fact; facts of other
+   * projects, and deleted facts unless `includeDeleted` is set, are treated
+   * as not found.
+   */
+  async getFactById(
+    id: number,
+    includeDeleted: boolean = false
+  ): Promise<StoredFact | null> {
     if (!this.db) throw new Error("Database not initialized");
 
-    await new Promise<void>((resolve, reject) => {
-      this.db!.run("DELETE FROM facts WHERE id = ?", [id], (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+    const scopeFilter = this.scopeCondition("all", "facts", includeDeleted);
+    const row = await this.get(
+      `SELECT * FROM facts WHERE id = ? AND ${scopeFilter.sql}`,
+      [id, ...scopeFilter.params]
+    );
+
+    if (!row) return null;
+    const [fact] = await this.attachAnchors([this.mapFactRow(row)]);
+    return fact;
+  }
+
+  /**
+   * Sets the cipher the fact and context columns are encrypted with, or
+   * null to store them in plain text. Values already stored are not
+   * changed; see rewriteFactText.
+   */
+  setFactCipher(cipher: FactTextCipher | null): void {
+    this.cipher = cipher;
+  }
+
+  /**
+   * How many facts, across every project, are stored in plain text and how
+   * many are encrypted with each key.
+   */
+  async getFactEncryptionCounts(): Promise<{
+    plaintext: number;
+    encrypted: Record<string, number>; // By key ID
+  }> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const rows = await this.all(
+      `SELECT CASE WHEN substr(fact, 1, 7) = ? THEN substr(fact, 8, 8) END AS key_id,
+         COUNT(*) AS count
+       FROM facts GROUP BY key_id`,
+      [ENCRYPTED_PREFIX]
+    );
+    const counts = { plaintext: 0, encrypted: {} as Record<string, number> };
+    for (const row of rows) {
+      if (row.key_id === null) counts.plaintext = row.count;
+      else counts.encrypted[row.key_id] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Rewrites the fact and context text of every fact and fact revision, in
+   * every project:
+   * encrypted with the current key, or in plain text when `encrypt` is
+   * false. Values written with a previous key are re-encrypted, which is
+   * how keys are rotated; so are the values the secret policy encrypted
+   * within the text, which stay encrypted either way. The full-text index
+   * is rebuilt and the file
+   * vacuumed so no copy of the old text is left in free pages. Resolves to
+   * the number of facts rewritten.
+   */
+  async rewriteFactText(encrypt: boolean): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+    const cipher = this.cipher;
+    if (encrypt && !cipher) throw new Error("No database key is configured");
+
+    // Text encrypted with the current key was written with it throughout
+    const target = encrypt ? `${ENCRYPTED_PREFIX}${cipher!.keyId}:` : null;
+    const isCurrent = (value: string | null) =>
+      value === null ||
+      (target
+        ? value.startsWith(target)
+        : !value.startsWith(ENCRYPTED_PREFIX) &&
+          (!cipher || cipher.rotateSpans(value) === value));
+    const rewrite = (value: string) => {
+      const text = cipher ? cipher.rotateSpans(cipher.decrypt(value)) : value;
+      return encrypt ? cipher!.encrypt(text) : text;
+    };
+
+    const rewriteTable = async (table: string) => {
+      const rows = await this.all(`SELECT id, fact, context FROM ${table}`);
+      let count = 0;
+      for (const row of rows) {
+        if (isCurrent(row.fact) && isCurrent(row.context)) continue;
+        await this.run(
+          `UPDATE ${table} SET fact = ?, context = ? WHERE id = ?`,
+          [
+            rewrite(row.fact),
+            row.context === null ? null : rewrite(row.context),
+            row.id,
+          ]
+        );
+        count++;
+      }
+      return count;
+    };
+
+    const rewritten = await this.transaction(async () => {
+      const count = await rewriteTable("facts");
+      const revisions = await rewriteTable("fact_revisions");
+      if (count > 0) {
+        await this.run("INSERT INTO facts_fts (facts_fts) VALUES ('rebuild')");
+        // Embeddings are stored the way the text was; they are recomputed
+        // on the next semantic search
+        await this.run("DELETE FROM fact_embeddings");
+      }
+      return { count, revisions };
     });
+
+    if (rewritten.count + rewritten.revisions > 0) {
+      await this.vacuum("rewriting fact text");
+    }
+    return rewritten.count;
+  }
+
+  /**
+   * Rebuilds the file so no copy of removed or rewritten text is left in
+   * free pages. VACUUM cannot run inside a transaction, so it waits for the
+   * queue; from inside queued work, it is queued behind that work instead.
+   * A failure is logged rather than thrown, since the change before it is
+   * already committed; the next vacuum clears the pages.
+   */
+  private async vacuum(after: string): Promise<void> {
+    if (this.queuedWork.getStore()) {
+      this.queuedWork.exit(() => void this.vacuum(after));
+      return;
+    }
+    try {
+      await this.enqueue(() => this.run("VACUUM"));
+    } catch (error) {
+      console.error(`Could not vacuum the database after ${after}:`, error);
+    }
   }
 
-  async getCategories(): Promise<string[]> {
+  /**
+   * The fact and context text of every fact in the scope as stored, without
+   * decoding: only the database encryption is undone. Deleted facts are
+   * included, since restoring one brings its text back.
+   */
+  async getStoredFactText(scope: FactScope = "all"): Promise<
+    (Pick<StoredFact, "id" | "projectId" | "category" | "fact" | "context"> & {
+      deleted: boolean;
+    })[]
+  > {
     if (!this.db) throw new Error("Database not initialized");
 
-    const rows = await new Promise<any[]>((resolve, reject) => {
-      this.db!.all(
-        "SELECT DISTINCT category FROM facts ORDER BY category",
-        (err, rows) => {
-          if (err) reject(err);
-          else resolve(rows || []);
+    const scopeFilter = this.scopeCondition(scope, "facts", true);
+    const rows = await this.all(
+      `SELECT id, project_id, category, fact, context, deleted_at FROM facts
+       WHERE ${scopeFilter.sql} ORDER BY id`,
+      scopeFilter.params
+    );
+    return rows.map((row) => ({
+      id: row.id,
+      projectId: row.project_id ?? null,
+      category: row.category,
+      fact: this.decryptFactText(row.fact),
+      context: row.context ? this.decryptFactText(row.context) : row.context,
+      deleted: row.deleted_at !== null,
+    }));
+  }
+
+  private mapFactRow(row: any): StoredFact {
+    return {
+      id: row.id,
+      projectId: row.project_id ?? null,
+      category: row.category,
+      fact: this.readFactText(row.fact),
+      context: row.context ? this.readFactText(row.context) : row.context,
+      tags: JSON.parse(row.tags || "[]"),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at ?? undefined,
+    };
+  }
+
+  private encryptFactText(text: string): string {
+    return this.cipher ? this.cipher.encrypt(text) : text;
+  }
+
+  private decryptFactText(text: string): string {
+    return this.cipher ? this.cipher.decrypt(text) : text;
+  }
+
+  // Also decrypts the values the secret policy encrypted
+  private readFactText(text: string): string {
+    return this.cipher
+      ? this.cipher.revealSpans(this.cipher.decrypt(text))
+      : text;
+  }
+
+  /**
+   * Updates the given fields of a fact; `scope` moves it between the current
+   * project and the global scope, and `anchors` replaces all of its anchors,
+   * in the same transaction. A change to the fact is recorded as a revision
+   * made by `author`; an update that changes nothing is not. Resolves to
+   * false when no fact with the given ID exists in the current project or
+   * the global scope, or when it is deleted and `includeDeleted` is not set.
+   */
+  async updateFact(
+    id: number,
+    updates: Partial<
+      Pick<StoredFact, "category" | "fact" | "context" | "tags">
+    > & {
+      scope?: Exclude<FactScope, "all">;
+      anchors?: FactAnchorInput[];
+    },
+    author?: string,
+    includeDeleted: boolean = false
+  ): Promise<boolean> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const scopeFilter = this.scopeCondition("all", "facts", includeDeleted);
+    return this.transaction(async () => {
+      const row = await this.get(
+        `SELECT * FROM facts WHERE id = ? AND ${scopeFilter.sql}`,
+        [id, ...scopeFilter.params]
+      );
+      if (!row) return false;
+
+      const fields: string[] = [];
+      const params: any[] = [];
+
+      if (updates.category !== undefined && updates.category !== row.category) {
+        fields.push("category = ?");
+        params.push(updates.category);
+      }
+
+      if (
+        updates.fact !== undefined &&
+        updates.fact !== this.decryptFactText(row.fact)
+      ) {
+        fields.push("fact = ?");
+        params.push(this.encryptFactText(updates.fact));
+      }
+
+      if (
+        updates.context !== undefined &&
+        updates.context !==
+          (row.context === null ? null : this.decryptFactText(row.context))
+      ) {
+        fields.push("context = ?");
+        params.push(updates.context && this.encryptFactText(updates.context));
+      }
+
+      if (
+        updates.tags !== undefined &&
+        JSON.stringify(updates.tags) !== row.tags
+      ) {
+        fields.push("tags = ?");
+        params.push(JSON.stringify(updates.tags));
+      }
+
+      if (updates.scope !== undefined) {
+        const projectId = updates.scope === "global" ? null : this.projectId;
+        if (projectId !== row.project_id) {
+          fields.push("project_id = ?");
+          params.push(projectId);
         }
+      }
+
+      if (updates.anchors !== undefined) {
+        await this.run("DELETE FROM fact_anchors WHERE fact_id = ?", [id]);
+        await this.insertFactAnchors(id, updates.anchors);
+      }
+
+      // Anchors are not part of a revision
+      const revised = fields.length > 0;
+      if (!revised && updates.anchors === undefined) return true;
+
+      fields.push("updated_at = CURRENT_TIMESTAMP");
+      await this.run(`UPDATE facts SET ${fields.join(", ")} WHERE id = ?`, [
+        ...params,
+        id,
+      ]);
+      if (revised) await this.recordRevision(id, "update", author);
+      return true;
+    });
+  }
+
+  /**
+   * Deletes a fact, recording who by. The fact is only marked deleted, so
+   * restoreFact can bring it back; `permanent` removes it along with its
+   * anchors and revisions, e.g. for text that should never have been
+   * stored. Resolves to false when no fact with the given ID exists in the
+   * current project or the global scope.
+   */
+  async deleteFact(
+    id: number,
+    author?: string,
+    permanent: boolean = false
+  ): Promise<boolean> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    if (permanent) {
+      const scopeFilter = this.scopeCondition("all", "facts", true);
+      const result = await this.transaction(() =>
+        this.run(`DELETE FROM facts WHERE id = ? AND ${scopeFilter.sql}`, [
+          id,
+          ...scopeFilter.params,
+        ])
+      );
+      if (result.changes === 0) return false;
+      await this.vacuum(`deleting fact ${id}`);
+      return true;
+    }
+
+    const scopeFilter = this.scopeCondition("all");
+    return this.transaction(async () => {
+      const result = await this.run(
+        `UPDATE facts SET deleted_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND ${scopeFilter.sql}`,
+        [id, ...scopeFilter.params]
       );
+      if (result.changes === 0) return false;
+      await this.recordRevision(id, "delete", author);
+      return true;
     });
+  }
 
-    return rows.map((row) => row.category);
+  /**
+   * Brings back a deleted fact. Resolves to false when there is no deleted
+   * fact with the given ID in the current project or the global scope.
+   */
+  async restoreFact(id: number, author?: string): Promise<boolean> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const scopeFilter = this.scopeCondition("all", "facts", true);
+    return this.transaction(async () => {
+      const result = await this.run(
+        `UPDATE facts SET deleted_at = NULL
+         WHERE id = ? AND deleted_at IS NOT NULL AND ${scopeFilter.sql}`,
+        [id, ...scopeFilter.params]
+      );
+      if (result.changes === 0) return false;
+      await this.recordRevision(id, "restore", author);
+      return true;
+    });
   }
 
-  async getAllTags(): Promise<string[]> {
+  /**
+   * Sets a fact's category, text, context and tags back to what they were
+   * in an earlier revision, as a new revision. Its scope and anchors are
+   * left as they are. Resolves to false when the fact or the revision does
+   * not exist, or the fact is deleted.
+   */
+  async revertFact(
+    id: number,
+    revision: number,
+    author?: string
+  ): Promise<boolean> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const rows = await new Promise<any[]>((resolve, reject) => {
-      this.db!.all(
-        "SELECT DISTINCT tags FROM facts WHERE tags IS NOT NULL",
-        (err, rows) => {
-          if (err) reject(err);
-          else resolve(rows || []);
-        }
+    const scopeFilter = this.scopeCondition("all");
+    return this.transaction(async () => {
+      const target = await this.get(
+        `SELECT fact_revisions.* FROM fact_revisions
+         JOIN facts ON facts.id = fact_revisions.fact_id
+         WHERE fact_revisions.fact_id = ? AND fact_revisions.revision = ?
+           AND ${scopeFilter.sql}`,
+        [id, revision, ...scopeFilter.params]
+      );
+      if (!target) return false;
+
+      await this.run(
+        `UPDATE facts SET category = ?, fact = ?, context = ?, tags = ?,
+           updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [target.category, target.fact, target.context, target.tags, id]
       );
+      await this.recordRevision(id, "revert", author, revision);
+      return true;
     });
+  }
+
+  /**
+   * Snapshots a fact as it is now as its next revision. Called inside the
+   * transaction that changed it.
+   */
+  private async recordRevision(
+    factId: number,
+    action: FactRevisionAction,
+    author?: string,
+    revertedTo?: number
+  ): Promise<void> {
+    await this.run(
+      `INSERT INTO fact_revisions
+         (fact_id, revision, action, author, project_id, category, fact, context, tags, reverted_to)
+       SELECT id,
+         (SELECT COALESCE(MAX(revision), 0) + 1 FROM fact_revisions WHERE fact_id = facts.id),
+         ?, ?, project_id, category, fact, context, tags, ?
+       FROM facts WHERE id = ?`,
+      [action, author ?? null, revertedTo ?? null, factId]
+    );
+  }
+
+  /**
+   * Revisions of facts in the scope, deleted facts included: one fact's in
+   * order, or with no `factId` the most recent first.
+   */
+  async getFactRevisions(
+    options: {
+      factId?: number;
+      action?: FactRevisionAction;
+      limit?: number; // Negative for all
+      scope?: FactScope;
+    } = {}
+  ): Promise<FactRevision[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const scopeFilter = this.scopeCondition(
+      options.scope ?? "all",
+      "facts",
+      true
+    );
+    let query = `
+      SELECT r.*,
+        p.project_id AS previous_project_id, p.category AS previous_category,
+        p.fact AS previous_fact, p.context AS previous_context,
+        p.tags AS previous_tags
+      FROM fact_revisions r
+      JOIN facts ON facts.id = r.fact_id
+      LEFT JOIN fact_revisions p
+        ON p.fact_id = r.fact_id AND p.revision = r.revision - 1
+      WHERE ${scopeFilter.sql}`;
+    const params: any[] = [...scopeFilter.params];
+
+    if (options.factId !== undefined) {
+      query += " AND r.fact_id = ?";
+      params.push(options.factId);
+    }
+
+    if (options.action) {
+      query += " AND r.action = ?";
+      params.push(options.action);
+    }
+
+    query +=
+      options.factId !== undefined
+        ? " ORDER BY r.revision"
+        : " ORDER BY r.created_at DESC, r.id DESC";
+    query += " LIMIT ?";
+    params.push(options.limit ?? -1);
+
+    return (await this.all(query, params)).map((row) =>
+      this.mapRevisionRow(row)
+    );
+  }
+
+  private mapRevisionRow(row: any): FactRevision {
+    const snapshot = (prefix: string) => ({
+      scope: row[`${prefix}project_id`] === null ? "global" : "project",
+      category: row[`${prefix}category`],
+      fact: this.readFactText(row[`${prefix}fact`]),
+      context:
+        row[`${prefix}context`] === null
+          ? undefined
+          : this.readFactText(row[`${prefix}context`]),
+      tags: JSON.parse(row[`${prefix}tags`] || "[]") as string[],
+    });
+
+    const current = snapshot("");
+    let changes: FactRevision["changes"];
+    if (row.previous_category !== null) {
+      const previous = snapshot("previous_");
+      for (const field of Object.keys(current) as (keyof typeof current)[]) {
+        if (
+          JSON.stringify(previous[field]) === JSON.stringify(current[field])
+        ) {
+          continue;
+        }
+        changes = changes ?? {};
+        changes[field] = { from: previous[field], to: current[field] };
+      }
+    }
+
+    return {
+      factId: row.fact_id,
+      revision: row.revision,
+      action: row.action,
+      author: row.author ?? undefined,
+      createdAt: row.created_at,
+      projectId: row.project_id ?? null,
+      category: current.category,
+      fact: current.fact,
+      context: current.context,
+      tags: current.tags,
+      revertedTo: row.reverted_to ?? undefined,
+      changes,
+    };
+  }
+
+  /**
+   * The fact and context text of every revision of the facts in the scope,
+   * deleted facts included, as stored: only the database encryption is
+   * undone.
+   */
+  async getStoredRevisionText(
+    scope: FactScope = "all"
+  ): Promise<Pick<FactRevision, "factId" | "revision" | "fact" | "context">[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const scopeFilter = this.scopeCondition(scope, "facts", true);
+    const rows = await this.all(
+      `SELECT r.fact_id, r.revision, r.fact, r.context FROM fact_revisions r
+       JOIN facts ON facts.id = r.fact_id
+       WHERE ${scopeFilter.sql} ORDER BY r.fact_id, r.revision`,
+      scopeFilter.params
+    );
+    return rows.map((row) => ({
+      factId: row.fact_id,
+      revision: row.revision,
+      fact: this.decryptFactText(row.fact),
+      context: row.context ? this.decryptFactText(row.context) : row.context,
+    }));
+  }
+
+  /**
+   * Replaces the text of a revision in place, e.g. to redact a secret that
+   * was stored in an earlier version of a fact.
+   */
+  async updateRevisionText(
+    factId: number,
+    revision: number,
+    text: Pick<FactRevision, "fact" | "context">
+  ): Promise<boolean> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.write(
+      `UPDATE fact_revisions SET fact = ?, context = ?
+       WHERE fact_id = ? AND revision = ?`,
+      [
+        this.encryptFactText(text.fact),
+        text.context
+          ? this.encryptFactText(text.context)
+          : text.context ?? null,
+        factId,
+        revision,
+      ]
+    );
+    return result.changes > 0;
+  }
+
+  async getCategories(scope: FactScope = "project"): Promise<string[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const scopeFilter = this.scopeCondition(scope);
+    const rows = await this.all(
+      `SELECT DISTINCT category FROM facts WHERE ${scopeFilter.sql} ORDER BY category`,
+      scopeFilter.params
+    );
+
+    return rows.map((row) => row.category);
+  }
+
+  async getAllTags(scope: FactScope = "project"): Promise<string[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const scopeFilter = this.scopeCondition(scope);
+    const rows = await this.all(
+      `SELECT DISTINCT tags FROM facts WHERE tags IS NOT NULL AND ${scopeFilter.sql}`,
+      scopeFilter.params
+    );
 
     const allTags = new Set<string>();
     rows.forEach((row) => {
@@ -388,105 +1740,536 @@ export class ContextDatabase {
     return Array.from(allTags).sort();
   }
 
-  // Rule deployment methods
-  async storeRuleDeployment(
-    templateVersion: string,
-    totalFiles: number,
-    deployedBy?: string,
-    backupPath?: string
-  ): Promise<number> {
+  // Anchor methods
+  private async insertFactAnchors(
+    factId: number,
+    anchors: FactAnchorInput[]
+  ): Promise<void> {
+    for (const anchor of anchors) {
+      await this.run(
+        `INSERT INTO fact_anchors (fact_id, file_path, start_line, end_line, symbol, commit_sha, content_hash, status, checked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        [
+          factId,
+          anchor.filePath,
+          anchor.startLine ?? null,
+          anchor.endLine ?? null,
+          anchor.symbol ?? null,
+          anchor.commitSha ?? null,
+          anchor.contentHash ?? null,
+          anchor.contentHash ? "fresh" : "missing",
+        ]
+      );
+    }
+  }
+
+  /**
+   * Loads anchors for the given facts in one query and sets `anchors` on
+   * those that have any.
+   */
+  async attachAnchors<T extends StoredFact>(facts: T[]): Promise<T[]> {
     if (!this.db) throw new Error("Database not initialized");
+    if (facts.length === 0) return facts;
+
+    const placeholders = facts.map(() => "?").join(", ");
+    const rows = await this.all(
+      `SELECT * FROM fact_anchors WHERE fact_id IN (${placeholders})
+       ORDER BY file_path, start_line`,
+      facts.map((fact) => fact.id)
+    );
+
+    const byFact = new Map<number, FactAnchor[]>();
+    for (const row of rows) {
+      const anchor = this.mapAnchorRow(row);
+      byFact.set(anchor.factId, [...(byFact.get(anchor.factId) ?? []), anchor]);
+    }
 
-    return new Promise((resolve, reject) => {
-      this.db!.run(
-        `INSERT INTO rule_deployments (template_version, total_files, deployed_by, backup_path) 
-         VALUES (?, ?, ?, ?)`,
-        [templateVersion, totalFiles, deployedBy, backupPath],
-        function (err) {
-          if (err) reject(err);
-          else resolve(this.lastID);
-        }
-      );
+    return facts.map((fact) => {
+      const anchors = byFact.get(fact.id);
+      if (!anchors) return fact;
+      return {
+        ...fact,
+        anchors,
+        possiblyStale: anchors.some(
+          (anchor) => anchor.status === "changed" || anchor.status === "missing"
+        ),
+      };
     });
   }
 
-  async getLatestRuleDeployment(): Promise<RuleDeployment | null> {
+  /**
+   * Returns anchors to re-check, for all facts of the current project or
+   * only the given ones.
+   */
+  async getAnchors(factIds?: number[]): Promise<FactAnchor[]> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const row = await new Promise<any>((resolve, reject) => {
-      this.db!.get(
-        "SELECT * FROM rule_deployments ORDER BY deployed_at DESC LIMIT 1",
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
+    const scopeFilter = this.scopeCondition("project");
+    let query = `SELECT fact_anchors.* FROM fact_anchors
+      JOIN facts ON facts.id = fact_anchors.fact_id
+      WHERE ${scopeFilter.sql}`;
+    const params: any[] = [...scopeFilter.params];
+    if (factIds) {
+      if (factIds.length === 0) return [];
+      query += ` AND fact_anchors.fact_id IN (${factIds
+        .map(() => "?")
+        .join(", ")})`;
+      params.push(...factIds);
+    }
+    query += " ORDER BY fact_anchors.fact_id, fact_anchors.id";
+
+    const rows = await this.all(query, params);
+    return rows.map((row) => this.mapAnchorRow(row));
+  }
+
+  async updateAnchorStatuses(updates: AnchorStatusUpdate[]): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (updates.length === 0) return;
+
+    await this.transaction(async () => {
+      for (const update of updates) {
+        if (update.contentHash !== undefined) {
+          await this.run(
+            `UPDATE fact_anchors SET status = ?, content_hash = ?, checked_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [update.status, update.contentHash, update.id]
+          );
+        } else {
+          await this.run(
+            `UPDATE fact_anchors SET status = ?, checked_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [update.status, update.id]
+          );
         }
-      );
+      }
     });
+  }
 
-    if (!row) return null;
+  async getFactsByIds(ids: number[]): Promise<StoredFact[]> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (ids.length === 0) return [];
+
+    const scopeFilter = this.scopeCondition("all");
+    const rows = await this.all(
+      `SELECT * FROM facts WHERE id IN (${ids.map(() => "?").join(", ")})
+       AND ${scopeFilter.sql} ORDER BY id`,
+      [...ids, ...scopeFilter.params]
+    );
+    return this.attachAnchors(rows.map((row) => this.mapFactRow(row)));
+  }
+
+  /**
+   * Returns facts of the current project with an anchor on any of the given
+   * paths, each paired with the anchors that matched.
+   */
+  async getFactsByAnchorPaths(
+    filePaths: string[]
+  ): Promise<{ fact: StoredFact; matched: FactAnchor[] }[]> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (filePaths.length === 0) return [];
+
+    const placeholders = filePaths.map(() => "?").join(", ");
+    const anchorRows = await this.all(
+      `SELECT * FROM fact_anchors WHERE file_path IN (${placeholders})`,
+      filePaths
+    );
+    if (anchorRows.length === 0) return [];
+
+    const matched = new Map<number, FactAnchor[]>();
+    for (const row of anchorRows) {
+      const anchor = this.mapAnchorRow(row);
+      matched.set(anchor.factId, [
+        ...(matched.get(anchor.factId) ?? []),
+        anchor,
+      ]);
+    }
 
+    const factIds = Array.from(matched.keys());
+    const scopeFilter = this.scopeCondition("project");
+    const factRows = await this.all(
+      `SELECT * FROM facts WHERE id IN (${factIds.map(() => "?").join(", ")})
+       AND ${scopeFilter.sql} ORDER BY created_at DESC`,
+      [...factIds, ...scopeFilter.params]
+    );
+    const facts = await this.attachAnchors(
+      factRows.map((row) => this.mapFactRow(row))
+    );
+
+    return facts.map((fact) => ({ fact, matched: matched.get(fact.id)! }));
+  }
+
+  private mapAnchorRow(row: any): FactAnchor {
     return {
       id: row.id,
-      templateVersion: row.template_version,
-      deployedAt: row.deployed_at,
-      deployedBy: row.deployed_by,
-      totalFiles: row.total_files,
-      backupPath: row.backup_path,
+      factId: row.fact_id,
+      filePath: row.file_path,
+      startLine: row.start_line ?? undefined,
+      endLine: row.end_line ?? undefined,
+      symbol: row.symbol ?? undefined,
+      commitSha: row.commit_sha ?? undefined,
+      contentHash: row.content_hash ?? undefined,
+      status: row.status,
+      checkedAt: row.checked_at ?? undefined,
+      createdAt: row.created_at,
     };
   }
 
-  async getRuleDeploymentHistory(
-    limit: number = 10
-  ): Promise<RuleDeployment[]> {
+  // Embedding methods
+  async getFactEmbeddingStatus(model: string): Promise<FactEmbeddingStatus[]> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const rows = await new Promise<any[]>((resolve, reject) => {
-      this.db!.all(
-        "SELECT * FROM rule_deployments ORDER BY deployed_at DESC LIMIT ?",
-        [limit],
-        (err, rows) => {
-          if (err) reject(err);
-          else resolve(rows || []);
-        }
-      );
+    // Facts of other projects are never searched from here, so skip them
+    const scopeFilter = this.scopeCondition("all");
+    const rows = await this.all(
+      `SELECT facts.*, fact_embeddings.content_hash AS embedding_hash
+       FROM facts
+       LEFT JOIN fact_embeddings
+         ON fact_embeddings.fact_id = facts.id AND fact_embeddings.model = ?
+       WHERE ${scopeFilter.sql}`,
+      [model, ...scopeFilter.params]
+    );
+
+    return rows.map((row) => ({
+      fact: this.mapFactRow(row),
+      contentHash: row.embedding_hash ?? undefined,
+    }));
+  }
+
+  /**
+   * Hash of the text a fact's embedding is computed from. It is keyed while
+   * the database is encrypted, since it is stored next to the vector.
+   */
+  embeddingHash(text: string): string {
+    return this.cipher ? this.cipher.digest(text) : this.generateHash(text);
+  }
+
+  /**
+   * Stores a fact's embedding. While the database is encrypted the vector
+   * is encrypted too, as a vector gives away the words it was computed
+   * from.
+   */
+  async storeFactEmbedding(
+    factId: number,
+    model: string,
+    vector: Float32Array,
+    contentHash: string
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const blob = Buffer.from(
+      vector.buffer,
+      vector.byteOffset,
+      vector.byteLength
+    );
+    await this.write(
+      `INSERT OR REPLACE INTO fact_embeddings (fact_id, model, dimensions, vector, content_hash)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        factId,
+        model,
+        vector.length,
+        this.cipher ? this.cipher.encrypt(blob.toString("base64")) : blob,
+        contentHash,
+      ]
+    );
+  }
+
+  async getEmbeddedFacts(
+    model: string,
+    category?: string,
+    tags?: string[],
+    scope: FactScope = "project"
+  ): Promise<EmbeddedFact[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const scopeFilter = this.scopeCondition(scope);
+    let query = `
+      SELECT facts.*, fact_embeddings.vector AS embedding
+      FROM facts
+      JOIN fact_embeddings
+        ON fact_embeddings.fact_id = facts.id AND fact_embeddings.model = ?
+      WHERE ${scopeFilter.sql}`;
+    const params: any[] = [model, ...scopeFilter.params];
+
+    if (category) {
+      query += " AND facts.category = ?";
+      params.push(category);
+    }
+
+    if (tags && tags.length > 0) {
+      const tagConditions = tags.map(() => "facts.tags LIKE ?").join(" OR ");
+      query += ` AND (${tagConditions})`;
+      tags.forEach((tag) => {
+        params.push(`%"${tag}"%`);
+      });
+    }
+
+    const rows = await this.all(query, params);
+
+    return rows.map((row) => {
+      // Encrypted vectors are stored as text
+      const blob: Buffer =
+        typeof row.embedding === "string"
+          ? Buffer.from(this.decryptFactText(row.embedding), "base64")
+          : row.embedding;
+      // Copy into an aligned buffer; sqlite hands back arbitrary offsets
+      const bytes = new Uint8Array(blob.byteLength);
+      bytes.set(blob);
+      return {
+        fact: this.mapFactRow(row),
+        vector: new Float32Array(bytes.buffer),
+      };
     });
+  }
+
+  // File activity methods
+  async storeFileActivity(events: Omit<FileActivity, "id">[]): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (events.length === 0) return;
+
+    await this.transaction(async () => {
+      for (const event of events) {
+        await this.run(
+          `INSERT INTO file_activity (project_id, path, kind, size_delta, size, occurred_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            this.projectId,
+            event.path,
+            event.kind,
+            event.sizeDelta,
+            event.size ?? null,
+            event.occurredAt,
+          ]
+        );
+      }
+    });
+  }
+
+  /**
+   * Returns the current project's activity at or after `since` (a
+   * `YYYY-MM-DD HH:MM:SS` UTC timestamp), newest first, optionally
+   * restricted to a path prefix.
+   */
+  async getFileActivity(
+    since: string,
+    pathPrefix?: string,
+    limit: number = 1000
+  ): Promise<FileActivity[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    let query =
+      "SELECT * FROM file_activity WHERE project_id = ? AND occurred_at >= ?";
+    const params: any[] = [this.projectId, since];
+
+    if (pathPrefix) {
+      query += " AND (path = ? OR path LIKE ? ESCAPE '\\')";
+      const escaped = pathPrefix.replace(/[\\%_]/g, (c) => `\\${c}`);
+      params.push(pathPrefix, `${escaped}/%`);
+    }
+
+    query += " ORDER BY occurred_at DESC, id DESC LIMIT ?";
+    params.push(limit);
+
+    const rows = await this.all(query, params);
 
     return rows.map((row) => ({
       id: row.id,
-      templateVersion: row.template_version,
-      deployedAt: row.deployed_at,
-      deployedBy: row.deployed_by,
-      totalFiles: row.total_files,
-      backupPath: row.backup_path,
+      path: row.path,
+      kind: row.kind,
+      sizeDelta: row.size_delta,
+      size: row.size ?? undefined,
+      occurredAt: row.occurred_at,
     }));
   }
 
-  async storeRuleFile(
-    deploymentId: number,
-    filename: string,
-    contentHash: string
+  // Each project's watcher prunes its own activity by its own retention
+  async pruneFileActivity(before: string): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const result = await this.write(
+      "DELETE FROM file_activity WHERE project_id = ? AND occurred_at < ?",
+      [this.projectId, before]
+    );
+    return result.changes;
+  }
+
+  // Rule deployment methods
+  async getLatestRuleDeployment(): Promise<RuleDeployment | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const row = await this.get(
+      `SELECT * FROM rule_deployments WHERE project_id = ?
+       ORDER BY deployed_at DESC, id DESC LIMIT 1`,
+      [this.projectId]
+    );
+
+    if (!row) return null;
+
+    return this.mapDeploymentRow(row);
+  }
+
+  async getRuleDeployment(id: number): Promise<RuleDeployment | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const row = await this.get(
+      "SELECT * FROM rule_deployments WHERE id = ? AND project_id = ?",
+      [id, this.projectId]
+    );
+
+    return row ? this.mapDeploymentRow(row) : null;
+  }
+
+  async getRuleDeploymentHistory(
+    limit: number = 10
+  ): Promise<RuleDeployment[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    // A negative limit returns the whole history
+    const rows = await this.all(
+      `SELECT * FROM rule_deployments WHERE project_id = ?
+       ORDER BY deployed_at DESC, id DESC LIMIT ?`,
+      [this.projectId, limit]
+    );
+
+    return rows.map((row) => this.mapDeploymentRow(row));
+  }
+
+  /**
+   * Records a deployment made elsewhere, keeping its original timestamps,
+   * together with its files.
+   */
+  async importRuleDeployment(
+    deployment: Omit<RuleDeployment, "id" | "projectId">,
+    files: Pick<
+      RuleFile,
+      "target" | "filename" | "contentHash" | "packName" | "packVersion"
+    >[]
   ): Promise<number> {
     if (!this.db) throw new Error("Database not initialized");
 
-    return new Promise((resolve, reject) => {
-      this.db!.run(
-        `INSERT INTO rule_files (deployment_id, filename, content_hash) 
-         VALUES (?, ?, ?)`,
-        [deploymentId, filename, contentHash],
-        function (err) {
-          if (err) reject(err);
-          else resolve(this.lastID);
-        }
+    return this.transaction(async () => {
+      const { lastID } = await this.run(
+        `INSERT INTO rule_deployments (project_id, template_version, deployed_at, deployed_by, total_files, backup_path, packs, targets, profile)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          this.projectId,
+          deployment.templateVersion,
+          deployment.deployedAt,
+          deployment.deployedBy,
+          deployment.totalFiles,
+          deployment.backupPath,
+          JSON.stringify(deployment.packs),
+          JSON.stringify(deployment.targets),
+          deployment.profile ? JSON.stringify(deployment.profile) : null,
+        ]
       );
+      for (const file of files) {
+        await this.run(
+          `INSERT INTO rule_files (deployment_id, target, filename, content_hash, deployed_at, pack_name, pack_version)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            lastID,
+            file.target,
+            file.filename,
+            file.contentHash,
+            deployment.deployedAt,
+            file.packName,
+            file.packVersion,
+          ]
+        );
+      }
+      return lastID;
     });
   }
 
+  /**
+   * Records a deployment and its files in one transaction. `apply` runs
+   * before the commit, so the deployment is only recorded if it succeeds,
+   * and a failure leaves nothing behind. Other writes wait in the queue
+   * until then, so `apply` must not write to the database itself.
+   */
+  async recordRuleDeployment(
+    deployment: Pick<
+      RuleDeployment,
+      | "templateVersion"
+      | "deployedBy"
+      | "backupPath"
+      | "packs"
+      | "targets"
+      | "rollbackOf"
+      | "profile"
+    >,
+    files: Pick<
+      RuleFile,
+      | "target"
+      | "filename"
+      | "contentHash"
+      | "packName"
+      | "packVersion"
+      | "content"
+    >[],
+    apply?: () => Promise<void>
+  ): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    return this.transaction(async () => {
+      const { lastID } = await this.run(
+        `INSERT INTO rule_deployments (project_id, template_version, deployed_by, total_files, backup_path, packs, targets, rollback_of, profile)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          this.projectId,
+          deployment.templateVersion,
+          deployment.deployedBy,
+          files.length,
+          deployment.backupPath,
+          JSON.stringify(deployment.packs),
+          JSON.stringify(deployment.targets),
+          deployment.rollbackOf,
+          deployment.profile ? JSON.stringify(deployment.profile) : null,
+        ]
+      );
+      for (const file of files) {
+        await this.run(
+          `INSERT INTO rule_files (deployment_id, target, filename, content_hash, pack_name, pack_version, content)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            lastID,
+            file.target,
+            file.filename,
+            file.contentHash,
+            file.packName,
+            file.packVersion,
+            file.content,
+          ]
+        );
+      }
+      await apply?.();
+      return lastID;
+    });
+  }
+
+  private mapDeploymentRow(row: any): RuleDeployment {
+    return {
+      id: row.id,
+      projectId: row.project_id ?? undefined,
+      templateVersion: row.template_version,
+      deployedAt: row.deployed_at,
+      deployedBy: row.deployed_by,
+      totalFiles: row.total_files,
+      backupPath: row.backup_path,
+      packs: JSON.parse(row.packs || "[]"),
+      targets: JSON.parse(row.targets || '["cursor"]'),
+      rollbackOf: row.rollback_of ?? undefined,
+      profile: row.profile ? JSON.parse(row.profile) : undefined,
+    };
+  }
+
   async getRuleFiles(deploymentId: number): Promise<RuleFile[]> {
     if (!this.db) throw new Error("Database not initialized");
 
     const rows = await new Promise<any[]>((resolve, reject) => {
       this.db!.all(
-        "SELECT * FROM rule_files WHERE deployment_id = ? ORDER BY filename",
+        "SELECT * FROM rule_files WHERE deployment_id = ? ORDER BY target, filename",
         [deploymentId],
         (err, rows) => {
           if (err) reject(err);
@@ -495,22 +2278,65 @@ export class ContextDatabase {
       );
     });
 
-    return rows.map((row) => ({
+    return rows.map((row) => this.mapRuleFileRow(row));
+  }
+
+  private mapRuleFileRow(row: any): RuleFile {
+    return {
       id: row.id,
       deploymentId: row.deployment_id,
+      target: row.target,
       filename: row.filename,
       contentHash: row.content_hash,
       deployedAt: row.deployed_at,
-    }));
+      packName: row.pack_name ?? undefined,
+      packVersion: row.pack_version ?? undefined,
+      content: row.content ?? undefined,
+    };
   }
 
-  async getLatestRuleFiles(): Promise<RuleFile[]> {
+  /**
+   * Files of the latest deployment, or with a target, the files of the latest
+   * deployment that wrote that target.
+   */
+  async getLatestRuleFiles(target?: string): Promise<RuleFile[]> {
     if (!this.db) throw new Error("Database not initialized");
 
-    const latestDeployment = await this.getLatestRuleDeployment();
-    if (!latestDeployment) return [];
+    if (target === undefined) {
+      const latestDeployment = await this.getLatestRuleDeployment();
+      if (!latestDeployment) return [];
+
+      return this.getRuleFiles(latestDeployment.id);
+    }
+
+    const rows = await this.all(
+      `SELECT * FROM rule_files WHERE target = ? AND deployment_id = (
+         SELECT rule_deployments.id FROM rule_deployments
+         JOIN rule_files ON rule_files.deployment_id = rule_deployments.id
+         WHERE rule_deployments.project_id = ? AND rule_files.target = ?
+         ORDER BY rule_deployments.deployed_at DESC, rule_deployments.id DESC
+         LIMIT 1
+       )
+       ORDER BY filename`,
+      [target, this.projectId, target]
+    );
+    return rows.map((row) => this.mapRuleFileRow(row));
+  }
+
+  /**
+   * Every file ever deployed to a target in this project, newest first.
+   */
+  async getRuleFileHistory(target: string): Promise<RuleFile[]> {
+    if (!this.db) throw new Error("Database not initialized");
 
-    return this.getRuleFiles(latestDeployment.id);
+    const rows = await this.all(
+      `SELECT rule_files.* FROM rule_files
+       JOIN rule_deployments ON rule_deployments.id = rule_files.deployment_id
+       WHERE rule_deployments.project_id = ? AND rule_files.target = ?
+       ORDER BY rule_deployments.deployed_at DESC, rule_deployments.id DESC, rule_files.filename`,
+      [this.projectId, target]
+    );
+    return rows.map((row) => this.mapRuleFileRow(row));
   }
 
   generateHash(content: string): string {
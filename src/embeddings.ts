@@ -0,0 +1,310 @@
+// Local embedding providers and semantic search over stored facts
+
+import path from "path";
+
+import { ContextDatabase, FactScope, StoredFact } from "./database.js";
+
+export interface EmbeddingProvider {
+  // Stored alongside each vector so switching providers never mixes spaces
+  readonly name: string;
+  // True when vectors reflect spelling only, so they cannot match on meaning
+  readonly lexical: boolean;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export interface SemanticSearchResult extends StoredFact {
+  similarity: number; // Cosine similarity to the query, -1 to 1
+}
+
+export interface HybridSearchResult extends StoredFact {
+  score: number; // Blended relevance, 0 to 1
+  similarity: number;
+  keywordScore: number; // BM25 score normalised against the best keyword hit
+  snippet?: string;
+}
+
+/**
+ * Deterministic feature-hashing embedder. Words and character trigrams are
+ * hashed into a fixed number of buckets, so similar spellings land close
+ * together. It needs no model files, which makes it the default and the
+ * provider to use in tests, but it only captures lexical similarity.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly lexical = true;
+
+  constructor(private dimensions: number = 256) {
+    this.name = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: Float32Array, feature: string, weight: number) {
+    const hash = fnv1a(feature);
+    // The top bit picks a sign so collisions tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+/**
+ * Sentence-embedding model run locally through the optional
+ * `@xenova/transformers` package. `modelPath` points at an on-disk model
+ * directory; remote downloads are disabled.
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly lexical = false;
+  private extractor: any = null;
+
+  constructor(private modelPath: string) {
+    this.name = `transformers:${path.basename(modelPath)}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const extractor = await this.loadExtractor();
+    const vectors: Float32Array[] = [];
+
+    for (const text of texts) {
+      const output = await extractor(text, {
+        pooling: "mean",
+        normalize: true,
+      });
+      vectors.push(Float32Array.from(output.data as ArrayLike<number>));
+    }
+
+    return vectors;
+  }
+
+  private async loadExtractor(): Promise<any> {
+    if (this.extractor) return this.extractor;
+
+    // Held in a variable so the compiler does not require the package
+    const moduleName = "@xenova/transformers";
+    let transformers: any;
+    try {
+      transformers = await import(moduleName);
+    } catch (error) {
+      throw new Error(
+        `Embedding provider ${this.name} requires the optional ${moduleName} package: ${error}`
+      );
+    }
+
+    transformers.env.allowRemoteModels = false;
+    transformers.env.localModelPath = path.dirname(this.modelPath);
+    this.extractor = await transformers.pipeline(
+      "feature-extraction",
+      path.basename(this.modelPath)
+    );
+    return this.extractor;
+  }
+}
+
+/**
+ * Builds the provider named by `spec` (defaults to the
+ * DEV_ASSISTANT_EMBEDDINGS environment variable):
+ * - `hashing` or `hashing:<dimensions>` (default)
+ * - `transformers:<path to local model directory>`
+ * - `off` to disable semantic search
+ */
+export function createEmbeddingProvider(
+  spec: string | undefined = process.env.DEV_ASSISTANT_EMBEDDINGS
+): EmbeddingProvider | null {
+  const value = (spec || "hashing").trim();
+  const separator = value.indexOf(":");
+  const kind = separator === -1 ? value : value.slice(0, separator);
+  const option = separator === -1 ? "" : value.slice(separator + 1);
+
+  switch (kind) {
+    case "off":
+    case "none":
+      return null;
+    case "hashing": {
+      const dimensions = option ? parseInt(option, 10) : 256;
+      if (!Number.isInteger(dimensions) || dimensions <= 0) {
+        throw new Error(`Invalid hashing embedding dimensions: ${option}`);
+      }
+      return new HashingEmbeddingProvider(dimensions);
+    }
+    case "transformers":
+      if (!option) {
+        throw new Error("transformers embeddings require a model path");
+      }
+      return new TransformersEmbeddingProvider(path.resolve(option));
+    default:
+      throw new Error(`Unknown embedding provider: ${kind}`);
+  }
+}
+
+/**
+ * Keeps `fact_embeddings` in step with `facts` and answers nearest-neighbour
+ * queries. Embeddings are computed lazily: each search first embeds facts
+ * that are new or whose text changed since they were last embedded.
+ */
+export class SemanticIndex {
+  constructor(
+    private database: ContextDatabase,
+    readonly provider: EmbeddingProvider
+  ) {}
+
+  async sync(): Promise<number> {
+    const statuses = await this.database.getFactEmbeddingStatus(
+      this.provider.name
+    );
+
+    const stale = statuses
+      .map(({ fact, contentHash }) => {
+        const text = factEmbeddingText(fact);
+        return {
+          fact,
+          text,
+          hash: this.database.embeddingHash(text),
+          contentHash,
+        };
+      })
+      .filter(({ hash, contentHash }) => hash !== contentHash);
+
+    if (stale.length === 0) return 0;
+
+    const vectors = await this.provider.embed(stale.map(({ text }) => text));
+    for (let i = 0; i < stale.length; i++) {
+      await this.database.storeFactEmbedding(
+        stale[i].fact.id,
+        this.provider.name,
+        normalize(vectors[i]),
+        stale[i].hash
+      );
+    }
+
+    return stale.length;
+  }
+
+  async search(
+    query: string,
+    category?: string,
+    tags?: string[],
+    limit: number = 20,
+    scope: FactScope = "project"
+  ): Promise<SemanticSearchResult[]> {
+    const ranked = await this.rank(query, category, tags, scope);
+    return this.database.attachAnchors(ranked.slice(0, limit));
+  }
+
+  /**
+   * Blends cosine similarity with BM25 keyword relevance. `semanticWeight`
+   * of 1 ranks purely by meaning, 0 purely by keywords.
+   */
+  async hybridSearch(
+    query: string,
+    category?: string,
+    tags?: string[],
+    limit: number = 20,
+    semanticWeight: number = 0.5,
+    scope: FactScope = "project"
+  ): Promise<HybridSearchResult[]> {
+    const semantic = await this.rank(query, category, tags, scope);
+    // Over-fetch keyword hits so facts ranked low by BM25 can still win
+    const keyword = await this.database.searchFacts(
+      query,
+      category,
+      tags,
+      Math.max(limit * 3, 50),
+      scope
+    );
+
+    const maxKeyword = Math.max(0, ...keyword.map((result) => result.score));
+    const keywordById = new Map(keyword.map((result) => [result.id, result]));
+
+    const blended = semantic
+      .map((result) => {
+        const hit = keywordById.get(result.id);
+        const keywordScore =
+          hit && maxKeyword > 0 ? round(hit.score / maxKeyword) : 0;
+        // Negative similarity counts as no semantic match at all
+        const score = round(
+          semanticWeight * Math.max(0, result.similarity) +
+            (1 - semanticWeight) * keywordScore
+        );
+        return { ...result, score, keywordScore, snippet: hit?.snippet };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    return this.database.attachAnchors(blended);
+  }
+
+  private async rank(
+    query: string,
+    category?: string,
+    tags?: string[],
+    scope: FactScope = "project"
+  ): Promise<SemanticSearchResult[]> {
+    await this.sync();
+
+    const [queryVector] = await this.provider.embed([query]);
+    const normalized = normalize(queryVector);
+    const candidates = await this.database.getEmbeddedFacts(
+      this.provider.name,
+      category,
+      tags,
+      scope
+    );
+
+    return candidates
+      .map(({ fact, vector }) => ({
+        ...fact,
+        similarity: round(dot(normalized, vector)),
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+}
+
+function factEmbeddingText(fact: StoredFact): string {
+  return [fact.fact, fact.context, fact.tags.join(" "), fact.category]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(dot(vector, vector));
+  if (norm === 0) return vector;
+  return vector.map((value) => value / norm);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
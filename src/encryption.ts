@@ -0,0 +1,298 @@
+// Database encryption - encrypts the fact and context columns at rest, and
+// the values the `encrypt` secret policy keeps, with keys from the
+// environment or a keyfile and rotation between them
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+import type { ContextDatabase, FactTextCipher } from "./database.js";
+
+// An encrypted value: enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>. A whole
+// column value when the database is encrypted, or wrapped in [[...]] within
+// the text when the secret policy encrypts a single value.
+const ENCRYPTED_VALUE =
+  "enc:v1:([0-9a-f]{8}):([A-Za-z0-9_-]+):([A-Za-z0-9_-]+):([A-Za-z0-9_-]*)";
+const ENCRYPTED_VALUE_PATTERN = new RegExp(`^${ENCRYPTED_VALUE}$`);
+const ENCRYPTED_SPAN_PATTERN = new RegExp(
+  `\\[\\[(${ENCRYPTED_VALUE})\\]\\]`,
+  "g"
+);
+const KEY_SALT = "dev-assistant-mcp-server:database";
+
+export interface DatabaseKeys {
+  current: string;
+  previous: string[]; // Still accepted for reading while rotating
+  source: string; // e.g. "DEV_ASSISTANT_DB_KEY", "keyfile /path/to/key"
+}
+
+/**
+ * Encrypts column values, and values within text, with AES-256-GCM under
+ * the current key, and decrypts values written under the current or a
+ * previous key. Each value names the key it was written with, so rotating
+ * needs no bookkeeping.
+ */
+export class DatabaseCipher implements FactTextCipher {
+  readonly keyId: string;
+  readonly source: string;
+  private keys = new Map<string, Buffer>();
+
+  constructor(keys: DatabaseKeys) {
+    this.source = keys.source;
+    const current = deriveKey(keys.current);
+    this.keyId = current.id;
+    this.keys.set(current.id, current.key);
+    for (const passphrase of keys.previous) {
+      const previous = deriveKey(passphrase);
+      if (!this.keys.has(previous.id)) {
+        this.keys.set(previous.id, previous.key);
+      }
+    }
+  }
+
+  get keyIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+
+  encrypt(text: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      "aes-256-gcm",
+      this.keys.get(this.keyId)!,
+      iv
+    );
+    const data = Buffer.concat([cipher.update(text, "utf-8"), cipher.final()]);
+    return [
+      "enc:v1",
+      this.keyId,
+      iv.toString("base64url"),
+      cipher.getAuthTag().toString("base64url"),
+      data.toString("base64url"),
+    ].join(":");
+  }
+
+  /**
+   * Decrypts an encrypted value; plain text is returned as it is. Throws
+   * when the value was written with a key that is not configured, or has
+   * been tampered with.
+   */
+  decrypt(text: string): string {
+    const match = ENCRYPTED_VALUE_PATTERN.exec(text);
+    if (!match) return text;
+    const [, keyId, iv, tag, data] = match;
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`No database key with ID ${keyId} is configured`);
+    }
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(iv, "base64url")
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, "base64url")),
+      decipher.final(),
+    ]).toString("utf-8");
+  }
+
+  /**
+   * Encrypts a value within text, e.g. a secret in a fact, as
+   * `[[enc:v1:...]]`.
+   */
+  encryptSpan(text: string): string {
+    return `[[${this.encrypt(text)}]]`;
+  }
+
+  /**
+   * Decrypts the values `encryptSpan` encrypted. Those written with a key
+   * that is not configured, or tampered with, are left encrypted.
+   */
+  revealSpans(text: string): string {
+    if (!text.includes("[[enc:")) return text;
+    return text.replace(ENCRYPTED_SPAN_PATTERN, (span, value) => {
+      try {
+        return this.decrypt(value);
+      } catch (error) {
+        return span;
+      }
+    });
+  }
+
+  /**
+   * Re-encrypts the values within text that were written with a previous
+   * key under the current one.
+   */
+  rotateSpans(text: string): string {
+    if (!text.includes("[[enc:")) return text;
+    return text.replace(ENCRYPTED_SPAN_PATTERN, (span, value, keyId) => {
+      if (keyId === this.keyId || !this.keys.has(keyId)) return span;
+      return this.encryptSpan(this.decrypt(value));
+    });
+  }
+
+  /**
+   * HMAC-SHA256 of the text under the current key, for hashes stored
+   * alongside encrypted text: a plain hash would confirm a guess at it.
+   */
+  digest(text: string): string {
+    return crypto
+      .createHmac("sha256", this.keys.get(this.keyId)!)
+      .update(text)
+      .digest("hex");
+  }
+}
+
+/**
+ * The ID of the key an encrypted value was written with, or null for plain
+ * text.
+ */
+export function encryptedKeyId(text: string): string | null {
+  return ENCRYPTED_VALUE_PATTERN.exec(text)?.[1] ?? null;
+}
+
+function deriveKey(passphrase: string): { id: string; key: Buffer } {
+  const key = crypto.scryptSync(passphrase, KEY_SALT, 32);
+  return {
+    id: crypto.createHash("sha256").update(key).digest("hex").slice(0, 8),
+    key,
+  };
+}
+
+/**
+ * Reads the database keys from DEV_ASSISTANT_DB_KEY (with
+ * DEV_ASSISTANT_DB_PREVIOUS_KEYS, comma-separated) or the file named by
+ * DEV_ASSISTANT_DB_KEYFILE. Resolves to null when encryption is not set up.
+ */
+export async function loadDatabaseKeys(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<DatabaseKeys | null> {
+  const key = env.DEV_ASSISTANT_DB_KEY?.trim();
+  const keyfile = env.DEV_ASSISTANT_DB_KEYFILE?.trim();
+  if (key && keyfile) {
+    throw new Error(
+      "Set DEV_ASSISTANT_DB_KEY or DEV_ASSISTANT_DB_KEYFILE, not both"
+    );
+  }
+
+  if (key) {
+    return {
+      current: key,
+      previous: (env.DEV_ASSISTANT_DB_PREVIOUS_KEYS ?? "")
+        .split(",")
+        .map((previous) => previous.trim())
+        .filter(Boolean),
+      source: "DEV_ASSISTANT_DB_KEY",
+    };
+  }
+  if (keyfile) return readKeyFile(path.resolve(keyfile));
+  return null;
+}
+
+/**
+ * Reads a keyfile: the current key on the first line, then any previous
+ * keys. Blank lines and lines starting with `#` are ignored.
+ */
+export async function readKeyFile(filePath: string): Promise<DatabaseKeys> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    throw new Error(`Cannot read database keyfile ${filePath}: ${error}`);
+  }
+  const [current, ...previous] = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+  if (!current) throw new Error(`Database keyfile ${filePath} has no key`);
+  return { current, previous, source: `keyfile ${filePath}` };
+}
+
+/**
+ * Writes a keyfile readable only by its owner (where the file system has
+ * permissions). The file is replaced in one step so it is never half
+ * written.
+ */
+export async function writeKeyFile(
+  filePath: string,
+  current: string,
+  previous: string[] = []
+): Promise<void> {
+  const lines = [
+    "# dev-assistant-mcp-server database key: the current key first,",
+    "# then previous keys still needed to read older values",
+    current,
+    ...previous,
+  ];
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const temporary = `${filePath}.tmp-${process.pid}`;
+  await fs.writeFile(temporary, lines.join("\n") + "\n", {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  await fs.rename(temporary, filePath);
+}
+
+export function generateDatabaseKey(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  keySource?: string;
+  keyId?: string; // Key new values are written with
+  plaintextFacts: number;
+  encryptedFacts: Record<string, number>; // By key ID
+}
+
+/**
+ * Sets up encryption on an opened database. Refuses to go on when facts
+ * were encrypted with a key that is not configured, since new facts would
+ * then be unreadable alongside them. With `migrate`, facts in plain text or
+ * under a previous key are encrypted with the current key.
+ */
+export async function prepareDatabaseEncryption(
+  database: ContextDatabase,
+  cipher: DatabaseCipher | null,
+  migrate: boolean = true
+): Promise<EncryptionStatus> {
+  database.setFactCipher(cipher);
+
+  let counts = await database.getFactEncryptionCounts();
+  const unknown = Object.keys(counts.encrypted).filter(
+    (keyId) => !cipher?.keyIds.includes(keyId)
+  );
+  if (unknown.length > 0) {
+    database.setFactCipher(null);
+    throw new Error(
+      cipher
+        ? `Facts in the database are encrypted with keys that are not configured (${unknown.join(
+            ", "
+          )}). Add the old key to DEV_ASSISTANT_DB_PREVIOUS_KEYS or the keyfile`
+        : "Facts in the database are encrypted; set DEV_ASSISTANT_DB_KEY or DEV_ASSISTANT_DB_KEYFILE"
+    );
+  }
+
+  const outdated =
+    counts.plaintext +
+    Object.entries(counts.encrypted)
+      .filter(([keyId]) => keyId !== cipher?.keyId)
+      .reduce((sum, [, count]) => sum + count, 0);
+  if (cipher && migrate && outdated > 0) {
+    const rewritten = await database.rewriteFactText(true);
+    console.error(
+      `Encrypted ${rewritten} fact${
+        rewritten === 1 ? "" : "s"
+      } with database key ${cipher.keyId}`
+    );
+    counts = await database.getFactEncryptionCounts();
+  }
+
+  return {
+    enabled: cipher !== null,
+    keySource: cipher?.source,
+    keyId: cipher?.keyId,
+    plaintextFacts: counts.plaintext,
+    encryptedFacts: counts.encrypted,
+  };
+}
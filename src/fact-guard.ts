@@ -0,0 +1,137 @@
+// Fact guard - keeps secrets and personal data found in facts out of the
+// database file, which may be committed along with the project
+
+import type { DatabaseCipher } from "./encryption.js";
+import { findSensitiveData } from "./secrets.js";
+
+export const SECRET_POLICIES = ["reject", "redact", "encrypt", "off"] as const;
+export type SecretPolicy = (typeof SECRET_POLICIES)[number];
+
+export interface FactText {
+  fact: string;
+  context?: string;
+}
+
+export interface SensitiveFinding {
+  field: "fact" | "context";
+  kind: string; // e.g. "AWS access key", "email address"
+  line: number; // 1-based, within the field
+}
+
+/**
+ * Applies the secret policy to fact text before it is stored:
+ * - `reject`: refuse the fact, naming what was found
+ * - `redact`: replace each finding with e.g. "[REDACTED AWS access key]"
+ * - `encrypt`: replace each finding with its encryption under the database
+ *   key, which `reveal` turns back into the original while the key is
+ *   configured
+ * - `off`: store the text as it is
+ */
+export class FactGuard {
+  constructor(
+    readonly policy: SecretPolicy,
+    private cipher: DatabaseCipher | null = null
+  ) {
+    if (policy === "encrypt" && !cipher) {
+      throw new Error(
+        "The encrypt secret policy needs a database key; set DEV_ASSISTANT_DB_KEY or DEV_ASSISTANT_DB_KEYFILE"
+      );
+    }
+  }
+
+  /**
+   * Finds the secrets and email addresses in a fact. Values are never
+   * included, only their kind and line.
+   */
+  scan(text: FactText): SensitiveFinding[] {
+    const findings: SensitiveFinding[] = [];
+    for (const field of ["fact", "context"] as const) {
+      const value = text[field];
+      if (!value) continue;
+      for (const match of findSensitiveData(value)) {
+        findings.push({
+          field,
+          kind: match.kind,
+          line: value.slice(0, match.index).split("\n").length,
+        });
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * Returns the text to store. Throws when the policy is `reject` and
+   * something was found.
+   */
+  protect(text: FactText): FactText & { findings: SensitiveFinding[] } {
+    if (this.policy === "off") return { ...text, findings: [] };
+
+    const findings = this.scan(text);
+    if (findings.length === 0) return { ...text, findings };
+    if (this.policy === "reject") {
+      throw new Error(
+        `Refusing to store sensitive data (${describeFindings(
+          findings
+        )}). Remove it, or refer to where it is kept instead, e.g. an environment variable name`
+      );
+    }
+
+    const replace = (value: string | undefined) => {
+      if (!value) return value;
+      let result = "";
+      let position = 0;
+      for (const match of findSensitiveData(value)) {
+        const secret = value.slice(match.index, match.index + match.length);
+        result += value.slice(position, match.index);
+        result +=
+          this.policy === "encrypt"
+            ? this.cipher!.encryptSpan(secret)
+            : `[REDACTED ${match.kind}]`;
+        position = match.index + match.length;
+      }
+      return result + value.slice(position);
+    };
+    return {
+      fact: replace(text.fact)!,
+      context: replace(text.context),
+      findings,
+    };
+  }
+
+  /**
+   * Decrypts the values `protect` encrypted. Without the database key, or
+   * with a different one, they are left encrypted.
+   */
+  reveal(text: string): string {
+    return this.cipher ? this.cipher.revealSpans(text) : text;
+  }
+}
+
+/**
+ * Summarises findings for a message, e.g. "AWS access key in fact line 1,
+ * email address in context line 3".
+ */
+export function describeFindings(findings: SensitiveFinding[]): string {
+  return findings
+    .map(
+      (finding) => `${finding.kind} in ${finding.field} line ${finding.line}`
+    )
+    .join(", ");
+}
+
+/**
+ * Builds the guard from the DEV_ASSISTANT_SECRET_POLICY environment variable
+ * (default: redact). The `encrypt` policy uses the database `cipher`.
+ */
+export function createFactGuard(
+  policy: string | undefined = process.env.DEV_ASSISTANT_SECRET_POLICY,
+  cipher: DatabaseCipher | null = null
+): FactGuard {
+  const value = (policy || "redact").trim();
+  if (!SECRET_POLICIES.includes(value as SecretPolicy)) {
+    throw new Error(
+      `Unknown secret policy: ${value} (expected ${SECRET_POLICIES.join(", ")})`
+    );
+  }
+  return new FactGuard(value as SecretPolicy, cipher);
+}
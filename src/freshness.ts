@@ -0,0 +1,226 @@
+// Fact freshness - detects facts whose anchored code has changed or vanished
+
+import fs from "fs/promises";
+import path from "path";
+
+import {
+  AnchorStatusUpdate,
+  ContextDatabase,
+  FactAnchor,
+  FactAnchorInput,
+  StoredFact,
+} from "./database.js";
+
+export interface FreshnessReport {
+  checkedAt: string;
+  anchorsChecked: number;
+  fresh: number;
+  changed: number;
+  missing: number;
+  staleFacts: StoredFact[];
+}
+
+type AnchorLocation = Pick<
+  FactAnchorInput,
+  "filePath" | "startLine" | "endLine" | "symbol"
+>;
+
+// Declaration keywords across the languages we expect to see
+const DECLARATION_KEYWORDS =
+  "function|class|interface|type|enum|const|let|var|def|func|fn|struct|trait|impl|module|namespace";
+
+/**
+ * Hashes the content an anchor points at: a symbol's definition when it names
+ * one (so it survives the code moving), otherwise the line range, otherwise
+ * the whole file. Directories hash their listing. Resolves to null when the
+ * path or symbol no longer exists.
+ */
+export async function hashAnchor(
+  anchor: AnchorLocation,
+  rootPath: string,
+  database: ContextDatabase
+): Promise<string | null> {
+  const absolutePath = path.join(rootPath, anchor.filePath);
+
+  let stats;
+  try {
+    stats = await fs.stat(absolutePath);
+  } catch (error) {
+    return null;
+  }
+
+  if (stats.isDirectory()) {
+    const entries = await fs.readdir(absolutePath);
+    return database.generateHash(`dir:${entries.sort().join("\n")}`);
+  }
+
+  const lines = (await fs.readFile(absolutePath, "utf-8"))
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd());
+
+  if (anchor.symbol) {
+    const region = extractSymbolRegion(lines, anchor.symbol);
+    return region === null ? null : database.generateHash(region);
+  }
+
+  if (anchor.startLine !== undefined) {
+    const endLine = anchor.endLine ?? anchor.startLine;
+    return database.generateHash(
+      lines.slice(anchor.startLine - 1, endLine).join("\n")
+    );
+  }
+
+  return database.generateHash(lines.join("\n"));
+}
+
+/**
+ * Finds where `symbol` is declared and returns its definition: up to the
+ * matching closing brace for brace-delimited languages, or while lines stay
+ * indented deeper than the declaration otherwise.
+ */
+function extractSymbolRegion(lines: string[], symbol: string): string | null {
+  const name = symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const declaration = new RegExp(
+    `\\b(${DECLARATION_KEYWORDS})\\s+${name}\\b|^\\s*(async\\s+)?${name}\\s*[(=:]`
+  );
+  const start = lines.findIndex((line) => declaration.test(line));
+  if (start === -1) return null;
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const baseIndent = indentOf(lines[start]);
+  let end = start;
+
+  if (lines[start].includes("{")) {
+    let depth = 0;
+    for (let i = start; i < lines.length; i++) {
+      for (const char of lines[i]) {
+        if (char === "{") depth++;
+        else if (char === "}") depth--;
+      }
+      end = i;
+      if (depth <= 0) break;
+    }
+  } else {
+    for (let i = start + 1; i < lines.length; i++) {
+      if (lines[i].trim() === "") continue;
+      if (indentOf(lines[i]) <= baseIndent) break;
+      end = i;
+    }
+  }
+
+  return lines.slice(start, end + 1).join("\n");
+}
+
+/**
+ * Re-hashes anchored files and regions, compares them with the hashes stored
+ * when each fact was remembered, and records the result on every anchor.
+ * Runs on demand and periodically in the background.
+ */
+export class FreshnessChecker {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<FreshnessReport> | null = null;
+
+  constructor(private database: ContextDatabase, readonly rootPath: string) {}
+
+  async hashAnchors(anchors: FactAnchorInput[]): Promise<FactAnchorInput[]> {
+    return Promise.all(
+      anchors.map(async (anchor) => ({
+        ...anchor,
+        contentHash:
+          (await hashAnchor(anchor, this.rootPath, this.database)) ?? undefined,
+      }))
+    );
+  }
+
+  /**
+   * Checks the anchors of the given facts, or of all facts. With
+   * `acknowledge`, current content becomes the new baseline, marking the
+   * facts as reviewed.
+   */
+  async check(
+    factIds?: number[],
+    acknowledge: boolean = false
+  ): Promise<FreshnessReport> {
+    // Background and on-demand checks would otherwise race on statuses
+    while (this.running) {
+      await this.running.catch(() => undefined);
+    }
+
+    this.running = this.runCheck(factIds, acknowledge);
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  start(intervalMs: number) {
+    if (this.timer) return;
+
+    const runInBackground = () => {
+      this.check().catch((error) => {
+        console.error("Fact freshness check failed:", error);
+      });
+    };
+
+    runInBackground();
+    this.timer = setInterval(runInBackground, intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async runCheck(
+    factIds: number[] | undefined,
+    acknowledge: boolean
+  ): Promise<FreshnessReport> {
+    const anchors = await this.database.getAnchors(factIds);
+    const updates: AnchorStatusUpdate[] = [];
+
+    for (const anchor of anchors) {
+      const current = await hashAnchor(anchor, this.rootPath, this.database);
+      updates.push(this.compare(anchor, current, acknowledge));
+    }
+
+    await this.database.updateAnchorStatuses(updates);
+
+    const staleFactIds = new Set<number>();
+    const counts = { fresh: 0, changed: 0, missing: 0 };
+    updates.forEach((update, index) => {
+      if (update.status === "fresh") counts.fresh++;
+      else if (update.status === "changed") counts.changed++;
+      else if (update.status === "missing") counts.missing++;
+      if (update.status === "changed" || update.status === "missing") {
+        staleFactIds.add(anchors[index].factId);
+      }
+    });
+
+    return {
+      checkedAt: new Date().toISOString(),
+      anchorsChecked: anchors.length,
+      ...counts,
+      staleFacts: await this.database.getFactsByIds(Array.from(staleFactIds)),
+    };
+  }
+
+  private compare(
+    anchor: FactAnchor,
+    current: string | null,
+    acknowledge: boolean
+  ): AnchorStatusUpdate {
+    if (current === null) {
+      return { id: anchor.id, status: "missing" };
+    }
+    // Anchors stored before their path existed get a baseline on first sight
+    if (acknowledge || !anchor.contentHash) {
+      return { id: anchor.id, status: "fresh", contentHash: current };
+    }
+    return {
+      id: anchor.id,
+      status: current === anchor.contentHash ? "fresh" : "changed",
+    };
+  }
+}
@@ -0,0 +1,254 @@
+// Git context - what the developer is working on, read through simple-git
+
+import { simpleGit, SimpleGit, FileStatusResult } from "simple-git";
+
+export interface GitFileChange {
+  path: string;
+  status: string; // Single-letter git status code, e.g. "M", "A", "D", "R"
+  from?: string; // Original path for renames
+}
+
+export interface GitCommitSummary {
+  hash: string;
+  date: string;
+  author: string;
+  message: string;
+  files: GitFileChange[];
+}
+
+export interface GitWorkingTreeSummary {
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+export interface GitContextSummary {
+  root: string;
+  branch: string | null; // null when HEAD is detached
+  detached: boolean;
+  tracking: string | null;
+  ahead: number;
+  behind: number;
+  clean: boolean;
+  workingTree: GitWorkingTreeSummary;
+  recentCommits: GitCommitSummary[];
+}
+
+export interface DirectoryChangeSummary {
+  directory: string; // "." for files in the repository root
+  files: number;
+  insertions: number;
+  deletions: number;
+  paths: string[];
+}
+
+export interface BranchChangesSummary {
+  base: string;
+  mergeBase: string;
+  head: string | null;
+  includesUncommitted: boolean;
+  commits: { hash: string; date: string; author: string; message: string }[];
+  totals: { files: number; insertions: number; deletions: number };
+  directories: DirectoryChangeSummary[];
+}
+
+// Tried in order when no base branch is given
+const DEFAULT_BASE_CANDIDATES = ["main", "master", "develop"];
+
+export class GitContext {
+  private git: SimpleGit;
+
+  constructor(workingDir: string) {
+    this.git = simpleGit({ baseDir: workingDir });
+  }
+
+  async isRepository(): Promise<boolean> {
+    try {
+      return await this.git.checkIsRepo();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async getContext(commitLimit: number = 10): Promise<GitContextSummary> {
+    const root = (await this.git.revparse(["--show-toplevel"])).trim();
+    const status = await this.git.status();
+
+    return {
+      root,
+      branch: status.detached ? null : status.current,
+      detached: status.detached,
+      tracking: status.tracking,
+      ahead: status.ahead,
+      behind: status.behind,
+      clean: status.isClean(),
+      workingTree: summarizeWorkingTree(status.files, status.conflicted),
+      recentCommits: await this.getRecentCommits(commitLimit),
+    };
+  }
+
+  async getRecentCommits(limit: number): Promise<GitCommitSummary[]> {
+    try {
+      const log = await this.git.log({
+        maxCount: limit,
+        "--name-status": null,
+      });
+
+      return log.all.map((entry) => ({
+        hash: entry.hash,
+        date: entry.date,
+        author: entry.author_name,
+        message: entry.message,
+        files: (entry.diff?.files ?? []).map((file) => ({
+          path: file.file,
+          status: "status" in file && file.status ? file.status : "M",
+          ...("from" in file && file.from ? { from: file.from } : {}),
+        })),
+      }));
+    } catch (error) {
+      // A repository without commits has no log yet
+      if (String(error).includes("does not have any commits")) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Diff stat of the current branch against `base`, measured from their merge
+   * base so upstream work on the base branch is not counted. With
+   * `includeUncommitted`, working tree changes are included too. A base
+   * starting with "-" is refused, since git would read it as an option.
+   */
+  async summarizeBranchChanges(
+    base?: string,
+    depth: number = 2,
+    includeUncommitted: boolean = false
+  ): Promise<BranchChangesSummary> {
+    const resolvedBase = base ?? (await this.detectBaseBranch());
+    if (resolvedBase.startsWith("-")) {
+      throw new Error(`Invalid base branch: ${resolvedBase}`);
+    }
+    try {
+      await this.git.revparse(["--verify", `${resolvedBase}^{commit}`]);
+    } catch (error) {
+      throw new Error(`Base branch not found: ${resolvedBase}`);
+    }
+
+    const mergeBase = (
+      await this.git.raw(["merge-base", resolvedBase, "HEAD"])
+    ).trim();
+    const status = await this.git.status();
+
+    const diffArgs = includeUncommitted ? [mergeBase] : [mergeBase, "HEAD"];
+    const diff = await this.git.diffSummary(diffArgs);
+    const log = await this.git.log({ from: mergeBase, to: "HEAD" });
+
+    const byDirectory = new Map<string, DirectoryChangeSummary>();
+    for (const file of diff.files) {
+      const directory = directoryOf(file.file, depth);
+      let entry = byDirectory.get(directory);
+      if (!entry) {
+        entry = { directory, files: 0, insertions: 0, deletions: 0, paths: [] };
+        byDirectory.set(directory, entry);
+      }
+      entry.files++;
+      if (!file.binary) {
+        entry.insertions += file.insertions;
+        entry.deletions += file.deletions;
+      }
+      entry.paths.push(file.file);
+    }
+
+    return {
+      base: resolvedBase,
+      mergeBase,
+      head: status.detached ? null : status.current,
+      includesUncommitted: includeUncommitted,
+      commits: log.all.map((entry) => ({
+        hash: entry.hash,
+        date: entry.date,
+        author: entry.author_name,
+        message: entry.message,
+      })),
+      totals: {
+        files: diff.files.length,
+        insertions: diff.insertions,
+        deletions: diff.deletions,
+      },
+      directories: Array.from(byDirectory.values()).sort(
+        (a, b) => b.insertions + b.deletions - (a.insertions + a.deletions)
+      ),
+    };
+  }
+
+  private async detectBaseBranch(): Promise<string> {
+    // Prefer whatever the remote calls its default branch
+    try {
+      const remoteHead = (
+        await this.git.raw([
+          "symbolic-ref",
+          "--short",
+          "refs/remotes/origin/HEAD",
+        ])
+      ).trim();
+      if (remoteHead) return remoteHead;
+    } catch (error) {
+      // No origin or origin/HEAD not set
+    }
+
+    const branches = await this.git.branchLocal();
+    const candidate = DEFAULT_BASE_CANDIDATES.find((name) =>
+      branches.all.includes(name)
+    );
+    if (!candidate) {
+      throw new Error(
+        `Could not detect a base branch (tried origin/HEAD, ${DEFAULT_BASE_CANDIDATES.join(
+          ", "
+        )}); pass one explicitly`
+      );
+    }
+    return candidate;
+  }
+}
+
+function summarizeWorkingTree(
+  files: FileStatusResult[],
+  conflicted: string[]
+): GitWorkingTreeSummary {
+  const summary: GitWorkingTreeSummary = {
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted,
+  };
+
+  for (const file of files) {
+    if (conflicted.includes(file.path)) continue;
+    if (file.index === "?") {
+      summary.untracked.push(file.path);
+      continue;
+    }
+    if (file.index.trim()) {
+      summary.staged.push({
+        path: file.path,
+        status: file.index,
+        ...(file.from ? { from: file.from } : {}),
+      });
+    }
+    if (file.working_dir.trim()) {
+      summary.unstaged.push({ path: file.path, status: file.working_dir });
+    }
+  }
+
+  return summary;
+}
+
+function directoryOf(filePath: string, depth: number): string {
+  // Renames in diff stats look like "dir/{old => new}/file"; group by the new path
+  const normalized = filePath
+    .replace(/\{[^}]* => ([^}]*)\}/g, "$1")
+    .replace(/.* => /, "")
+    .replace(/\/\//g, "/");
+  const dirs = normalized.split("/").slice(0, -1);
+  return dirs.length > 0 ? dirs.slice(0, depth).join("/") : ".";
+}
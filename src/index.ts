@@ -11,16 +11,172 @@ import {
 import fs from "fs/promises";
 import path from "path";
 
-import { ContextDatabase } from "./database.js";
+import { ancestorPaths, normalizeAnchorPath } from "./anchors.js";
+import { isCliCommand, runCli } from "./cli.js";
 import {
-  CURSOR_RULES_TEMPLATES,
-  TEMPLATE_VERSION,
-  TEMPLATE_METADATA,
-} from "./rules-template.js";
+  ContextDatabase,
+  FactAnchorInput,
+  FactScope,
+  RuleDeploymentProfile,
+  StoredFact,
+  toSqlTimestamp,
+} from "./database.js";
+import {
+  COMPLIANCE_CHECKS,
+  ComplianceCheck,
+  ComplianceResult,
+  runComplianceChecks,
+} from "./compliance.js";
+import { createEmbeddingProvider, SemanticIndex } from "./embeddings.js";
+import {
+  DatabaseCipher,
+  EncryptionStatus,
+  loadDatabaseKeys,
+  prepareDatabaseEncryption,
+} from "./encryption.js";
+import {
+  createFactGuard,
+  describeFindings,
+  FactGuard,
+  FactText,
+  SensitiveFinding,
+} from "./fact-guard.js";
+import { FreshnessChecker } from "./freshness.js";
+import { GitContext } from "./git.js";
+import {
+  EXPORT_FORMATS,
+  exportKnowledge,
+  IMPORT_STRATEGIES,
+  importKnowledge,
+  KnowledgeExport,
+  parseKnowledge,
+  serializeKnowledge,
+} from "./knowledge.js";
+import {
+  DEFAULT_MAX_BODY_LINES,
+  RuleDiagnostic,
+  validateRuleSet,
+} from "./mdc.js";
+import {
+  ProjectIdentity,
+  readRuleVariables,
+  resolveProject,
+} from "./project.js";
+import {
+  DEFAULT_RULE_PACK,
+  ResolvedRule,
+  RulePack,
+  resolveRulePacks,
+  renderRules,
+  selectRules,
+} from "./rule-packs.js";
+import {
+  explainRulesForFile,
+  measureRuleCoverage,
+  readRuleDefinition,
+  RuleDefinition,
+} from "./rule-coverage.js";
+import {
+  RULE_TARGET_DEFINITIONS,
+  RULE_TARGETS,
+  RuleTargetName,
+} from "./rule-targets.js";
+import { loadBackupRetention, RulesDeployer } from "./rules-deployer.js";
+import { detectProjectStack, stackVariables } from "./stack.js";
+import { TemplateVariables } from "./templating.js";
+import { ProjectWatcher, summarizeActivity } from "./watcher.js";
+import { listWorkspaceFiles } from "./workspace-files.js";
+
+// Files rules_coverage walks before stopping, so huge trees stay responsive
+const DEFAULT_COVERAGE_MAX_FILES = 20000;
+
+// How setup_project_rules describes each built-in category it deployed
+const CATEGORY_SUMMARIES: Record<string, string> = {
+  "code-style": "Code style and formatting standards",
+  architecture: "Architecture and design patterns",
+  testing: "Testing requirements and best practices",
+  security: "Security guidelines and data protection",
+  performance: "Performance optimization techniques",
+  documentation: "Documentation standards",
+  "git-workflow": "Git workflow and version control",
+  accessibility: "Accessibility compliance (WCAG 2.1)",
+};
+
+// Shared by remember_fact and update_fact
+const ANCHORS_SCHEMA = {
+  type: "array",
+  description:
+    "Code locations this fact is about, so it can be found from the file and checked for staleness",
+  items: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description:
+          "File or directory path, relative to the project root or absolute",
+      },
+      start_line: {
+        type: "number",
+        description: "First line of the relevant region (1-based)",
+      },
+      end_line: {
+        type: "number",
+        description:
+          "Last line of the relevant region (defaults to start_line)",
+      },
+      symbol: {
+        type: "string",
+        description:
+          'Function, class or other symbol name (e.g. "retryRequest")',
+      },
+      commit: {
+        type: "string",
+        description: "Commit SHA at which the fact was true",
+      },
+    },
+    required: ["path"],
+  },
+};
+
+// Scopes a fact can be stored in, and those that can be queried
+const STORED_SCOPES = ["project", "global"] as const;
+const FACT_SCOPES = [...STORED_SCOPES, "all"] as const;
+
+const SCOPE_SCHEMA = {
+  type: "string",
+  enum: FACT_SCOPES,
+  description:
+    "Which facts to include: project (the current project), global (shared across projects) or all (both). Default: project",
+  default: "project",
+};
+
+const AUTHOR_SCHEMA = {
+  type: "string",
+  description:
+    "Who is making the change, recorded in the fact's history (default: the MCP client's name)",
+};
+
+const REVISION_ACTIONS = [
+  "create",
+  "update",
+  "delete",
+  "restore",
+  "revert",
+  "baseline",
+] as const;
 
 class DevAssistantServer {
   private server: Server;
   private database: ContextDatabase;
+  private semanticIndex: SemanticIndex | null = null;
+  private watcher: ProjectWatcher | null = null;
+  // Set in start(), before any request is served
+  private project!: ProjectIdentity;
+  private freshness!: FreshnessChecker;
+  private rulesDeployer!: RulesDeployer;
+  private cipher: DatabaseCipher | null = null;
+  private factGuard!: FactGuard;
+  private encryption!: EncryptionStatus;
 
   constructor() {
     this.server = new Server(
@@ -70,13 +226,23 @@ class DevAssistantServer {
                   description:
                     "Tags to help categorize and find this fact later",
                 },
+                anchors: ANCHORS_SCHEMA,
+                scope: {
+                  type: "string",
+                  enum: STORED_SCOPES,
+                  description:
+                    "Store the fact for the current project, or globally so it is shared across projects, e.g. personal conventions (default: project). Global facts cannot have anchors",
+                  default: "project",
+                },
+                author: AUTHOR_SCHEMA,
               },
               required: ["category", "fact"],
             },
           },
           {
             name: "recall_facts",
-            description: "Retrieve stored facts and insights",
+            description:
+              "Retrieve stored facts and insights. Search results include a relevance score and a highlighted snippet",
             inputSchema: {
               type: "object",
               properties: {
@@ -91,7 +257,8 @@ class DevAssistantServer {
                 },
                 search: {
                   type: "string",
-                  description: "Search in fact content",
+                  description:
+                    'Full-text search over fact, context, tags and category, ranked by relevance. Supports "exact phrases", prefix*, AND/OR/NOT',
                 },
                 limit: {
                   type: "number",
@@ -99,100 +266,886 @@ class DevAssistantServer {
                     "Maximum number of facts to return (default: 20)",
                   default: 20,
                 },
+                mode: {
+                  type: "string",
+                  enum: ["keyword", "semantic", "hybrid"],
+                  description:
+                    "How to match search: keyword (full-text), semantic (embedding similarity) or hybrid (both blended). Semantic needs a sentence-embedding model; the default hashing provider is lexical only, so it is refused there. Default: keyword",
+                  default: "keyword",
+                },
+                semantic_weight: {
+                  type: "number",
+                  description:
+                    "Hybrid mode only: weight of semantic similarity versus keyword relevance, 0 to 1 (default: 0.5)",
+                  default: 0.5,
+                },
+                scope: SCOPE_SCHEMA,
               },
             },
           },
           {
-            name: "setup_project_rules",
+            name: "update_fact",
             description:
-              "Initialize or update Cursor project rules with company standards",
+              "Correct or refine a previously stored fact. Only the provided fields are changed",
             inputSchema: {
               type: "object",
               properties: {
-                force_update: {
+                id: {
+                  type: "number",
+                  description: "ID of the fact to update",
+                },
+                category: {
+                  type: "string",
+                  description: "New category for the fact",
+                },
+                fact: {
+                  type: "string",
+                  description: "New text of the fact",
+                },
+                context: {
+                  type: "string",
+                  description: "New context for the fact",
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Replacement list of tags",
+                },
+                anchors: {
+                  ...ANCHORS_SCHEMA,
+                  description:
+                    "Replacement list of anchors; pass an empty array to unlink the fact from code",
+                },
+                scope: {
+                  type: "string",
+                  enum: STORED_SCOPES,
+                  description:
+                    "Move the fact to the current project or to the global scope",
+                },
+                author: AUTHOR_SCHEMA,
+              },
+              required: ["id"],
+            },
+          },
+          {
+            name: "delete_fact",
+            description:
+              "Remove a stored fact that is no longer true. It can be brought back with restore_fact unless deleted permanently",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "number",
+                  description: "ID of the fact to delete",
+                },
+                permanent: {
                   type: "boolean",
                   description:
-                    "Force update even if rules have been manually modified (default: false)",
+                    "Remove the fact with its anchors and history so it cannot be restored, e.g. when it holds something that should never have been stored (default: false)",
                   default: false,
                 },
-                backup_existing: {
+                author: AUTHOR_SCHEMA,
+              },
+              required: ["id"],
+            },
+          },
+          {
+            name: "restore_fact",
+            description: "Bring back a deleted fact",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "number",
+                  description: "ID of the deleted fact",
+                },
+                author: AUTHOR_SCHEMA,
+              },
+              required: ["id"],
+            },
+          },
+          {
+            name: "revert_fact",
+            description:
+              "Set a fact's category, text, context and tags back to an earlier revision from fact_history. The revert is recorded as a new revision",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "number",
+                  description: "ID of the fact to revert",
+                },
+                revision: {
+                  type: "number",
+                  description: "Revision number to go back to",
+                },
+                author: AUTHOR_SCHEMA,
+              },
+              required: ["id", "revision"],
+            },
+          },
+          {
+            name: "fact_history",
+            description:
+              "Show who created, changed, deleted, restored or reverted facts and when, with the values before and after each change. Pass an id for one fact's full history, or leave it out for recent changes to any fact, e.g. action: delete to find deleted facts",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "number",
+                  description: "ID of the fact, deleted or not",
+                },
+                action: {
+                  type: "string",
+                  enum: REVISION_ACTIONS,
+                  description: "Only show revisions made by this action",
+                },
+                scope: {
+                  ...SCOPE_SCHEMA,
+                  description:
+                    "Which facts to include: project, global or all (default: all)",
+                  default: "all",
+                },
+                limit: {
+                  type: "number",
+                  description:
+                    "Maximum number of revisions to return without an id (default: 20)",
+                  default: 20,
+                },
+              },
+            },
+          },
+          {
+            name: "list_categories",
+            description: "List all categories currently used by stored facts",
+            inputSchema: {
+              type: "object",
+              properties: {
+                scope: SCOPE_SCHEMA,
+              },
+            },
+          },
+          {
+            name: "list_tags",
+            description: "List all tags currently used by stored facts",
+            inputSchema: {
+              type: "object",
+              properties: {
+                scope: SCOPE_SCHEMA,
+              },
+            },
+          },
+          {
+            name: "get_project_info",
+            description:
+              "Show which project facts and rule deployments are scoped to, and how it was identified",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "db_status",
+            description:
+              "Show the database file, its schema version and applied migrations, row counts and whether facts are encrypted",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "export_facts",
+            description:
+              "Export stored facts and rule deployment history as JSON or JSONL for sharing or checking into the repository, or as a Markdown digest grouped by category",
+            inputSchema: {
+              type: "object",
+              properties: {
+                format: {
+                  type: "string",
+                  enum: EXPORT_FORMATS,
+                  description:
+                    "json (default), jsonl (one record per line) or markdown (readable digest, not importable)",
+                  default: "json",
+                },
+                scope: SCOPE_SCHEMA,
+                category: {
+                  type: "string",
+                  description: "Only export facts in this category",
+                },
+                output_path: {
+                  type: "string",
+                  description:
+                    "Write the export to this file, relative to the project root, instead of returning it",
+                },
+              },
+            },
+          },
+          {
+            name: "import_facts",
+            description:
+              "Import facts and rule deployment history from a JSON or JSONL export. Facts already present (same category and text) are not duplicated",
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description:
+                    "Export file to read, relative to the project root or absolute",
+                },
+                content: {
+                  type: "string",
+                  description: "Export data to import, instead of path",
+                },
+                strategy: {
+                  type: "string",
+                  enum: IMPORT_STRATEGIES,
+                  description:
+                    "What to do when an existing fact has different context, tags or anchors: skip (default, keep existing), overwrite (use imported) or merge (add missing tags)",
+                  default: "skip",
+                },
+                dry_run: {
                   type: "boolean",
                   description:
-                    "Create backup of existing rules before overwriting (default: true)",
-                  default: true,
+                    "Report what would be created, updated or skipped without changing anything (default: false)",
+                  default: false,
                 },
-                deployed_by: {
+                author: AUTHOR_SCHEMA,
+              },
+            },
+          },
+          {
+            name: "audit_facts",
+            description:
+              "Scan stored facts, including deleted ones, and their earlier revisions for API keys, tokens, private keys, connection string passwords and email addresses, e.g. ones stored before the secret policy applied, and optionally redact or encrypt them",
+            inputSchema: {
+              type: "object",
+              properties: {
+                scope: {
+                  ...SCOPE_SCHEMA,
+                  description:
+                    "Which facts to scan: project, global or all (default: all)",
+                  default: "all",
+                },
+                fix: {
                   type: "string",
+                  enum: ["redact", "encrypt"],
                   description:
-                    "Name or identifier of who is deploying the rules",
+                    "Rewrite the facts and revisions with findings, replacing each value with a redaction marker or its encryption (needs the database key). Default: report only",
                 },
-                workspace_path: {
+                author: AUTHOR_SCHEMA,
+              },
+            },
+          },
+          {
+            name: "check_fact_freshness",
+            description:
+              "Re-check the code anchored to facts and report facts whose files, line ranges or symbols have changed or been deleted since they were stored",
+            inputSchema: {
+              type: "object",
+              properties: {
+                fact_ids: {
+                  type: "array",
+                  items: { type: "number" },
+                  description:
+                    "Only check these facts (default: all anchored facts)",
+                },
+                acknowledge: {
+                  type: "boolean",
+                  description:
+                    "Accept the current code as the new baseline for the given fact_ids, e.g. after confirming the facts are still true (default: false)",
+                  default: false,
+                },
+              },
+            },
+          },
+          {
+            name: "facts_for_file",
+            description:
+              "Find facts anchored to a file or directory, or to any of its parent directories",
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
                   type: "string",
                   description:
-                    "Path to the workspace directory where .cursor/rules should be created (defaults to current working directory)",
+                    "File or directory path, relative to the project root or absolute",
                 },
               },
+              required: ["path"],
             },
           },
-        ],
-      };
-    });
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params as any;
-
-      try {
-        switch (name) {
-          case "remember_fact":
-            if (!args?.category || !args?.fact) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Category and fact are required"
-              );
-            }
-            const factId = await this.database.storeFact(
-              args.category,
-              args.fact,
-              args.context,
-              args.tags || []
-            );
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Fact stored successfully with ID: ${factId}`,
+          {
+            name: "get_recent_activity",
+            description:
+              "Summarise which areas of the codebase were recently touched, based on file changes recorded by the project watcher",
+            inputSchema: {
+              type: "object",
+              properties: {
+                since_minutes: {
+                  type: "number",
+                  description:
+                    "How far back to look, in minutes (default: 1440, one day)",
+                  default: 1440,
                 },
-              ],
-            };
-
-          case "recall_facts":
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    await this.database.getFacts(
-                      args?.category,
-                      args?.tags,
-                      args?.search,
-                      args?.limit || 20
-                    ),
-                    null,
-                    2
-                  ),
+                path_prefix: {
+                  type: "string",
+                  description:
+                    'Only include files under this directory, relative to the project root (e.g. "src/api")',
                 },
-              ],
-            };
-
-          case "setup_project_rules":
-            return await this.setupProjectRules(
-              args?.force_update || false,
+                depth: {
+                  type: "number",
+                  description:
+                    "Number of directory levels used to group files into areas (default: 2)",
+                  default: 2,
+                },
+                limit: {
+                  type: "number",
+                  description:
+                    "Maximum number of individual recent events to include (default: 20)",
+                  default: 20,
+                },
+              },
+            },
+          },
+          {
+            name: "get_git_context",
+            description:
+              "Describe what the developer is working on in git: current branch, ahead/behind its upstream, staged and unstaged changes, and recent commits with the files they touched",
+            inputSchema: {
+              type: "object",
+              properties: {
+                commit_limit: {
+                  type: "number",
+                  description:
+                    "Number of recent commits to include (default: 10)",
+                  default: 10,
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Path inside the git repository (defaults to current working directory)",
+                },
+              },
+            },
+          },
+          {
+            name: "summarize_branch_changes",
+            description:
+              "Summarise how the current branch differs from a base branch: commits since the merge base and a diff stat grouped by directory",
+            inputSchema: {
+              type: "object",
+              properties: {
+                base: {
+                  type: "string",
+                  description:
+                    "Base branch or ref to compare against (defaults to origin/HEAD, then main, master or develop)",
+                },
+                depth: {
+                  type: "number",
+                  description:
+                    "Number of directory levels used to group changed files (default: 2)",
+                  default: 2,
+                },
+                include_uncommitted: {
+                  type: "boolean",
+                  description:
+                    "Include staged and unstaged working tree changes in the diff (default: false)",
+                  default: false,
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Path inside the git repository (defaults to current working directory)",
+                },
+              },
+            },
+          },
+          {
+            name: "setup_project_rules",
+            description:
+              "Initialize or update project rules with company standards for Cursor and other AI assistants",
+            inputSchema: {
+              type: "object",
+              properties: {
+                force_update: {
+                  type: "boolean",
+                  description:
+                    "Force update even if rules have been manually modified (default: false)",
+                  default: false,
+                },
+                dry_run: {
+                  type: "boolean",
+                  description:
+                    "Only report what would change, file by file with diffs, without writing files or recording a deployment (default: false)",
+                  default: false,
+                },
+                merge: {
+                  type: "boolean",
+                  description:
+                    "Merge manual modifications with the new rules instead of stopping; conflicting changes are written between conflict markers and reported (default: false)",
+                  default: false,
+                },
+                backup_existing: {
+                  type: "boolean",
+                  description:
+                    "Create backup of existing rules before overwriting (default: true)",
+                  default: true,
+                },
+                deployed_by: {
+                  type: "string",
+                  description:
+                    "Name or identifier of who is deploying the rules",
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Path to the workspace directory the rules are written into (defaults to the project root)",
+                },
+                packs: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    'Rule packs to deploy, in order: "default" for the built-in rules, a pack directory, or an installed package name. Later packs replace files of the same name from earlier ones (default: ["default"])',
+                },
+                targets: {
+                  type: "array",
+                  items: { type: "string", enum: RULE_TARGETS },
+                  description:
+                    'Assistants to write rules for: cursor (.cursor/rules), copilot (.github/copilot-instructions.md), claude (CLAUDE.md), windsurf (.windsurfrules), cline (.clinerules/) or agents (AGENTS.md) (default: ["cursor"])',
+                },
+                include_categories: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    'Rule categories to deploy even if they do not apply to the detected stack, e.g. ["accessibility"]',
+                },
+                exclude_categories: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    'Rule categories not to deploy, e.g. ["git-workflow"]',
+                },
+                detect_stack: {
+                  type: "boolean",
+                  description:
+                    "Detect the languages and frameworks from package.json, tsconfig.json, pyproject.toml, go.mod, Cargo.toml and framework config files, deploy only the rules that apply and adapt their file patterns (default: true)",
+                  default: true,
+                },
+              },
+            },
+          },
+          {
+            name: "rules_status",
+            description:
+              "Check whether the deployed rules are in sync: files modified, missing, outdated or orphaned since the last deployment, and the pack version gap",
+            inputSchema: {
+              type: "object",
+              properties: {
+                packs: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    'Rule packs to compare against, as passed to setup_project_rules (default: ["default"])',
+                },
+                targets: {
+                  type: "array",
+                  items: { type: "string", enum: RULE_TARGETS },
+                  description:
+                    "Targets to check (default: the targets of the latest deployment)",
+                },
+                include_categories: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    "Rule categories to compare as deployed even if they do not apply to the stack (default: those of the latest deployment)",
+                },
+                exclude_categories: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    "Rule categories to leave out (default: those of the latest deployment)",
+                },
+                detect_stack: {
+                  type: "boolean",
+                  description:
+                    "Select rules for the detected stack, as setup_project_rules does (default: as in the latest deployment)",
+                },
+                clean_orphans: {
+                  type: "boolean",
+                  description:
+                    "Delete orphaned files the server deployed that the rules no longer include, unless they were edited (default: false)",
+                  default: false,
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Path to the workspace directory the rules were written into (defaults to the project root)",
+                },
+              },
+            },
+          },
+          {
+            name: "list_rule_deployments",
+            description:
+              "List past rule deployments, newest first, with their packs, targets and backups",
+            inputSchema: {
+              type: "object",
+              properties: {
+                limit: {
+                  type: "number",
+                  description:
+                    "Maximum number of deployments to return (default: 20)",
+                  default: 20,
+                },
+                include_files: {
+                  type: "boolean",
+                  description:
+                    "Include the files each deployment wrote (default: false)",
+                  default: false,
+                },
+              },
+            },
+          },
+          {
+            name: "rollback_rules",
+            description:
+              "Restore the rule files written by an earlier deployment, recording the rollback as a new deployment",
+            inputSchema: {
+              type: "object",
+              properties: {
+                deployment_id: {
+                  type: "number",
+                  description:
+                    "ID of the deployment to restore, from list_rule_deployments",
+                },
+                backup_existing: {
+                  type: "boolean",
+                  description:
+                    "Create backup of the rule files being replaced (default: true)",
+                  default: true,
+                },
+                deployed_by: {
+                  type: "string",
+                  description:
+                    "Name or identifier of who is rolling back the rules",
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Path to the workspace directory the rules are restored into (defaults to the project root)",
+                },
+              },
+              required: ["deployment_id"],
+            },
+          },
+          {
+            name: "validate_rules",
+            description:
+              "Lint rule templates and the .mdc files in .cursor/rules: malformed front matter, unknown applyMode values, invalid glob patterns, duplicate names and oversized bodies, with line numbers",
+            inputSchema: {
+              type: "object",
+              properties: {
+                scope: {
+                  type: "string",
+                  enum: ["all", "packs", "workspace"],
+                  description:
+                    "What to lint: the rule packs' templates, the files in .cursor/rules, or both (default: all)",
+                  default: "all",
+                },
+                packs: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    'Rule packs whose templates to lint, as passed to setup_project_rules (default: ["default"])',
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Workspace directory whose .cursor/rules to lint (defaults to the project root)",
+                },
+                max_body_lines: {
+                  type: "number",
+                  description: `Warn about rule bodies longer than this (default: ${DEFAULT_MAX_BODY_LINES})`,
+                  default: DEFAULT_MAX_BODY_LINES,
+                },
+              },
+            },
+          },
+          {
+            name: "explain_rules_for_file",
+            description:
+              "Explain which rules in .cursor/rules apply to a file: those applied always or attached by a matching file pattern, those available on request, and those whose patterns do not match",
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description:
+                    "File path, relative to the workspace directory or absolute",
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Workspace directory whose .cursor/rules to evaluate (defaults to the project root)",
+                },
+              },
+              required: ["path"],
+            },
+          },
+          {
+            name: "rules_coverage",
+            description:
+              "Report how well the rules in .cursor/rules cover the workspace: how many files each rule's patterns match, patterns that match nothing, and files no rule's patterns match. Files ignored by .gitignore are skipped",
+            inputSchema: {
+              type: "object",
+              properties: {
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Workspace directory to walk (defaults to the project root)",
+                },
+                max_files: {
+                  type: "number",
+                  description: `Stop walking after this many files (default: ${DEFAULT_COVERAGE_MAX_FILES})`,
+                  default: DEFAULT_COVERAGE_MAX_FILES,
+                },
+                limit: {
+                  type: "number",
+                  description:
+                    "Maximum number of uncovered files to list (default: 50)",
+                  default: 50,
+                },
+              },
+            },
+          },
+          {
+            name: "check_compliance",
+            description:
+              "Check the workspace against the machine-checkable standards of the deployed rules: line length, TypeScript strict mode, hard-coded secrets, empty catch blocks, focused tests, images without alt text and more. Returns findings per rule and per file, and can record recurring violations as facts",
+            inputSchema: {
+              type: "object",
+              properties: {
+                checks: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: `Checks to run (default: all). Available: ${COMPLIANCE_CHECKS.map(
+                    (check) => check.id
+                  ).join(", ")}`,
+                },
+                categories: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    'Only run the checks of these rule categories, e.g. ["security"]',
+                },
+                packs: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    'Rule packs whose variables, such as maxLineLength, the checks use (default: ["default"])',
+                },
+                workspace_path: {
+                  type: "string",
+                  description:
+                    "Workspace directory to check (defaults to the project root)",
+                },
+                max_files: {
+                  type: "number",
+                  description: `Stop walking after this many files (default: ${DEFAULT_COVERAGE_MAX_FILES})`,
+                  default: DEFAULT_COVERAGE_MAX_FILES,
+                },
+                limit: {
+                  type: "number",
+                  description:
+                    "Maximum number of findings to list per check, and of files to list (default: 20)",
+                  default: 20,
+                },
+                remember: {
+                  type: "boolean",
+                  description:
+                    "Record checks violated in at least min_files files as facts in the compliance category (default: false)",
+                  default: false,
+                },
+                min_files: {
+                  type: "number",
+                  description:
+                    "Files a check must fail in to count as recurring (default: 3)",
+                  default: 3,
+                },
+                author: AUTHOR_SCHEMA,
+              },
+            },
+          },
+        ],
+      };
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params as any;
+
+      try {
+        switch (name) {
+          case "remember_fact":
+            if (!args?.category || !args?.fact) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                "Category and fact are required"
+              );
+            }
+            const scope =
+              this.parseScope(args.scope, STORED_SCOPES) ?? "project";
+            const anchors = this.parseAnchors(args.anchors);
+            if (scope === "global" && anchors.length > 0) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                "Global facts cannot have anchors; anchors are relative to a project"
+              );
+            }
+            const text = this.protectFactText({
+              fact: args.fact,
+              context: args.context,
+            });
+            const factId = await this.database.storeFact(
+              args.category,
+              text.fact,
+              text.context,
+              args.tags || [],
+              await this.freshness.hashAnchors(anchors),
+              scope,
+              this.factAuthor(args)
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Fact stored successfully with ID: ${factId}${this.describeProtection(
+                    text.findings
+                  )}`,
+                },
+              ],
+            };
+
+          case "recall_facts":
+            return await this.recallFacts(args);
+
+          case "update_fact":
+            return await this.updateFact(args);
+
+          case "delete_fact":
+            return await this.deleteFact(args);
+
+          case "restore_fact":
+            return await this.restoreFact(args);
+
+          case "revert_fact":
+            return await this.revertFact(args);
+
+          case "fact_history":
+            return await this.factHistory(args);
+
+          case "list_categories":
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    await this.database.getCategories(
+                      this.parseScope(args?.scope, FACT_SCOPES)
+                    ),
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+
+          case "list_tags":
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    await this.database.getAllTags(
+                      this.parseScope(args?.scope, FACT_SCOPES)
+                    ),
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+
+          case "get_project_info":
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(this.project, null, 2),
+                },
+              ],
+            };
+
+          case "db_status":
+            return await this.databaseStatus();
+
+          case "export_facts":
+            return await this.exportFacts(args);
+
+          case "import_facts":
+            return await this.importFacts(args);
+
+          case "audit_facts":
+            return await this.auditFacts(args);
+
+          case "check_fact_freshness":
+            return await this.checkFactFreshness(args);
+
+          case "facts_for_file":
+            return await this.factsForFile(args);
+
+          case "get_recent_activity":
+            return await this.getRecentActivity(args);
+
+          case "get_git_context":
+            return await this.getGitContext(args);
+
+          case "summarize_branch_changes":
+            return await this.summarizeBranchChanges(args);
+
+          case "setup_project_rules":
+            return await this.setupProjectRules(
+              args?.force_update || false,
               args?.backup_existing !== false,
               args?.deployed_by,
-              args?.workspace_path
+              args?.workspace_path,
+              await this.selectProjectRules(args),
+              this.parseTargets(args?.targets),
+              args?.merge || false,
+              args?.dry_run || false
             );
 
+          case "rules_status":
+            return await this.rulesStatus(args);
+
+          case "list_rule_deployments":
+            return await this.listRuleDeployments(args);
+
+          case "rollback_rules":
+            return await this.rollbackRules(args);
+
+          case "validate_rules":
+            return await this.validateRules(args);
+
+          case "explain_rules_for_file":
+            return await this.explainRulesForFile(args);
+
+          case "rules_coverage":
+            return await this.rulesCoverage(args);
+
+          case "check_compliance":
+            return await this.checkCompliance(args);
+
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -200,250 +1153,1876 @@ class DevAssistantServer {
             );
         }
       } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Error executing tool ${name}: ${error}`
+        );
+      }
+    });
+  }
+
+  private async recallFacts(args: any) {
+    const mode = args?.mode || "keyword";
+    const limit = args?.limit || 20;
+    const scope = this.parseScope(args?.scope, FACT_SCOPES);
+    let facts: unknown[];
+    let embeddingProvider: { name: string; lexical: boolean } | undefined;
+
+    if (mode === "keyword") {
+      facts = await this.database.getFacts(
+        args?.category,
+        args?.tags,
+        args?.search,
+        limit,
+        scope
+      );
+    } else if (mode === "semantic" || mode === "hybrid") {
+      if (typeof args?.search !== "string" || !args.search.trim()) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `search is required for ${mode} mode`
+        );
+      }
+      if (!this.semanticIndex) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          "Semantic search is disabled (DEV_ASSISTANT_EMBEDDINGS=off)"
+        );
+      }
+
+      const { provider } = this.semanticIndex;
+      embeddingProvider = { name: provider.name, lexical: provider.lexical };
+
+      if (mode === "semantic") {
+        if (provider.lexical) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Semantic search needs a sentence-embedding model, but ${provider.name} only matches shared words and spellings. Set DEV_ASSISTANT_EMBEDDINGS=transformers:<model directory>, or use keyword or hybrid mode`
+          );
+        }
+        facts = await this.semanticIndex.search(
+          args.search,
+          args.category,
+          args.tags,
+          limit,
+          scope
+        );
+      } else {
+        const weight = args.semantic_weight ?? 0.5;
+        if (typeof weight !== "number" || weight < 0 || weight > 1) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "semantic_weight must be a number between 0 and 1"
+          );
+        }
+        facts = await this.semanticIndex.hybridSearch(
+          args.search,
+          args.category,
+          args.tags,
+          limit,
+          weight,
+          scope
+        );
+      }
+    } else {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown mode: ${mode}. Expected keyword, semantic or hybrid`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(facts, null, 2),
+        },
+        // Which embeddings ranked the results, so lexical-only ones are visible
+        ...(embeddingProvider
+          ? [
+              {
+                type: "text",
+                text: JSON.stringify({ embeddingProvider }, null, 2),
+              },
+            ]
+          : []),
+      ],
+    };
+  }
+
+  private async getRecentActivity(args: any) {
+    const sinceMinutes = args?.since_minutes ?? 1440;
+    const depth = args?.depth ?? 2;
+    const limit = args?.limit ?? 20;
+
+    if (typeof sinceMinutes !== "number" || sinceMinutes <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "since_minutes must be a positive number"
+      );
+    }
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "depth must be a positive integer"
+      );
+    }
+
+    const since = toSqlTimestamp(new Date(Date.now() - sinceMinutes * 60000));
+    const pathPrefix =
+      typeof args?.path_prefix === "string"
+        ? args.path_prefix.replace(/\\/g, "/").replace(/^\.?\/+|\/+$/g, "")
+        : undefined;
+    const events = await this.database.getFileActivity(
+      since,
+      pathPrefix || undefined
+    );
+    const summary = summarizeActivity(events, since, depth, limit);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              watching: this.watcher !== null,
+              ...summary,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async exportFacts(args: any) {
+    const format = args?.format ?? "json";
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `format must be one of: ${EXPORT_FORMATS.join(", ")}`
+      );
+    }
+
+    const data = await exportKnowledge(
+      this.database,
+      this.project,
+      this.parseScope(args?.scope, FACT_SCOPES),
+      args?.category
+    );
+    const text = serializeKnowledge(data, format);
+
+    if (typeof args?.output_path !== "string" || !args.output_path.trim()) {
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+      };
+    }
+
+    const outputPath = path.resolve(this.project.root, args.output_path);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, text, "utf-8");
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              path: outputPath,
+              format,
+              facts: data.facts.length,
+              ruleDeployments: data.ruleDeployments.length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async importFacts(args: any) {
+    const strategy = args?.strategy ?? "skip";
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `strategy must be one of: ${IMPORT_STRATEGIES.join(", ")}`
+      );
+    }
+
+    let text: string;
+    if (typeof args?.content === "string") {
+      text = args.content;
+    } else if (typeof args?.path === "string" && args.path.trim()) {
+      const importPath = path.resolve(this.project.root, args.path);
+      try {
+        text = await fs.readFile(importPath, "utf-8");
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Cannot read ${importPath}: ${error}`
+        );
+      }
+    } else {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Either path or content is required"
+      );
+    }
+
+    let data: KnowledgeExport;
+    try {
+      data = parseKnowledge(text);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid export: ${(error as Error).message}`
+      );
+    }
+
+    const report = await importKnowledge(
+      this.database,
+      this.freshness,
+      data,
+      strategy,
+      args?.dry_run === true,
+      this.factGuard,
+      this.factAuthor(args)
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(report, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async openGitContext(workspacePath?: string): Promise<GitContext> {
+    const git = new GitContext(workspacePath || process.cwd());
+    if (!(await git.isRepository())) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Not a git repository: ${workspacePath || process.cwd()}`
+      );
+    }
+    return git;
+  }
+
+  private async getGitContext(args: any) {
+    const commitLimit = args?.commit_limit ?? 10;
+    if (!Number.isInteger(commitLimit) || commitLimit < 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "commit_limit must be a non-negative integer"
+      );
+    }
+
+    const git = await this.openGitContext(args?.workspace_path);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(await git.getContext(commitLimit), null, 2),
+        },
+      ],
+    };
+  }
+
+  private async summarizeBranchChanges(args: any) {
+    const depth = args?.depth ?? 2;
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "depth must be a positive integer"
+      );
+    }
+    if (
+      args?.base !== undefined &&
+      (typeof args.base !== "string" || args.base.startsWith("-"))
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "base must be a branch or ref name"
+      );
+    }
+
+    const git = await this.openGitContext(args?.workspace_path);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            await git.summarizeBranchChanges(
+              args?.base,
+              depth,
+              args?.include_uncommitted === true
+            ),
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private parseAnchors(raw: unknown): FactAnchorInput[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+      throw new McpError(ErrorCode.InvalidParams, "anchors must be an array");
+    }
+
+    return raw.map((anchor: any, index: number) => {
+      const where = `anchors[${index}]`;
+      if (typeof anchor?.path !== "string" || !anchor.path.trim()) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${where}.path must be a non-empty string`
+        );
+      }
+
+      let filePath: string;
+      try {
+        filePath = normalizeAnchorPath(anchor.path, this.project.root);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${where}.path: ${(error as Error).message}`
+        );
+      }
+
+      for (const field of ["start_line", "end_line"]) {
+        const value = anchor[field];
+        if (
+          value !== undefined &&
+          (!Number.isInteger(value) || (value as number) < 1)
+        ) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `${where}.${field} must be a positive integer`
+          );
         }
+      }
+      const startLine: number | undefined = anchor.start_line;
+      const endLine: number | undefined = anchor.end_line ?? startLine;
+      if (endLine !== undefined && startLine === undefined) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${where}.end_line requires start_line`
+        );
+      }
+      if (startLine !== undefined && endLine! < startLine) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${where}.end_line must not be before start_line`
+        );
+      }
+
+      if (
+        anchor.symbol !== undefined &&
+        (typeof anchor.symbol !== "string" || !anchor.symbol.trim())
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${where}.symbol must be a non-empty string`
+        );
+      }
+      if (
+        anchor.commit !== undefined &&
+        (typeof anchor.commit !== "string" ||
+          !/^[0-9a-f]{7,40}$/i.test(anchor.commit))
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${where}.commit must be a 7-40 character hexadecimal commit SHA`
+        );
+      }
+
+      return {
+        filePath,
+        startLine,
+        endLine,
+        symbol: anchor.symbol?.trim(),
+        commitSha: anchor.commit?.toLowerCase(),
+      };
+    });
+  }
+
+  private async checkFactFreshness(args: any) {
+    const factIds = args?.fact_ids;
+    if (
+      factIds !== undefined &&
+      (!Array.isArray(factIds) ||
+        factIds.some((id: unknown) => !Number.isInteger(id)))
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "fact_ids must be an array of integers"
+      );
+    }
+    if (args?.acknowledge && !factIds) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "acknowledge requires fact_ids, so facts are only re-baselined after review"
+      );
+    }
+
+    const report = await this.freshness.check(
+      factIds,
+      args?.acknowledge === true
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(report, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async factsForFile(args: any) {
+    if (typeof args?.path !== "string" || !args.path.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, "path is required");
+    }
+
+    let filePath: string;
+    try {
+      filePath = normalizeAnchorPath(args.path, this.project.root);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+
+    // Most specific first: anchors on the path itself, then nearer parents
+    const lookup = ancestorPaths(filePath);
+    const matches = await this.database.getFactsByAnchorPaths(lookup);
+    const specificity = (paths: string[]) =>
+      Math.min(...paths.map((p) => lookup.indexOf(p)));
+    matches.sort(
+      (a, b) =>
+        specificity(a.matched.map((anchor) => anchor.filePath)) -
+        specificity(b.matched.map((anchor) => anchor.filePath))
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              path: filePath,
+              facts: matches.map(({ fact, matched }) => ({
+                ...fact,
+                matchedPaths: Array.from(
+                  new Set(matched.map((anchor) => anchor.filePath))
+                ),
+              })),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private parseFactId(args: any): number {
+    const id = args?.id;
+    if (typeof id !== "number" || !Number.isInteger(id) || id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "id must be a positive integer"
+      );
+    }
+    return id;
+  }
+
+  private async databaseStatus() {
+    const counts = await this.database.getFactEncryptionCounts();
+    const size = await fs
+      .stat(this.database.path)
+      .then((stats) => stats.size)
+      .catch(() => undefined);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              path: this.database.path,
+              sizeBytes: size,
+              schema: await this.database.getSchemaStatus(),
+              tables: await this.database.getTableCounts(),
+              encryption: {
+                ...this.encryption,
+                plaintextFacts: counts.plaintext,
+                encryptedFacts: counts.encrypted,
+              },
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async auditFacts(args: any) {
+    const scope = this.parseScope(args?.scope, FACT_SCOPES) ?? "all";
+    const fix = args?.fix;
+    if (fix !== undefined && fix !== "redact" && fix !== "encrypt") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "fix must be redact or encrypt"
+      );
+    }
+    let fixer: FactGuard | undefined;
+    try {
+      fixer = fix ? createFactGuard(fix, this.cipher) : undefined;
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+
+    // The text as stored: values already encrypted do not count
+    const stored = await this.database.getStoredFactText(scope);
+    const facts = [];
+    for (const row of stored) {
+      const text = { fact: row.fact, context: row.context ?? undefined };
+      const findings = this.factGuard.scan(text);
+      if (findings.length === 0) continue;
+
+      let fixed = false;
+      if (fixer) {
+        const replacement = fixer.protect(text);
+        fixed = await this.database.updateFact(
+          row.id,
+          {
+            fact: replacement.fact,
+            ...(replacement.context !== undefined && {
+              context: replacement.context,
+            }),
+          },
+          this.factAuthor(args),
+          true
+        );
+      }
+      facts.push({
+        id: row.id,
+        category: row.category,
+        scope: row.projectId === null ? "global" : "project",
+        ...(row.deleted && { deleted: true }),
+        findings,
+        ...(fixer && { fixed }),
+      });
+    }
+
+    // Earlier revisions keep the text a fact had before it was changed or
+    // fixed, so they are rewritten in place rather than revised
+    const storedRevisions = await this.database.getStoredRevisionText(scope);
+    const revisions = [];
+    for (const row of storedRevisions) {
+      const text = { fact: row.fact, context: row.context ?? undefined };
+      const findings = this.factGuard.scan(text);
+      if (findings.length === 0) continue;
+
+      let fixed = false;
+      if (fixer) {
+        const replacement = fixer.protect(text);
+        fixed = await this.database.updateRevisionText(
+          row.factId,
+          row.revision,
+          replacement
+        );
+      }
+      revisions.push({
+        factId: row.factId,
+        revision: row.revision,
+        findings,
+        ...(fixer && { fixed }),
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              policy: this.factGuard.policy,
+              scanned: stored.length,
+              withFindings: facts.length,
+              fixed: fixer
+                ? facts.filter((fact) => fact.fixed).length
+                : undefined,
+              facts,
+              revisionsScanned: storedRevisions.length,
+              revisions,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Applies the secret policy to a fact's text before it is stored.
+   */
+  private protectFactText(
+    text: FactText
+  ): FactText & { findings: SensitiveFinding[] } {
+    try {
+      return this.factGuard.protect(text);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+  }
+
+  private describeProtection(findings: SensitiveFinding[]): string {
+    if (findings.length === 0) return "";
+    return `\nSensitive data was ${
+      this.factGuard.policy === "encrypt" ? "encrypted" : "redacted"
+    } before storing: ${describeFindings(findings)}`;
+  }
+
+  private parseScope<T extends FactScope>(
+    raw: unknown,
+    allowed: readonly T[]
+  ): T | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (!allowed.includes(raw as T)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `scope must be one of: ${allowed.join(", ")}`
+      );
+    }
+    return raw as T;
+  }
+
+  private async updateFact(args: any) {
+    const id = this.parseFactId(args);
+    const updates: Partial<
+      Pick<StoredFact, "category" | "fact" | "context" | "tags">
+    > & { scope?: (typeof STORED_SCOPES)[number] } = {};
+
+    for (const field of ["category", "fact", "context"] as const) {
+      if (args[field] === undefined) continue;
+      if (typeof args[field] !== "string") {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${field} must be a string`
+        );
+      }
+      if (field !== "context" && args[field].trim() === "") {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${field} must not be empty`
+        );
+      }
+      updates[field] = args[field];
+    }
+
+    if (args.tags !== undefined) {
+      if (
+        !Array.isArray(args.tags) ||
+        args.tags.some((tag: unknown) => typeof tag !== "string")
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "tags must be an array of strings"
+        );
+      }
+      updates.tags = args.tags;
+    }
+
+    updates.scope = this.parseScope(args.scope, STORED_SCOPES);
+    if (updates.scope === undefined) delete updates.scope;
+
+    if (updates.fact !== undefined || updates.context !== undefined) {
+      const text = this.protectFactText({
+        fact: updates.fact ?? "",
+        context: updates.context,
+      });
+      if (updates.fact !== undefined) updates.fact = text.fact;
+      if (updates.context !== undefined) updates.context = text.context;
+    }
+
+    const anchors =
+      args.anchors !== undefined
+        ? await this.freshness.hashAnchors(this.parseAnchors(args.anchors))
+        : undefined;
+
+    if (Object.keys(updates).length === 0 && !anchors) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "At least one of category, fact, context, tags, anchors or scope must be provided"
+      );
+    }
+
+    // Anchors are relative to a project, so global facts cannot keep any
+    const existing = await this.database.getFactById(id);
+    if (!existing) {
+      throw new McpError(ErrorCode.InvalidParams, `Fact ${id} not found`);
+    }
+    const willBeGlobal =
+      updates.scope === "global" ||
+      (updates.scope === undefined && existing.projectId === null);
+    const keepsAnchors = anchors
+      ? anchors.length > 0
+      : (existing.anchors ?? []).length > 0;
+    if (willBeGlobal && keepsAnchors) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Global facts cannot have anchors; pass anchors: [] to unlink the fact from code first"
+      );
+    }
+
+    const updated = await this.database.updateFact(
+      id,
+      { ...updates, ...(anchors && { anchors }) },
+      this.factAuthor(args)
+    );
+    if (!updated) {
+      throw new McpError(ErrorCode.InvalidParams, `Fact ${id} not found`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(await this.database.getFactById(id), null, 2),
+        },
+      ],
+    };
+  }
+
+  private async deleteFact(args: any) {
+    const id = this.parseFactId(args);
+    const permanent = args?.permanent === true;
+
+    // Fetch first so the response can echo what was removed; a deleted fact
+    // can still be removed permanently
+    const fact = await this.database.getFactById(id, permanent);
+    if (
+      !fact ||
+      !(await this.database.deleteFact(id, this.factAuthor(args), permanent))
+    ) {
+      throw new McpError(ErrorCode.InvalidParams, `Fact ${id} not found`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              deleted: fact,
+              restorable: !permanent,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async restoreFact(args: any) {
+    const id = this.parseFactId(args);
+    if (!(await this.database.restoreFact(id, this.factAuthor(args)))) {
+      const fact = await this.database.getFactById(id);
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        fact ? `Fact ${id} is not deleted` : `Fact ${id} not found`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            { restored: await this.database.getFactById(id) },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async revertFact(args: any) {
+    const id = this.parseFactId(args);
+    const revision = args?.revision;
+    if (!Number.isInteger(revision) || revision < 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "revision must be a positive integer"
+      );
+    }
+
+    const fact = await this.database.getFactById(id, true);
+    if (!fact) {
+      throw new McpError(ErrorCode.InvalidParams, `Fact ${id} not found`);
+    }
+    if (fact.deletedAt) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Fact ${id} is deleted; restore it with restore_fact first`
+      );
+    }
+    if (
+      !(await this.database.revertFact(id, revision, this.factAuthor(args)))
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Fact ${id} has no revision ${revision}`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(await this.database.getFactById(id), null, 2),
+        },
+      ],
+    };
+  }
+
+  private async factHistory(args: any) {
+    const scope = this.parseScope(args?.scope, FACT_SCOPES) ?? "all";
+    const action = args?.action;
+    if (action !== undefined && !REVISION_ACTIONS.includes(action)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `action must be one of: ${REVISION_ACTIONS.join(", ")}`
+      );
+    }
+
+    if (args?.id === undefined) {
+      const limit = args?.limit ?? 20;
+      if (!Number.isInteger(limit) || limit < 1) {
         throw new McpError(
-          ErrorCode.InternalError,
-          `Error executing tool ${name}: ${error}`
+          ErrorCode.InvalidParams,
+          "limit must be a positive integer"
         );
       }
+      const revisions = await this.database.getFactRevisions({
+        action,
+        limit,
+        scope,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ revisions }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const id = this.parseFactId(args);
+    const fact = await this.database.getFactById(id, true);
+    if (!fact) {
+      throw new McpError(ErrorCode.InvalidParams, `Fact ${id} not found`);
+    }
+    const revisions = await this.database.getFactRevisions({
+      factId: id,
+      action,
+      scope,
     });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              fact,
+              deleted: fact.deletedAt !== undefined,
+              revisions,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
   }
 
-  private async setupProjectRules(
-    forceUpdate: boolean = false,
-    backupExisting: boolean = true,
-    deployedBy?: string,
-    workspacePath?: string
-  ) {
+  /**
+   * Who a change to facts is recorded as made by: the `author` (or
+   * `deployed_by`) argument, or else the name the MCP client gave.
+   */
+  private factAuthor(args: any): string | undefined {
+    const author = args?.author ?? args?.deployed_by;
+    if (typeof author === "string" && author.trim()) return author.trim();
+    return this.server.getClientVersion()?.name;
+  }
+
+  /**
+   * Loads the selected packs; relative pack paths are resolved against the
+   * workspace the rules are for.
+   */
+  private async loadRulePacks(
+    specs: unknown,
+    workspaceRoot: string
+  ): Promise<{ packs: RulePack[]; rules: ResolvedRule[] }> {
+    const selected = specs ?? [DEFAULT_RULE_PACK];
+    if (
+      !Array.isArray(selected) ||
+      selected.length === 0 ||
+      selected.some((spec) => typeof spec !== "string" || !spec.trim())
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "packs must be a non-empty array of pack names or paths"
+      );
+    }
+
     try {
-      // Path validation: use as-is if ends with .cursor/rules, else append
-      let rulesDir: string;
-      if (workspacePath) {
-        if (workspacePath.endsWith(path.join(".cursor", "rules"))) {
-          rulesDir = workspacePath;
-        } else {
-          rulesDir = path.join(workspacePath, ".cursor", "rules");
-        }
-      } else {
-        rulesDir = path.join(process.cwd(), ".cursor", "rules");
-      }
-      const baseDir = path.dirname(rulesDir);
-      console.error("setupProjectRules: resolved rulesDir:", rulesDir);
+      return await resolveRulePacks(selected, workspaceRoot);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+  }
 
-      // Check if rulesDir is writable or can be created
-      try {
-        await fs.mkdir(rulesDir, { recursive: true });
-        // Try to write a temp file to check permissions
-        const testFile = path.join(rulesDir, ".write_test");
-        await fs.writeFile(testFile, "test");
-        await fs.unlink(testFile);
-      } catch (err) {
-        throw new Error(
-          `Cannot write to rules directory: ${rulesDir}. Error: ${err}`
-        );
-      }
+  /**
+   * Loads the selected packs, picks the rules for the project's stack and
+   * renders their templates with the project's variables. `previous`
+   * supplies defaults for the selection parameters, so a status check
+   * compares against what the last deployment selected.
+   */
+  private async selectProjectRules(
+    args: any,
+    previous?: RuleDeploymentProfile
+  ): Promise<{
+    packs: RulePack[];
+    rules: ResolvedRule[];
+    profile: RuleDeploymentProfile;
+  }> {
+    const workspaceRoot = this.resolveWorkspaceRoot(args?.workspace_path);
+    const { packs, rules } = await this.loadRulePacks(
+      args?.packs,
+      workspaceRoot
+    );
+    const includeCategories = this.parseCategories(
+      args?.include_categories ?? previous?.includeCategories,
+      "include_categories"
+    );
+    const excludeCategories = this.parseCategories(
+      args?.exclude_categories ?? previous?.excludeCategories,
+      "exclude_categories"
+    );
+    const detect = args?.detect_stack ?? previous?.detected ?? true;
+    if (typeof detect !== "boolean") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "detect_stack must be a boolean"
+      );
+    }
+
+    const stack = detect ? await detectProjectStack(workspaceRoot) : undefined;
+    let selected;
+    try {
+      selected = selectRules(rules, {
+        stack,
+        include: includeCategories,
+        exclude: excludeCategories,
+      });
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
 
-      const now = new Date();
-      const timestamp = now.toISOString();
+    // Pack defaults, then the stack, then the project's own settings
+    let rendered;
+    try {
+      const projectVariables = await readRuleVariables(workspaceRoot);
+      rendered = renderRules(selected.rules, packs, {
+        projectName: this.project.name,
+        ...(stack ? stackVariables(stack) : {}),
+        ...projectVariables,
+      });
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
 
-      // Check if rules directory exists and get current files
-      let existingFiles: string[] = [];
-      let existingHashes: Map<string, string> = new Map();
+    return {
+      packs,
+      rules: rendered,
+      profile: {
+        languages: stack?.languages ?? [],
+        frameworks: stack?.frameworks ?? [],
+        testFrameworks: stack?.testFrameworks ?? [],
+        packageManager: stack?.packageManager,
+        detected: detect,
+        includeCategories,
+        excludeCategories,
+        categories: Array.from(
+          new Set(
+            selected.rules.map(
+              (rule) => rule.category ?? rule.filename.replace(/\.mdc$/, "")
+            )
+          )
+        ),
+        skipped: selected.skipped.map(({ category, reason }) => ({
+          category,
+          reason,
+        })),
+      },
+    };
+  }
 
-      try {
-        const files = await fs.readdir(rulesDir);
-        existingFiles = files.filter((f) => f.endsWith(".mdc"));
-
-        // Read existing files and compute hashes
-        for (const filename of existingFiles) {
-          try {
-            const content = await fs.readFile(
-              path.join(rulesDir, filename),
-              "utf-8"
-            );
-            existingHashes.set(filename, this.database.generateHash(content));
-          } catch (error) {
-            // File might not be readable, skip it
-          }
-        }
-      } catch (error) {
-        // Directory doesn't exist, which is fine for first setup
+  private parseCategories(raw: unknown, name: string): string[] {
+    if (raw === undefined) return [];
+    if (
+      !Array.isArray(raw) ||
+      raw.some((category) => typeof category !== "string" || !category.trim())
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${name} must be an array of rule category names`
+      );
+    }
+    return Array.from(new Set(raw as string[]));
+  }
+
+  private parseTargets(raw: unknown): RuleTargetName[] {
+    const selected = raw ?? ["cursor"];
+    if (
+      !Array.isArray(selected) ||
+      selected.length === 0 ||
+      selected.some((target) => !RULE_TARGETS.includes(target))
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `targets must be a non-empty array of: ${RULE_TARGETS.join(", ")}`
+      );
+    }
+    return Array.from(new Set(selected as RuleTargetName[]));
+  }
+
+  private resolveWorkspaceRoot(workspacePath?: string): string {
+    let workspaceRoot = workspacePath
+      ? path.resolve(workspacePath)
+      : this.project.root;
+    // Older clients pass the .cursor/rules directory itself
+    if (workspaceRoot.endsWith(path.join(".cursor", "rules"))) {
+      workspaceRoot = path.dirname(path.dirname(workspaceRoot));
+    }
+    return workspaceRoot;
+  }
+
+  private async rulesStatus(args: any) {
+    const latest = await this.database.getLatestRuleDeployment();
+    // Deployments from before stack detection included every rule
+    const { packs, rules, profile } = await this.selectProjectRules(
+      args,
+      latest?.profile ??
+        (latest
+          ? {
+              languages: [],
+              frameworks: [],
+              testFrameworks: [],
+              detected: false,
+              includeCategories: [],
+              excludeCategories: [],
+              categories: [],
+              skipped: [],
+            }
+          : undefined)
+    );
+    const targets = this.parseTargets(args?.targets ?? latest?.targets);
+
+    const report = await this.rulesDeployer.status(
+      {
+        workspaceRoot: this.resolveWorkspaceRoot(args?.workspace_path),
+        packs,
+        rules,
+        targets,
+      },
+      args?.clean_orphans || false
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              targets,
+              stack: profile.detected
+                ? {
+                    languages: profile.languages,
+                    frameworks: profile.frameworks,
+                  }
+                : undefined,
+              skipped: profile.skipped,
+              ...report,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async listRuleDeployments(args: any) {
+    const limit = args?.limit ?? 20;
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "limit must be a positive integer"
+      );
+    }
+
+    const deployments = [];
+    for (const deployment of await this.database.getRuleDeploymentHistory(
+      limit
+    )) {
+      let backup = null;
+      if (deployment.backupPath) {
+        const exists = await fs
+          .access(deployment.backupPath)
+          .then(() => true)
+          .catch(() => false);
+        backup = {
+          path: path.relative(this.project.root, deployment.backupPath),
+          exists,
+        };
       }
 
-      // Get the latest deployment info
-      const latestDeployment = await this.database.getLatestRuleDeployment();
-      const latestRuleFiles = await this.database.getLatestRuleFiles();
+      deployments.push({
+        id: deployment.id,
+        templateVersion: deployment.templateVersion,
+        deployedAt: deployment.deployedAt,
+        deployedBy: deployment.deployedBy,
+        totalFiles: deployment.totalFiles,
+        packs: deployment.packs,
+        targets: deployment.targets,
+        rollbackOf: deployment.rollbackOf,
+        profile: deployment.profile,
+        backup,
+        files: args?.include_files
+          ? (await this.database.getRuleFiles(deployment.id)).map((file) => ({
+              target: file.target,
+              filename: file.filename,
+              contentHash: file.contentHash,
+              pack: file.packName
+                ? `${file.packName}@${file.packVersion}`
+                : undefined,
+              // Without stored content a rollback needs a matching backup
+              contentStored: file.content !== undefined,
+            }))
+          : undefined,
+      });
+    }
 
-      // Generate new rule contents with metadata
-      const newRules = CURSOR_RULES_TEMPLATES.map((template) => ({
-        ...template,
-        content: template.content.replace(/\{timestamp\}/g, timestamp),
-      }));
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ deployments }, null, 2),
+        },
+      ],
+    };
+  }
 
-      // Compute hashes for new rules
-      const newHashes = new Map(
-        newRules.map((rule) => [
-          rule.filename,
-          this.database.generateHash(rule.content),
-        ])
+  private async validateRules(args: any) {
+    const scope = args?.scope ?? "all";
+    if (!["all", "packs", "workspace"].includes(scope)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "scope must be all, packs or workspace"
+      );
+    }
+    const maxBodyLines = args?.max_body_lines ?? DEFAULT_MAX_BODY_LINES;
+    if (
+      typeof maxBodyLines !== "number" ||
+      !Number.isInteger(maxBodyLines) ||
+      maxBodyLines < 1
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "max_body_lines must be a positive integer"
       );
+    }
 
-      // Check if update is needed
-      if (existingFiles.length > 0 && !forceUpdate) {
-        // Check if any files have changed since last deployment
-        const hasChanges = latestRuleFiles.some((ruleFile) => {
-          const currentHash = existingHashes.get(ruleFile.filename);
-          return currentHash && currentHash !== ruleFile.contentHash;
-        });
+    const files: {
+      source: "pack" | "workspace";
+      pack?: string;
+      path: string;
+      diagnostics: RuleDiagnostic[];
+    }[] = [];
+
+    if (scope !== "workspace") {
+      // The templates as they combine, so later packs replace earlier files
+      const { packs, rules } = await this.loadRulePacks(
+        args?.packs,
+        this.resolveWorkspaceRoot(args?.workspace_path)
+      );
+      const fragments = packs.flatMap((pack) => Object.keys(pack.fragments));
+      const results = validateRuleSet(
+        rules.map((rule) => ({ path: rule.filename, content: rule.content })),
+        { maxBodyLines, templateFragments: fragments }
+      );
+      results.forEach((result, index) =>
+        files.push({
+          source: "pack",
+          pack: `${rules[index].pack}@${rules[index].packVersion}`,
+          ...result,
+        })
+      );
+    }
 
-        const hasNewTemplate = newRules.some((rule) => {
-          const existingHash = existingHashes.get(rule.filename);
-          const newHash = newHashes.get(rule.filename);
-          return !existingHash || existingHash !== newHash;
+    if (scope !== "packs") {
+      const workspaceRoot = this.resolveWorkspaceRoot(args?.workspace_path);
+      const rulesDir = path.join(workspaceRoot, ".cursor", "rules");
+      const workspaceFiles = [];
+      for (const relative of await this.listMdcFiles(rulesDir)) {
+        workspaceFiles.push({
+          path: path.posix.join(".cursor/rules", relative),
+          content: await fs.readFile(path.join(rulesDir, relative), "utf-8"),
         });
+      }
+      for (const result of validateRuleSet(workspaceFiles, { maxBodyLines })) {
+        files.push({ source: "workspace", ...result });
+      }
+    }
 
-        if (!hasChanges && !hasNewTemplate) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "Project rules are already up to date. Use force_update=true to overwrite.",
-              },
-            ],
-          };
-        }
+    const count = (severity: RuleDiagnostic["severity"]) =>
+      files.reduce(
+        (total, file) =>
+          total +
+          file.diagnostics.filter(
+            (diagnostic) => diagnostic.severity === severity
+          ).length,
+        0
+      );
+    const errors = count("error");
 
-        // Rules have been modified since last deployment
-        if (hasChanges) {
-          const modificationWarning = `
-WARNING: Some .cursor/rules files have been manually modified since the last deployment.
-- Last deployed: ${latestDeployment?.deployedAt || "Unknown"}
-- Last deployed by: ${latestDeployment?.deployedBy || "Unknown"}
-- Use force_update=true to overwrite the modifications.
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              valid: errors === 0,
+              errors,
+              warnings: count("warning"),
+              files,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
 
-Modified files detected:
-${latestRuleFiles
-  .filter((rf) => {
-    const currentHash = existingHashes.get(rf.filename);
-    return currentHash && currentHash !== rf.contentHash;
-  })
-  .map((rf) => `  - ${rf.filename}`)
-  .join("\n")}
-          `;
+  private async explainRulesForFile(args: any) {
+    if (typeof args?.path !== "string" || !args.path.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, "path is required");
+    }
+    const workspaceRoot = this.resolveWorkspaceRoot(args?.workspace_path);
+    let filePath: string;
+    try {
+      filePath = normalizeAnchorPath(args.path, workspaceRoot);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: modificationWarning.trim(),
-              },
-            ],
-          };
-        }
+    const rules = await this.readWorkspaceRules(workspaceRoot);
+    const explanation = explainRulesForFile(rules, filePath);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              ...explanation,
+              exists: await fs
+                .stat(path.join(workspaceRoot, filePath))
+                .then((stats) => stats.isFile())
+                .catch(() => false),
+              rules: rules.length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async rulesCoverage(args: any) {
+    const maxFiles = args?.max_files ?? DEFAULT_COVERAGE_MAX_FILES;
+    const limit = args?.limit ?? 50;
+    for (const [name, value] of [
+      ["max_files", maxFiles],
+      ["limit", limit],
+    ]) {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${name} must be a positive integer`
+        );
       }
+    }
 
-      // Create .cursor/rules directory if it doesn't exist
-      await fs.mkdir(rulesDir, { recursive: true });
+    const workspaceRoot = this.resolveWorkspaceRoot(args?.workspace_path);
+    const rules = await this.readWorkspaceRules(workspaceRoot);
+    const { files, truncated } = await listWorkspaceFiles(
+      workspaceRoot,
+      maxFiles
+    );
+    const report = measureRuleCoverage(rules, files, truncated, limit);
 
-      let backupPath: string | undefined;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(report, null, 2),
+        },
+      ],
+    };
+  }
 
-      // Create backup if requested and files exist
-      if (backupExisting && existingFiles.length > 0) {
-        const backupDir = path.join(rulesDir, "backups");
-        const backupTimestamp = now.toISOString().replace(/[:.]/g, "-");
-        backupPath = path.join(backupDir, `backup-${backupTimestamp}`);
-        await fs.mkdir(backupPath, { recursive: true });
+  private async checkCompliance(args: any) {
+    const maxFiles = args?.max_files ?? DEFAULT_COVERAGE_MAX_FILES;
+    const limit = args?.limit ?? 20;
+    const minFiles = args?.min_files ?? 3;
+    for (const [name, value] of [
+      ["max_files", maxFiles],
+      ["limit", limit],
+      ["min_files", minFiles],
+    ]) {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${name} must be a positive integer`
+        );
+      }
+    }
+    const remember = args?.remember ?? false;
+    if (typeof remember !== "boolean") {
+      throw new McpError(ErrorCode.InvalidParams, "remember must be a boolean");
+    }
+    const checks = this.selectComplianceChecks(args?.checks, args?.categories);
 
-        // Backup existing files
-        for (const filename of existingFiles) {
-          const sourcePath = path.join(rulesDir, filename);
-          const backupFilePath = path.join(backupPath, filename);
-          await fs.copyFile(sourcePath, backupFilePath);
-        }
+    // The same values the rules were rendered with, e.g. maxLineLength
+    const workspaceRoot = this.resolveWorkspaceRoot(args?.workspace_path);
+    const { packs } = await this.loadRulePacks(args?.packs, workspaceRoot);
+    let variables: TemplateVariables;
+    try {
+      variables = Object.assign(
+        {},
+        ...packs.map((pack) => pack.variables),
+        await readRuleVariables(workspaceRoot)
+      );
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+
+    const rules = await this.readWorkspaceRules(workspaceRoot);
+    const { files, truncated } = await listWorkspaceFiles(
+      workspaceRoot,
+      maxFiles
+    );
+    const { results, skipped } = await runComplianceChecks(
+      workspaceRoot,
+      files,
+      rules,
+      checks,
+      variables
+    );
+
+    const byRule = new Map<string, any>();
+    const byFile = new Map<string, any[]>();
+    for (const { check, rule, filesChecked, findings } of results) {
+      let ruleEntry = byRule.get(rule.path);
+      if (!ruleEntry) {
+        ruleEntry = { rule: rule.path, violations: 0, checks: [] };
+        byRule.set(rule.path, ruleEntry);
       }
+      ruleEntry.violations += findings.length;
+      ruleEntry.checks.push({
+        id: check.id,
+        description: check.description,
+        severity: check.severity,
+        filesChecked,
+        violations: findings.length,
+        files: new Set(findings.map((finding) => finding.file)).size,
+        findings: findings.slice(0, limit),
+      });
 
-      // Store deployment record
-      const deploymentId = await this.database.storeRuleDeployment(
-        TEMPLATE_VERSION,
-        newRules.length,
-        deployedBy,
-        backupPath
+      for (const { file, line, message } of findings) {
+        if (!byFile.has(file)) byFile.set(file, []);
+        byFile
+          .get(file)!
+          .push({ check: check.id, severity: check.severity, line, message });
+      }
+    }
+    const fileEntries = Array.from(byFile, ([file, findings]) => ({
+      path: file,
+      violations: findings.length,
+      findings: findings.sort((a, b) => (a.line ?? 0) - (b.line ?? 0)),
+    })).sort(
+      (a, b) => b.violations - a.violations || a.path.localeCompare(b.path)
+    );
+
+    const count = (severity: ComplianceCheck["severity"]) =>
+      results
+        .filter((result) => result.check.severity === severity)
+        .reduce((total, result) => total + result.findings.length, 0);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              filesScanned: files.length,
+              truncated,
+              errors: count("error"),
+              warnings: count("warning"),
+              rules: Array.from(byRule.values()),
+              filesWithFindings: fileEntries.length,
+              files: fileEntries.slice(0, limit),
+              skipped: skipped.map(({ check, reason }) => ({
+                check: check.id,
+                category: check.category,
+                reason,
+              })),
+              facts: remember
+                ? await this.rememberComplianceViolations(
+                    results,
+                    minFiles,
+                    workspaceRoot,
+                    this.factAuthor(args)
+                  )
+                : undefined,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private selectComplianceChecks(
+    ids: unknown,
+    categories: unknown
+  ): ComplianceCheck[] {
+    let checks = COMPLIANCE_CHECKS;
+    if (ids !== undefined) {
+      const known = COMPLIANCE_CHECKS.map((check) => check.id);
+      if (
+        !Array.isArray(ids) ||
+        ids.some((id) => typeof id !== "string" || !known.includes(id))
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `checks must be an array of: ${known.join(", ")}`
+        );
+      }
+      checks = checks.filter((check) => ids.includes(check.id));
+    }
+    const selected = this.parseCategories(categories, "categories");
+    if (selected.length > 0) {
+      const known = new Set(COMPLIANCE_CHECKS.map((check) => check.category));
+      const unknown = selected.filter((category) => !known.has(category));
+      if (unknown.length > 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `No compliance checks for categories: ${unknown.join(", ")}`
+        );
+      }
+      checks = checks.filter((check) => selected.includes(check.category));
+    }
+    return checks;
+  }
+
+  /**
+   * Records each check that fails in at least `minFiles` files as a fact,
+   * anchored to a few of those files so it comes up while working on them.
+   * A check has one fact, which later runs update.
+   */
+  private async rememberComplianceViolations(
+    results: ComplianceResult[],
+    minFiles: number,
+    workspaceRoot: string,
+    author?: string
+  ) {
+    const facts = [];
+    for (const { check, rule, findings } of results) {
+      const files = Array.from(
+        new Set(findings.map((finding) => finding.file))
       );
+      if (files.length < minFiles) continue;
 
-      // Write the new rule files
-      const deployedFiles: string[] = [];
-      for (const rule of newRules) {
-        const filePath = path.join(rulesDir, rule.filename);
+      const tag = `compliance:${check.id}`;
+      const fact = `Recurring compliance violation (${check.id}) in ${
+        files.length
+      } file${files.length === 1 ? "" : "s"}: ${check.description}`;
+      const context = `Rule: ${rule.path}, Findings: ${
+        findings.length
+      }, Files include: ${files.slice(0, 5).join(", ")}`;
+      const anchors: FactAnchorInput[] = [];
+      for (const file of files.slice(0, 5)) {
         try {
-          await fs.writeFile(filePath, rule.content, "utf-8");
-        } catch (err) {
-          throw new Error(
-            `Failed to write rule file: ${filePath}. Error: ${err}`
-          );
+          anchors.push({
+            filePath: normalizeAnchorPath(
+              path.join(workspaceRoot, file),
+              this.project.root
+            ),
+          });
+        } catch (error) {
+          // The workspace is outside the project; keep the fact unanchored
         }
-        // Store individual file record
-        await this.database.storeRuleFile(
-          deploymentId,
-          rule.filename,
-          newHashes.get(rule.filename)!
+      }
+      const hashed = await this.freshness.hashAnchors(anchors);
+
+      const [existing] = await this.database.getFacts(
+        "compliance",
+        [tag],
+        undefined,
+        1
+      );
+      if (existing) {
+        await this.database.updateFact(
+          existing.id,
+          { fact, context, anchors: hashed },
+          author
+        );
+        facts.push({ check: check.id, factId: existing.id, action: "updated" });
+      } else {
+        const factId = await this.database.storeFact(
+          "compliance",
+          fact,
+          context,
+          ["compliance", tag],
+          hashed,
+          "project",
+          author
         );
-        deployedFiles.push(rule.filename);
+        facts.push({ check: check.id, factId, action: "created" });
+      }
+    }
+    return facts;
+  }
+
+  /**
+   * Reads where each rule in the workspace's .cursor/rules applies.
+   */
+  private async readWorkspaceRules(
+    workspaceRoot: string
+  ): Promise<RuleDefinition[]> {
+    const rulesDir = path.join(workspaceRoot, ".cursor", "rules");
+    const rules: RuleDefinition[] = [];
+    for (const relative of await this.listMdcFiles(rulesDir)) {
+      rules.push(
+        readRuleDefinition(
+          path.posix.join(".cursor/rules", relative),
+          await fs.readFile(path.join(rulesDir, relative), "utf-8")
+        )
+      );
+    }
+    return rules;
+  }
+
+  /**
+   * Lists the .mdc files under `dir`, relative to it, skipping the backups
+   * older versions kept inside .cursor/rules.
+   */
+  private async listMdcFiles(dir: string, prefix = ""): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(dir, prefix), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relative = path.posix.join(prefix, entry.name);
+      if (entry.isDirectory() && relative !== "backups") {
+        files.push(...(await this.listMdcFiles(dir, relative)));
+      } else if (entry.isFile() && entry.name.endsWith(".mdc")) {
+        files.push(relative);
       }
+    }
+    return files;
+  }
 
-      // Verify all files exist after writing
-      for (const filename of deployedFiles) {
-        const filePath = path.join(rulesDir, filename);
-        try {
-          await fs.access(filePath);
-        } catch (err) {
-          throw new Error(`Rule file missing after write: ${filePath}`);
-        }
+  private async rollbackRules(args: any) {
+    const deploymentId = args?.deployment_id;
+    if (typeof deploymentId !== "number" || !Number.isInteger(deploymentId)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "deployment_id must be an integer"
+      );
+    }
+    if (!(await this.database.getRuleDeployment(deploymentId))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Rule deployment ${deploymentId} not found`
+      );
+    }
+
+    const workspaceRoot = this.resolveWorkspaceRoot(args?.workspace_path);
+    const outcome = await this.rulesDeployer.rollback({
+      workspaceRoot,
+      deploymentId,
+      backupExisting: args?.backup_existing !== false,
+      deployedBy: args?.deployed_by,
+    });
+
+    await this.database.storeFact(
+      "project-setup",
+      `Project rules rolled back to deployment ${deploymentId} (${outcome.rolledBackTo.templateVersion})`,
+      `Rolled back by: ${
+        args?.deployed_by || "Unknown"
+      }, Restored: ${outcome.files
+        .filter((file) => file.changed)
+        .map((file) => file.path)
+        .join(", ")}`,
+      ["cursor-rules", "deployment", "rollback"],
+      [],
+      "project",
+      this.factAuthor(args)
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              ...outcome,
+              backupPath: outcome.backupPath
+                ? path.relative(workspaceRoot, outcome.backupPath)
+                : undefined,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async setupProjectRules(
+    forceUpdate: boolean = false,
+    backupExisting: boolean = true,
+    deployedBy?: string,
+    workspacePath?: string,
+    selection?: {
+      packs: RulePack[];
+      rules: ResolvedRule[];
+      profile?: RuleDeploymentProfile;
+    },
+    targets: RuleTargetName[] = ["cursor"],
+    merge: boolean = false,
+    dryRun: boolean = false
+  ) {
+    try {
+      const workspaceRoot = this.resolveWorkspaceRoot(workspacePath);
+      console.error("setupProjectRules: resolved workspace:", workspaceRoot);
+
+      const { packs, rules, profile } =
+        selection ??
+        (await this.selectProjectRules({ workspace_path: workspacePath }));
+      const request = {
+        workspaceRoot,
+        packs,
+        rules,
+        profile,
+        targets,
+        forceUpdate,
+        merge,
+        backupExisting,
+        deployedBy,
+      };
+
+      if (dryRun) {
+        const plan = await this.rulesDeployer.preview(request);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, profile, ...plan }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const outcome = await this.rulesDeployer.deploy(request);
+
+      if (outcome.status === "up-to-date") {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Project rules are already up to date. Use force_update=true to overwrite.",
+            },
+          ],
+        };
+      }
+
+      // Rules have been modified since last deployment
+      if (outcome.status === "locally-modified") {
+        const modificationWarning = `
+WARNING: Some rule files have been manually modified since the last deployment.
+- Last deployed: ${outcome.lastDeployment?.deployedAt || "Unknown"}
+- Last deployed by: ${outcome.lastDeployment?.deployedBy || "Unknown"}
+- Use merge=true to keep the modifications and merge in the new rules, or force_update=true to overwrite them.
+
+Modified files detected:
+${outcome.changed
+  .map(
+    (file) =>
+      `  - ${file.path}${
+        file.change === "unmanaged" ? " (not created by this server)" : ""
+      }`
+  )
+  .join("\n")}
+        `;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: modificationWarning.trim(),
+            },
+          ],
+        };
       }
 
+      const {
+        templateVersion,
+        files,
+        deploymentId,
+        backupPath,
+        merged,
+        prunedBackups,
+      } = outcome;
+      const conflicted = merged.filter((file) => file.conflicts.length > 0);
+      const stackSummary = profile?.detected
+        ? [...profile.languages, ...profile.frameworks].join(", ") ||
+          "none recognised"
+        : "detection off";
+
       // Store a fact about this deployment
       await this.database.storeFact(
         "project-setup",
-        `Cursor project rules deployed (v${TEMPLATE_VERSION}) - ${newRules.length} files`,
-        `Deployed by: ${deployedBy || "Unknown"}, Files: ${deployedFiles.join(
+        `Project rules deployed (${templateVersion}) for ${targets.join(
           ", "
-        )}`,
-        ["cursor-rules", "deployment", "project-setup", "mdc-format"]
+        )} - ${files.length} files`,
+        `Deployed by: ${
+          deployedBy || "Unknown"
+        }, Stack: ${stackSummary}, Files: ${files
+          .map((file) => file.path)
+          .join(", ")}`,
+        ["cursor-rules", "deployment", "project-setup", ...targets],
+        [],
+        "project",
+        this.factAuthor({ deployed_by: deployedBy })
       );
 
+      const filesByTarget = targets
+        .map((target) => {
+          const definition = RULE_TARGET_DEFINITIONS[target];
+          const paths = files
+            .filter((file) => file.target === target)
+            .map((file) => `    - ${file.path}`);
+          return [`  ${definition.description}:`, ...paths].join("\n");
+        })
+        .join("\n");
+
+      const mergeSummary =
+        merged.length > 0
+          ? `\n\n🔀 Merged Local Modifications:\n${merged
+              .map(
+                (file) =>
+                  `  - ${file.path}: ${
+                    file.conflicts.length > 0
+                      ? `${file.conflicts.length} conflict(s), resolve the <<<<<<< markers`
+                      : "merged cleanly"
+                  }`
+              )
+              .join("\n")}`
+          : "";
+
+      const categories =
+        profile?.categories ??
+        Array.from(
+          new Set(
+            rules.map(
+              (rule) => rule.category ?? rule.filename.replace(/\.mdc$/, "")
+            )
+          )
+        );
       const successMessage = `
-✅ Cursor project rules successfully ${
-        existingFiles.length > 0 ? "updated" : "created"
-      }!
+✅ Project rules successfully ${outcome.created ? "created" : "updated"}!
 
 📋 Deployment Details:
-- Template version: ${TEMPLATE_VERSION}
-- Deployed at: ${timestamp}
+- Rule packs: ${templateVersion}
+- Targets: ${targets.join(", ")}
+- Detected stack: ${stackSummary}${
+        profile && profile.skipped.length > 0
+          ? `\n- Rules skipped: ${profile.skipped
+              .map((skip) => `${skip.category} (${skip.reason})`)
+              .join(", ")}`
+          : ""
+      }
+- Deployed at: ${outcome.deployedAt}
 - Deployed by: ${deployedBy || "Unknown"}
-- Files deployed: ${newRules.length}
+- Files deployed: ${files.length}
 - Deployment ID: ${deploymentId}
-${backupPath ? `- Backup created: ${path.relative(baseDir, backupPath)}` : ""}
-
-📍 Rules location: .cursor/rules/
+${
+  backupPath
+    ? `- Backup created: ${path.relative(workspaceRoot, backupPath)}`
+    : ""
+}${
+        prunedBackups.length > 0
+          ? `\n- Old backups removed: ${prunedBackups.length}`
+          : ""
+      }
 
 📄 Deployed Files:
-${deployedFiles.map((f) => `  - ${f}`).join("\n")}
+${filesByTarget}${mergeSummary}
 
-The rules are now organized by category with proper .mdc metadata:
+The rules are organized by category with proper .mdc metadata:
 - Targeted application based on file patterns
 - Configurable activation modes (always, auto-attach, etc.)
-- Modern Cursor rules format with full metadata support
+- Assistants without apply modes get a note on when each section applies
 
 These rules will help maintain consistency across your development team with:
-- Code style and formatting standards
-- Architecture and design patterns  
-- Testing requirements and best practices
-- Security guidelines and data protection
-- Performance optimization techniques
-- Documentation standards
-- Git workflow and version control
-- Accessibility compliance (WCAG 2.1)
+${categories
+  .map((category) => `- ${CATEGORY_SUMMARIES[category] ?? category}`)
+  .join("\n")}
       `;
 
       return {
@@ -452,9 +3031,19 @@ These rules will help maintain consistency across your development team with:
             type: "text",
             text: successMessage.trim(),
           },
+          // Conflicts as data, so a client can walk through them
+          ...(conflicted.length > 0
+            ? [
+                {
+                  type: "text",
+                  text: JSON.stringify({ conflicts: conflicted }, null, 2),
+                },
+              ]
+            : []),
         ],
       };
     } catch (error) {
+      if (error instanceof McpError) throw error;
       throw new McpError(
         ErrorCode.InternalError,
         `Failed to setup project rules: ${error}`
@@ -463,8 +3052,55 @@ These rules will help maintain consistency across your development team with:
   }
 
   async start() {
+    // Work out which project this server is running for
+    this.project = await resolveProject(process.cwd());
+    console.error(
+      `Project: ${this.project.name} (${this.project.id}, from ${this.project.source})`
+    );
+
+    // The database key also encrypts values for the encrypt secret policy
+    const keys = await loadDatabaseKeys();
+    this.cipher = keys ? new DatabaseCipher(keys) : null;
+    this.factGuard = createFactGuard(undefined, this.cipher);
+
     // Initialize database
-    await this.database.initialize();
+    await this.database.initialize(this.project.id);
+
+    // Encrypt fact text at rest when a database key is configured
+    this.encryption = await prepareDatabaseEncryption(
+      this.database,
+      this.cipher
+    );
+    if (this.encryption.enabled) {
+      console.error(
+        `Database encryption: key ${this.encryption.keyId} from ${this.encryption.keySource}`
+      );
+    }
+    this.freshness = new FreshnessChecker(this.database, this.project.root);
+    this.rulesDeployer = new RulesDeployer(
+      this.database,
+      loadBackupRetention()
+    );
+
+    // Set up semantic recall with the configured embedding provider
+    const embeddingProvider = createEmbeddingProvider();
+    if (embeddingProvider) {
+      this.semanticIndex = new SemanticIndex(this.database, embeddingProvider);
+    }
+
+    // Record file-change activity unless disabled
+    if (process.env.DEV_ASSISTANT_WATCH !== "off") {
+      this.watcher = new ProjectWatcher(this.database, this.project.root);
+      await this.watcher.start();
+    }
+
+    // Periodically re-check facts anchored to code for staleness
+    const freshnessMinutes = Number(
+      process.env.DEV_ASSISTANT_FRESHNESS_MINUTES ?? 30
+    );
+    if (freshnessMinutes > 0) {
+      this.freshness.start(freshnessMinutes * 60000);
+    }
 
     // Connect to stdio transport
     const transport = new StdioServerTransport();
@@ -474,6 +3110,8 @@ These rules will help maintain consistency across your development team with:
   }
 
   async stop() {
+    this.freshness?.stop();
+    await this.watcher?.stop();
     await this.database.close();
   }
 }
@@ -489,9 +3127,17 @@ process.on("SIGTERM", async () => {
   process.exit(0);
 });
 
-// Start the server
-const server = new DevAssistantServer();
-server.start().catch((error) => {
-  console.error("Failed to start server:", error);
-  process.exit(1);
-});
+// `export` and `import` run once from the command line instead of serving
+if (isCliCommand(process.argv[2])) {
+  runCli(process.argv.slice(2)).catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+} else {
+  // Start the server
+  const server = new DevAssistantServer();
+  server.start().catch((error) => {
+    console.error("Failed to start server:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,620 @@
+// Knowledge export and import - shares facts and rule history between machines
+
+import {
+  ContextDatabase,
+  FactAnchor,
+  FactAnchorInput,
+  FactScope,
+  RuleDeployment,
+  RuleFile,
+  StoredFact,
+} from "./database.js";
+import { normalizeAnchorPath } from "./anchors.js";
+import { FactGuard, FactText } from "./fact-guard.js";
+import { FreshnessChecker } from "./freshness.js";
+import { ProjectIdentity } from "./project.js";
+
+export const EXPORT_FORMATS = ["json", "jsonl", "markdown"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// "skip" - keep the existing fact as it is
+// "overwrite" - replace its context, tags and anchors with the imported ones
+// "merge" - keep the existing fact but add any tags it is missing
+export const IMPORT_STRATEGIES = ["skip", "overwrite", "merge"] as const;
+export type ImportStrategy = (typeof IMPORT_STRATEGIES)[number];
+
+export interface ExportedFact extends StoredFact {
+  contentHash: string; // Identifies the same fact across databases
+}
+
+export interface ExportedRuleDeployment extends RuleDeployment {
+  files: Pick<
+    RuleFile,
+    "target" | "filename" | "contentHash" | "packName" | "packVersion"
+  >[];
+}
+
+export interface KnowledgeExport {
+  format: typeof EXPORT_FORMAT_NAME;
+  version: number;
+  exportedAt: string;
+  project: Pick<ProjectIdentity, "id" | "name">;
+  facts: ExportedFact[];
+  ruleDeployments: ExportedRuleDeployment[];
+}
+
+export type ImportAction =
+  | "create"
+  | "update"
+  | "unchanged"
+  | "skip"
+  | "reject"; // Holds sensitive data the secret policy refuses
+
+export interface ImportItem {
+  action: ImportAction;
+  category: string;
+  fact: string;
+  scope: "project" | "global";
+  existingId?: number;
+  differences?: ("context" | "tags" | "anchors")[]; // Fields that conflict
+  droppedAnchors?: string[]; // Anchor paths outside the project
+  reason?: string; // Why the fact was rejected, or skipped as deleted
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  strategy: ImportStrategy;
+  facts: Record<ImportAction, number> & { total: number };
+  ruleDeployments: { total: number; created: number; skipped: number };
+  items: ImportItem[];
+}
+
+const EXPORT_FORMAT_NAME = "dev-assistant-knowledge";
+const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Hash of a fact's category and text, with whitespace collapsed. Facts with
+ * the same hash are treated as the same fact when importing.
+ */
+export function factContentHash(
+  database: ContextDatabase,
+  fact: Pick<StoredFact, "category" | "fact">
+): string {
+  const normalize = (text: string) => text.trim().replace(/\s+/g, " ");
+  return database.generateHash(
+    `${normalize(fact.category)}\n${normalize(fact.fact)}`
+  );
+}
+
+export async function exportKnowledge(
+  database: ContextDatabase,
+  project: ProjectIdentity,
+  scope: FactScope = "project",
+  category?: string
+): Promise<KnowledgeExport> {
+  const facts = await database.getFacts(
+    category,
+    undefined,
+    undefined,
+    -1,
+    scope
+  );
+
+  const ruleDeployments: ExportedRuleDeployment[] = [];
+  for (const deployment of await database.getRuleDeploymentHistory(-1)) {
+    const files = await database.getRuleFiles(deployment.id);
+    ruleDeployments.push({
+      ...deployment,
+      files: files.map(
+        ({ target, filename, contentHash, packName, packVersion }) => ({
+          target,
+          filename,
+          contentHash,
+          packName,
+          packVersion,
+        })
+      ),
+    });
+  }
+
+  return {
+    format: EXPORT_FORMAT_NAME,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { id: project.id, name: project.name },
+    facts: facts
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id)
+      .map((fact) => ({
+        ...fact,
+        contentHash: factContentHash(database, fact),
+      })),
+    // Oldest first, the order they are replayed in on import
+    ruleDeployments: ruleDeployments.reverse(),
+  };
+}
+
+export function serializeKnowledge(
+  data: KnowledgeExport,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(data, null, 2) + "\n";
+    case "jsonl": {
+      const { facts, ruleDeployments, ...header } = data;
+      const lines = [
+        { type: "header", ...header },
+        ...facts.map((fact) => ({ type: "fact", ...fact })),
+        ...ruleDeployments.map((deployment) => ({
+          type: "rule_deployment",
+          ...deployment,
+        })),
+      ];
+      return lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+    }
+    case "markdown":
+      return renderMarkdown(data);
+  }
+}
+
+/**
+ * Human-readable digest with facts grouped by category. It is meant for
+ * reading and reviewing; import the JSON or JSONL export instead.
+ */
+function renderMarkdown(data: KnowledgeExport): string {
+  const byCategory = new Map<string, ExportedFact[]>();
+  for (const fact of data.facts) {
+    byCategory.set(fact.category, [
+      ...(byCategory.get(fact.category) ?? []),
+      fact,
+    ]);
+  }
+
+  const lines = [
+    `# ${data.project.name} knowledge base`,
+    "",
+    `Exported ${data.exportedAt} from \`${data.project.id}\`: ${
+      data.facts.length
+    } fact${data.facts.length === 1 ? "" : "s"} in ${byCategory.size} categor${
+      byCategory.size === 1 ? "y" : "ies"
+    }.`,
+  ];
+
+  for (const category of Array.from(byCategory.keys()).sort()) {
+    lines.push("", `## ${category}`, "");
+    for (const fact of byCategory.get(category)!) {
+      lines.push(`- ${fact.fact.replace(/\s*\n\s*/g, " ")}`);
+      if (fact.context) {
+        lines.push(`  - Context: ${fact.context.replace(/\s*\n\s*/g, " ")}`);
+      }
+      if (fact.tags.length > 0) {
+        lines.push(
+          `  - Tags: ${fact.tags.map((tag) => `\`${tag}\``).join(", ")}`
+        );
+      }
+      if (fact.anchors && fact.anchors.length > 0) {
+        lines.push(
+          `  - Code: ${fact.anchors.map(describeAnchor).join(", ")}${
+            fact.possiblyStale ? " (possibly stale)" : ""
+          }`
+        );
+      }
+      if (fact.projectId === null) {
+        lines.push("  - Scope: global");
+      }
+    }
+  }
+
+  if (data.ruleDeployments.length > 0) {
+    lines.push(
+      "",
+      "## Rule deployments",
+      "",
+      "| Deployed at | Template version | Files | Deployed by |",
+      "| --- | --- | --- | --- |"
+    );
+    for (const deployment of data.ruleDeployments) {
+      lines.push(
+        `| ${deployment.deployedAt} | ${deployment.templateVersion} | ${
+          deployment.totalFiles
+        } | ${deployment.deployedBy ?? "Unknown"} |`
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function describeAnchor(anchor: FactAnchor): string {
+  let location = anchor.filePath;
+  if (anchor.startLine !== undefined) {
+    location +=
+      anchor.endLine !== undefined && anchor.endLine !== anchor.startLine
+        ? `:${anchor.startLine}-${anchor.endLine}`
+        : `:${anchor.startLine}`;
+  }
+  let description = `\`${location}\``;
+  if (anchor.symbol) description += ` (${anchor.symbol})`;
+  if (anchor.commitSha) description += ` @ ${anchor.commitSha.slice(0, 7)}`;
+  return description;
+}
+
+/**
+ * Parses a JSON or JSONL export. Only the fields needed to recreate facts and
+ * deployments are validated; anything else is ignored.
+ */
+export function parseKnowledge(text: string): KnowledgeExport {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Import data is empty");
+
+  let data: any;
+  try {
+    data = JSON.parse(trimmed);
+  } catch (error) {
+    // Not a single JSON document: read it as JSONL
+  }
+  // A JSONL export with only its header line also parses as JSON
+  if (data === undefined || data?.type === "header") {
+    data = parseJsonLines(trimmed);
+  }
+
+  if (data?.format !== EXPORT_FORMAT_NAME) {
+    throw new Error(`Not a ${EXPORT_FORMAT_NAME} export`);
+  }
+  if (
+    typeof data.version !== "number" ||
+    data.version > EXPORT_FORMAT_VERSION
+  ) {
+    throw new Error(
+      `Unsupported export version ${data.version}; this server reads up to version ${EXPORT_FORMAT_VERSION}`
+    );
+  }
+  if (!Array.isArray(data.facts)) throw new Error("facts must be an array");
+
+  data.facts.forEach((fact: any, index: number) => {
+    const where = `facts[${index}]`;
+    for (const field of ["category", "fact"]) {
+      if (typeof fact?.[field] !== "string" || !fact[field].trim()) {
+        throw new Error(`${where}.${field} must be a non-empty string`);
+      }
+    }
+    if (
+      fact.tags !== undefined &&
+      (!Array.isArray(fact.tags) ||
+        fact.tags.some((tag: unknown) => typeof tag !== "string"))
+    ) {
+      throw new Error(`${where}.tags must be an array of strings`);
+    }
+    if (
+      fact.anchors !== undefined &&
+      (!Array.isArray(fact.anchors) ||
+        fact.anchors.some(
+          (anchor: any) => typeof anchor?.filePath !== "string"
+        ))
+    ) {
+      throw new Error(`${where}.anchors must be an array of anchors`);
+    }
+  });
+
+  data.ruleDeployments ??= [];
+  if (!Array.isArray(data.ruleDeployments)) {
+    throw new Error("ruleDeployments must be an array");
+  }
+  data.ruleDeployments.forEach((deployment: any, index: number) => {
+    const where = `ruleDeployments[${index}]`;
+    if (
+      typeof deployment?.templateVersion !== "string" ||
+      typeof deployment.deployedAt !== "string" ||
+      !Array.isArray(deployment.files)
+    ) {
+      throw new Error(`${where} needs templateVersion, deployedAt and files`);
+    }
+    deployment.files.forEach((file: any, fileIndex: number) => {
+      if (
+        typeof file?.filename !== "string" ||
+        typeof file.contentHash !== "string" ||
+        (file.target !== undefined && typeof file.target !== "string")
+      ) {
+        throw new Error(
+          `${where}.files[${fileIndex}] needs a filename and contentHash`
+        );
+      }
+    });
+  });
+
+  return data as KnowledgeExport;
+}
+
+function parseJsonLines(text: string): any {
+  const data: any = { facts: [], ruleDeployments: [] };
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${index + 1} is not valid JSON: ${error}`);
+    }
+    const { type, ...rest } = record ?? {};
+    if (type === "header") Object.assign(data, rest);
+    else if (type === "fact") data.facts.push(rest);
+    else if (type === "rule_deployment") data.ruleDeployments.push(rest);
+    else throw new Error(`Line ${index + 1} has unknown type: ${type}`);
+  });
+  return data;
+}
+
+/**
+ * Imports facts and rule deployment history in one transaction, so a failure
+ * part way leaves the database as it was. Facts match existing ones in the
+ * same scope by content hash; a match whose context, tags or anchors differ
+ * is resolved with `strategy`. Project facts are imported into the current
+ * project and their anchors re-hashed against the local checkout. Deployments
+ * already recorded at the same time and version are skipped. With a `guard`,
+ * secrets in facts are handled by its policy, as for remembered facts. Changes
+ * are recorded in fact history as made by `author`.
+ */
+export function importKnowledge(
+  database: ContextDatabase,
+  freshness: FreshnessChecker,
+  data: KnowledgeExport,
+  strategy: ImportStrategy = "skip",
+  dryRun: boolean = false,
+  guard?: FactGuard,
+  author?: string
+): Promise<ImportReport> {
+  return database.transaction(() =>
+    importInto(database, freshness, data, strategy, dryRun, guard, author)
+  );
+}
+
+async function importInto(
+  database: ContextDatabase,
+  freshness: FreshnessChecker,
+  data: KnowledgeExport,
+  strategy: ImportStrategy = "skip",
+  dryRun: boolean = false,
+  guard?: FactGuard,
+  author?: string
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    dryRun,
+    strategy,
+    facts: {
+      total: 0,
+      create: 0,
+      update: 0,
+      unchanged: 0,
+      skip: 0,
+      reject: 0,
+    },
+    ruleDeployments: { total: 0, created: 0, skipped: 0 },
+    items: [],
+  };
+
+  // Deleted facts are matched too, so an import does not bring back what
+  // was deleted on purpose; a live fact with the same text comes first
+  const existingByHash = new Map<string, StoredFact>();
+  for (const fact of await database.getFacts(
+    undefined,
+    undefined,
+    undefined,
+    -1,
+    "all",
+    true
+  )) {
+    const scope = fact.projectId === null ? "global" : "project";
+    const hash = `${scope}:${factContentHash(database, fact)}`;
+    const current = existingByHash.get(hash);
+    if (current && !current.deletedAt && fact.deletedAt) continue;
+    existingByHash.set(hash, fact);
+  }
+
+  for (const entry of data.facts) {
+    const scope = entry.projectId === null ? "global" : "project";
+    // `stored` is the text written to the database, `imported` the fact as
+    // it reads back, which is what existing facts are compared with
+    let stored: FactText = {
+      fact: entry.fact,
+      context: entry.context ?? undefined,
+    };
+    if (guard) {
+      try {
+        stored = guard.protect(stored);
+      } catch (error) {
+        report.facts.total++;
+        report.facts.reject++;
+        report.items.push({
+          action: "reject",
+          category: entry.category,
+          fact: entry.fact,
+          scope,
+          reason: (error as Error).message,
+        });
+        continue;
+      }
+    }
+    const reveal = (text: string) => (guard ? guard.reveal(text) : text);
+    const imported = {
+      ...entry,
+      fact: reveal(stored.fact),
+      context:
+        stored.context === undefined ? entry.context : reveal(stored.context),
+    };
+    const tags = imported.tags ?? [];
+    // Anchors are relative to a project, so global facts never carry any,
+    // and ones that lead outside this project are dropped
+    const anchors: FactAnchorInput[] = [];
+    const droppedAnchors: string[] = [];
+    for (const anchor of scope === "global" ? [] : imported.anchors ?? []) {
+      try {
+        anchors.push({
+          ...toAnchorInput(anchor),
+          filePath: normalizeAnchorPath(anchor.filePath, freshness.rootPath),
+        });
+      } catch (error) {
+        droppedAnchors.push(anchor.filePath);
+      }
+    }
+    const hash = `${scope}:${factContentHash(database, imported)}`;
+    const existing = existingByHash.get(hash);
+    const item: ImportItem = {
+      action: "create",
+      category: imported.category,
+      fact: imported.fact,
+      scope,
+      ...(droppedAnchors.length > 0 && { droppedAnchors }),
+    };
+    report.facts.total++;
+
+    if (!existing) {
+      const id = dryRun
+        ? 0
+        : await database.storeFact(
+            imported.category,
+            stored.fact,
+            stored.context,
+            tags,
+            await freshness.hashAnchors(anchors),
+            scope,
+            author
+          );
+      // Later duplicates within the same import match the new fact
+      existingByHash.set(hash, {
+        ...imported,
+        id,
+        tags,
+        anchors: anchors as FactAnchor[],
+      });
+    } else if (existing.deletedAt) {
+      item.action = "skip";
+      item.existingId = existing.id;
+      item.reason = `Matches deleted fact ${existing.id}; restore that fact rather than importing it again`;
+    } else {
+      // Facts created earlier in a dry run have no ID yet
+      if (existing.id) item.existingId = existing.id;
+      const differences = compareFacts(existing, {
+        context: imported.context,
+        tags,
+        anchors,
+      });
+      if (differences.length > 0) item.differences = differences;
+
+      if (differences.length === 0) {
+        item.action = "unchanged";
+      } else if (strategy === "skip") {
+        item.action = "skip";
+      } else if (strategy === "merge") {
+        const merged = Array.from(new Set([...existing.tags, ...tags]));
+        if (merged.length === existing.tags.length) {
+          item.action = "skip";
+        } else {
+          item.action = "update";
+          if (existing.id && !dryRun) {
+            await database.updateFact(existing.id, { tags: merged }, author);
+          }
+        }
+      } else {
+        item.action = "update";
+        if (existing.id && !dryRun) {
+          await database.updateFact(
+            existing.id,
+            {
+              context: stored.context ?? "",
+              tags,
+              ...(differences.includes("anchors") && {
+                anchors: await freshness.hashAnchors(anchors),
+              }),
+            },
+            author
+          );
+        }
+      }
+    }
+
+    report.facts[item.action]++;
+    report.items.push(item);
+  }
+
+  const recorded = new Set(
+    (await database.getRuleDeploymentHistory(-1)).map(
+      (deployment) => `${deployment.deployedAt}|${deployment.templateVersion}`
+    )
+  );
+  for (const deployment of data.ruleDeployments) {
+    report.ruleDeployments.total++;
+    const key = `${deployment.deployedAt}|${deployment.templateVersion}`;
+    if (recorded.has(key)) {
+      report.ruleDeployments.skipped++;
+      continue;
+    }
+    if (!dryRun) {
+      await database.importRuleDeployment(
+        {
+          templateVersion: deployment.templateVersion,
+          deployedAt: deployment.deployedAt,
+          deployedBy: deployment.deployedBy,
+          totalFiles: deployment.totalFiles ?? deployment.files.length,
+          // Backups stay on the machine that made them, so the path is
+          // not imported
+          backupPath: undefined,
+          packs: deployment.packs ?? [],
+          targets: deployment.targets ?? ["cursor"],
+          profile: deployment.profile,
+        },
+        // Exports from before rule targets only contain Cursor rules
+        deployment.files.map((file) => ({
+          ...file,
+          target: file.target ?? "cursor",
+        }))
+      );
+    }
+    recorded.add(key);
+    report.ruleDeployments.created++;
+  }
+
+  return report;
+}
+
+function toAnchorInput(anchor: FactAnchorInput): FactAnchorInput {
+  return {
+    filePath: anchor.filePath,
+    startLine: anchor.startLine ?? undefined,
+    endLine: anchor.endLine ?? undefined,
+    symbol: anchor.symbol ?? undefined,
+    commitSha: anchor.commitSha ?? undefined,
+  };
+}
+
+function compareFacts(
+  existing: StoredFact,
+  imported: Pick<StoredFact, "context" | "tags"> & {
+    anchors: FactAnchorInput[];
+  }
+): ("context" | "tags" | "anchors")[] {
+  const differences: ("context" | "tags" | "anchors")[] = [];
+  if ((existing.context ?? "") !== (imported.context ?? "")) {
+    differences.push("context");
+  }
+  const sameSet = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((value) => b.includes(value));
+  if (!sameSet(existing.tags, imported.tags)) {
+    differences.push("tags");
+  }
+  const anchorKeys = (anchors: FactAnchorInput[]) =>
+    anchors.map((anchor) =>
+      JSON.stringify([
+        anchor.filePath,
+        anchor.startLine ?? null,
+        anchor.endLine ?? null,
+        anchor.symbol ?? null,
+        anchor.commitSha ?? null,
+      ])
+    );
+  if (
+    !sameSet(anchorKeys(existing.anchors ?? []), anchorKeys(imported.anchors))
+  ) {
+    differences.push("anchors");
+  }
+  return differences;
+}
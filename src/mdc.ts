@@ -0,0 +1,636 @@
+// Cursor .mdc rule files - front matter parsing and validation
+
+import { templateSyntaxIssues } from "./templating.js";
+
+export interface RuleFrontMatter {
+  name?: string;
+  description?: string;
+  applyMode?: string;
+  filePatterns?: string[];
+  [key: string]: unknown;
+}
+
+export interface ParsedRule {
+  frontMatter: RuleFrontMatter;
+  body: string;
+  bodyStartLine: number; // 1-based line the body starts on
+}
+
+export const APPLY_MODES = [
+  "always",
+  "auto-attach",
+  "agent-requested",
+  "manual",
+] as const;
+
+// Fields the templates write, and the ones Cursor itself reads
+const KNOWN_FIELDS = new Set([
+  "name",
+  "description",
+  "applyMode",
+  "filePatterns",
+  "globs",
+  "alwaysApply",
+]);
+
+// Cursor advises keeping rules under 500 lines
+export const DEFAULT_MAX_BODY_LINES = 500;
+
+export interface RuleDiagnostic {
+  severity: "error" | "warning";
+  line: number; // 1-based
+  code: string; // e.g. "unknown-apply-mode"
+  message: string;
+}
+
+export interface RuleValidationOptions {
+  maxBodyLines?: number;
+  // Validate as a template: check the template syntax, with these fragments
+  // available, instead of flagging placeholders as unrendered
+  templateFragments?: string[];
+}
+
+interface FrontMatterEntry {
+  key: string;
+  value: unknown;
+  line: number;
+}
+
+/**
+ * Splits a rule into its front matter and markdown body. Front matter values
+ * are read the way the templates write them: quoted strings, flow-style
+ * arrays such as `["*.ts", "*.tsx"]`, booleans, numbers or bare strings, and
+ * block lists of `- item` lines. A rule without a front matter block has an
+ * empty one.
+ */
+export function parseRule(content: string): ParsedRule {
+  const lines = content.split(/\r?\n/);
+  const { entries, end } = readFrontMatter(lines);
+  if (end === -1) {
+    return { frontMatter: {}, body: content, bodyStartLine: 1 };
+  }
+
+  const frontMatter: RuleFrontMatter = {};
+  for (const entry of entries) frontMatter[entry.key] = entry.value;
+
+  return {
+    frontMatter,
+    body: lines
+      .slice(end + 1)
+      .join("\n")
+      .replace(/^\n+/, ""),
+    bodyStartLine: end + 2,
+  };
+}
+
+/**
+ * Reads the front matter block at the top of a rule. `end` is the index of
+ * the closing ---, or -1 without a complete block. Lines that are not the
+ * YAML rules use are passed to `report` when given.
+ */
+function readFrontMatter(
+  lines: string[],
+  report?: (line: number, code: string, message: string) => void
+): { entries: FrontMatterEntry[]; end: number } {
+  if (lines[0]?.trim() !== "---") return { entries: [], end: -1 };
+  const end = lines.findIndex(
+    (line, index) => index > 0 && line.trim() === "---"
+  );
+  if (end === -1) return { entries: [], end: -1 };
+
+  const entries: FrontMatterEntry[] = [];
+  // The entry whose block list the following "- item" lines belong to
+  let listEntry: FrontMatterEntry | null = null;
+
+  for (let index = 1; index < end; index++) {
+    const line = lines[index];
+    const lineNumber = index + 1;
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    if (/^ *\t/.test(line)) {
+      report?.(
+        lineNumber,
+        "malformed-yaml",
+        "Tabs are not allowed for indentation"
+      );
+      continue;
+    }
+
+    const item = line.match(/^\s+-\s*(.*)$/);
+    if (item) {
+      if (!listEntry) {
+        report?.(
+          lineNumber,
+          "malformed-yaml",
+          "List item outside a list; start the list with `key:` on its own line"
+        );
+        continue;
+      }
+      (listEntry.value as unknown[]).push(
+        readScalar(item[1].trim(), lineNumber, report)
+      );
+      continue;
+    }
+
+    const match = line.match(/^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/);
+    if (!match) {
+      report?.(
+        lineNumber,
+        "malformed-yaml",
+        line.startsWith(" ")
+          ? "Unexpected indentation"
+          : "Expected `key: value`"
+      );
+      listEntry = null;
+      continue;
+    }
+
+    const raw = (match[2] ?? "").trim();
+    const entry: FrontMatterEntry = {
+      key: match[1],
+      value: raw === "" ? "" : readScalar(raw, lineNumber, report),
+      line: lineNumber,
+    };
+    // `key:` followed by indented "- item" lines is a block list
+    if (raw === "" && /^\s+-/.test(lines[index + 1] ?? "")) {
+      entry.value = [];
+      listEntry = entry;
+    } else {
+      listEntry = null;
+    }
+    entries.push(entry);
+  }
+
+  return { entries, end };
+}
+
+function readScalar(
+  raw: string,
+  line: number,
+  report?: (line: number, code: string, message: string) => void
+): unknown {
+  const problem = report ? scalarProblem(raw) : null;
+  if (problem) report!(line, "malformed-yaml", problem);
+  return parseScalar(raw);
+}
+
+/**
+ * Describes why a front matter value is not valid YAML, or returns null.
+ * Only the forms rules use are checked: quoted strings, flow lists and
+ * plain values.
+ */
+function scalarProblem(value: string): string | null {
+  if (value.startsWith('"')) {
+    try {
+      JSON.parse(value);
+      return null;
+    } catch (error) {
+      return /^"([^"\\]|\\.)*"$/.test(value)
+        ? "Invalid escape in double-quoted string"
+        : "Unterminated double-quoted string";
+    }
+  }
+  if (value.startsWith("'")) {
+    return /^'([^']|'')*'$/.test(value)
+      ? null
+      : "Unterminated single-quoted string";
+  }
+  if (value.startsWith("[")) {
+    if (!value.endsWith("]")) return "Unclosed [ in flow list";
+    const items = value.slice(1, -1).trim();
+    if (!items) return null;
+    for (const part of splitFlowList(items)) {
+      const problem = part.trim()
+        ? scalarProblem(part.trim())
+        : "Empty item in flow list";
+      if (problem) return problem;
+    }
+    return null;
+  }
+  if (value.startsWith("{")) {
+    return "Mappings are not supported in rule front matter";
+  }
+  if (/^[&*!|>%@`]/.test(value)) {
+    return `A plain value cannot start with ${value[0]}; quote it`;
+  }
+  if (/:\s|\s#/.test(value)) {
+    return "Quote values containing `: ` or ` #`";
+  }
+  return null;
+}
+
+// Splits a flow list on the commas outside quotes
+function splitFlowList(items: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let index = 0; index < items.length; index++) {
+    const char = items[index];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        current += char + (items[++index] ?? "");
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+export function parseScalar(value: string): unknown {
+  if (value === "") return "";
+  if (/^["[]/.test(value) || /^(true|false|null|-?\d+(\.\d+)?)$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      // Single-quoted strings and other YAML forms JSON does not accept
+    }
+  }
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map((item) => item.trim().replace(/^['"]|['"]$/g, ""))
+      .filter(Boolean);
+  }
+  return value.replace(/^'(.*)'$/, "$1");
+}
+
+/**
+ * Sets one front matter field, written as JSON the way the templates write
+ * it. An existing line for the key is replaced in place, along with the
+ * items of a block list; otherwise the field is added at the end of the
+ * block, which is created if the rule has none.
+ */
+export function setFrontMatterField(
+  content: string,
+  key: string,
+  value: unknown
+): string {
+  // Arrays are spaced as in the templates: ["*.ts", "*.tsx"]
+  const serialized = Array.isArray(value)
+    ? `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+    : JSON.stringify(value);
+  const line = `${key}: ${serialized}`;
+  const lines = content.split("\n");
+  const end =
+    lines[0]?.trim() === "---"
+      ? lines.findIndex(
+          (current, index) => index > 0 && current.trim() === "---"
+        )
+      : -1;
+  if (end === -1) return ["---", line, "---", "", content].join("\n");
+
+  const keyPattern = new RegExp(`^${key}\\s*:`);
+  const existing = lines
+    .slice(1, end)
+    .findIndex((candidate) => keyPattern.test(candidate));
+  if (existing === -1) {
+    lines.splice(end, 0, line);
+  } else {
+    let items = 0;
+    while (/^\s+-/.test(lines[existing + 2 + items] ?? "")) items++;
+    lines.splice(existing + 1, 1 + items, line);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Describes what is wrong with a file pattern, or returns null. Patterns are
+ * globs relative to the workspace root.
+ */
+export function globProblem(pattern: unknown): string | null {
+  if (typeof pattern !== "string") return "must be a string";
+  if (!pattern.trim()) return "is empty";
+  if (pattern !== pattern.trim()) return "has leading or trailing whitespace";
+  if (pattern.includes("\\")) return "uses \\; separate directories with /";
+  if (pattern.startsWith("/") || /^[A-Za-z]:/.test(pattern)) {
+    return "must be relative to the workspace root";
+  }
+  if (pattern.split("/").includes("..")) return "must not leave the workspace";
+  if (/\*{3,}/.test(pattern)) return "has more than two * in a row";
+
+  let brackets = 0;
+  let braces = 0;
+  for (const char of pattern) {
+    if (char === "[") brackets++;
+    else if (char === "]" && brackets > 0) brackets--;
+    else if (char === "{") braces++;
+    else if (char === "}") {
+      if (braces === 0) return "has } without {";
+      braces--;
+    }
+  }
+  if (brackets > 0) return "has an unclosed [";
+  if (braces > 0) return "has an unclosed {";
+  return null;
+}
+
+/**
+ * Whether a workspace-relative, "/"-separated path matches a file pattern.
+ * A pattern without a "/", such as `*.ts`, matches the file name in any
+ * directory; other patterns match the whole path, with `**` spanning
+ * directories. `*`, `?`, `[abc]` and `{a,b}` work as in shell globs. Invalid
+ * patterns, which validate_rules reports, match nothing.
+ */
+export function matchesFilePattern(
+  relativePath: string,
+  pattern: string
+): boolean {
+  if (globProblem(pattern)) return false;
+  const subject = pattern.includes("/")
+    ? relativePath
+    : relativePath.slice(relativePath.lastIndexOf("/") + 1);
+  return globToRegExp(pattern.replace(/^\.\//, "")).test(subject);
+}
+
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) return cached;
+
+  let source = "";
+  let braces = 0;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      // "**/" is zero or more directories; a trailing "**" is anything
+      if (pattern[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 2;
+      } else {
+        source += ".*";
+        index += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = pattern.indexOf("]", index + 1);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      const members = pattern.slice(index + 1, close).replace(/^!/, "^");
+      source += `[${members.replace(/\\/g, "\\\\")}]`;
+      index = close;
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+  // A pattern naming a directory covers everything inside it
+  const regExp = new RegExp(`^${source}(?:/.*)?$`);
+  globCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Lints one rule: the front matter's YAML, the known fields and their
+ * types, the apply mode and the file patterns it needs, and the body.
+ */
+export function validateRule(
+  content: string,
+  options: RuleValidationOptions = {}
+): RuleDiagnostic[] {
+  const diagnostics: RuleDiagnostic[] = [];
+  const error = (line: number, code: string, message: string) =>
+    diagnostics.push({ severity: "error", line, code, message });
+  const warning = (line: number, code: string, message: string) =>
+    diagnostics.push({ severity: "warning", line, code, message });
+
+  const lines = content.split(/\r?\n/);
+  const { entries, end } = readFrontMatter(lines, error);
+  if (lines[0]?.trim() !== "---") {
+    warning(
+      1,
+      "missing-front-matter",
+      "No front matter; the rule has no name, apply mode or file patterns"
+    );
+  } else if (end === -1) {
+    error(1, "unclosed-front-matter", "Front matter has no closing ---");
+  } else {
+    validateFrontMatter(entries, end + 1, error, warning);
+  }
+
+  // Without a complete front matter block the whole file is the body
+  const bodyStart = end === -1 ? 0 : end + 1;
+  const bodyLines = lines.slice(bodyStart);
+  while (bodyLines.length > 0 && !bodyLines[bodyLines.length - 1].trim()) {
+    bodyLines.pop();
+  }
+  if (!bodyLines.some((line) => line.trim())) {
+    warning(bodyStart + 1, "empty-body", "The rule has no content");
+  }
+  const maxBodyLines = options.maxBodyLines ?? DEFAULT_MAX_BODY_LINES;
+  if (bodyLines.length > maxBodyLines) {
+    warning(
+      bodyStart + maxBodyLines + 1,
+      "body-too-large",
+      `The body has ${bodyLines.length} lines, over the limit of ${maxBodyLines}; split it into focused rules`
+    );
+  }
+
+  if (options.templateFragments) {
+    for (const issue of templateSyntaxIssues(
+      content,
+      options.templateFragments
+    )) {
+      error(issue.line, "template", issue.message);
+    }
+  } else {
+    // Braces in code are examples, e.g. JSX or a template written out with
+    // \{{...}}, rather than placeholders left unrendered
+    let inFence = false;
+    lines.forEach((line, index) => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) return;
+      if (/\{\{[^{}]*\}\}/.test(line.replace(/`[^`]*`/g, ""))) {
+        warning(
+          index + 1,
+          "unrendered-placeholder",
+          "Template placeholder left in a deployed rule"
+        );
+      }
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+}
+
+function validateFrontMatter(
+  entries: FrontMatterEntry[],
+  closingLine: number,
+  error: (line: number, code: string, message: string) => void,
+  warning: (line: number, code: string, message: string) => void
+): void {
+  const fields = new Map<string, FrontMatterEntry>();
+  for (const entry of entries) {
+    const previous = fields.get(entry.key);
+    if (previous) {
+      error(
+        entry.line,
+        "duplicate-key",
+        `${entry.key} is already set on line ${previous.line}`
+      );
+    }
+    fields.set(entry.key, entry);
+    if (!KNOWN_FIELDS.has(entry.key)) {
+      warning(
+        entry.line,
+        "unknown-key",
+        `Unknown front matter field ${entry.key}`
+      );
+    }
+  }
+
+  const name = fields.get("name");
+  if (!name) {
+    warning(closingLine, "missing-name", "No name");
+  } else if (typeof name.value !== "string" || !name.value.trim()) {
+    error(name.line, "invalid-name", "name must be a non-empty string");
+  }
+
+  const description = fields.get("description");
+  if (description && typeof description.value !== "string") {
+    error(
+      description.line,
+      "invalid-description",
+      "description must be a string"
+    );
+  }
+
+  const alwaysApply = fields.get("alwaysApply");
+  if (alwaysApply && typeof alwaysApply.value !== "boolean") {
+    error(
+      alwaysApply.line,
+      "invalid-always-apply",
+      "alwaysApply must be true or false"
+    );
+  }
+
+  const applyMode = fields.get("applyMode");
+  if (!applyMode) {
+    // Cursor's own fields say when to apply the rule instead
+    if (!alwaysApply && !fields.has("globs")) {
+      warning(closingLine, "missing-apply-mode", "No applyMode");
+    }
+  } else if (
+    !(
+      typeof applyMode.value === "string" &&
+      (APPLY_MODES as readonly string[]).includes(applyMode.value)
+    )
+  ) {
+    error(
+      applyMode.line,
+      "unknown-apply-mode",
+      `Unknown applyMode ${JSON.stringify(
+        applyMode.value
+      )}; expected one of ${APPLY_MODES.join(", ")}`
+    );
+  }
+
+  let validPatterns = 0;
+  for (const key of ["filePatterns", "globs"]) {
+    const entry = fields.get(key);
+    if (!entry) continue;
+    // Cursor writes globs as a comma-separated string
+    const patterns =
+      key === "globs" && typeof entry.value === "string"
+        ? entry.value
+            .split(",")
+            .map((pattern) => pattern.trim())
+            .filter(Boolean)
+        : entry.value;
+    if (!Array.isArray(patterns)) {
+      error(
+        entry.line,
+        "invalid-file-patterns",
+        `${key} must be a list of glob patterns`
+      );
+      continue;
+    }
+    for (const pattern of patterns) {
+      const problem = globProblem(pattern);
+      if (problem) {
+        error(
+          entry.line,
+          "invalid-glob",
+          `Pattern ${JSON.stringify(pattern)} ${problem}`
+        );
+      } else {
+        validPatterns++;
+      }
+    }
+  }
+
+  if (applyMode?.value === "auto-attach" && validPatterns === 0) {
+    error(
+      applyMode.line,
+      "no-file-patterns",
+      "auto-attach rules need filePatterns to attach to"
+    );
+  }
+  if (
+    applyMode?.value === "agent-requested" &&
+    !(typeof description?.value === "string" && description.value.trim())
+  ) {
+    warning(
+      applyMode.line,
+      "missing-description",
+      "agent-requested rules need a description for the agent to decide by"
+    );
+  }
+}
+
+/**
+ * Lints a set of rules that are deployed together: each rule on its own,
+ * plus names used by more than one rule.
+ */
+export function validateRuleSet(
+  files: { path: string; content: string }[],
+  options: RuleValidationOptions = {}
+): { path: string; diagnostics: RuleDiagnostic[] }[] {
+  const names = new Map<string, { path: string; line: number }>();
+  return files.map((file) => {
+    const diagnostics = validateRule(file.content, options);
+
+    const { entries } = readFrontMatter(file.content.split(/\r?\n/));
+    const name = entries.find((entry) => entry.key === "name");
+    if (typeof name?.value === "string" && name.value.trim()) {
+      const key = name.value.trim().toLowerCase();
+      const first = names.get(key);
+      if (first) {
+        diagnostics.push({
+          severity: "error",
+          line: name.line,
+          code: "duplicate-name",
+          message: `Name ${JSON.stringify(name.value)} is also used by ${
+            first.path
+          }:${first.line}`,
+        });
+        diagnostics.sort((a, b) => a.line - b.line);
+      } else {
+        names.set(key, { path: file.path, line: name.line });
+      }
+    }
+
+    return { path: file.path, diagnostics };
+  });
+}
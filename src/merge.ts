@@ -0,0 +1,221 @@
+// Line-based diffing and three-way merging of rule files
+
+export interface MergeConflict {
+  line: number; // 1-based line of the conflict's opening marker in the result
+  local: string[];
+  base: string[];
+  incoming: string[];
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: MergeConflict[];
+}
+
+export interface MergeLabels {
+  local: string;
+  base: string;
+  incoming: string;
+}
+
+/**
+ * Matches the lines of `a` against `b` using their longest common
+ * subsequence. The result has one entry per line of `a`: the index of the
+ * matching line in `b`, or -1 when the line was removed.
+ */
+export function matchLines(a: string[], b: string[]): number[] {
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+export function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+/**
+ * Merges the changes made locally and the changes in the incoming version,
+ * both relative to `base`, the version originally deployed. Regions changed
+ * on only one side, or identically on both, merge cleanly; regions changed
+ * differently on both sides are written between conflict markers. Without a
+ * base, differing versions conflict as a whole.
+ */
+export function mergeThreeWay(
+  base: string | null,
+  local: string,
+  incoming: string,
+  labels: MergeLabels
+): MergeResult {
+  // The final newline is not a line of its own, or it would conflict too
+  const baseLines = base === null ? [] : splitLines(trimNewline(base));
+  const localLines = splitLines(trimNewline(local));
+  const incomingLines = splitLines(trimNewline(incoming));
+  const localMatches = matchLines(baseLines, localLines);
+  const incomingMatches = matchLines(baseLines, incomingLines);
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let o = 0;
+  let l = 0;
+  let n = 0;
+
+  while (
+    o < baseLines.length ||
+    l < localLines.length ||
+    n < incomingLines.length
+  ) {
+    // The next base line both sides kept bounds the current chunk
+    let k = o;
+    while (
+      k < baseLines.length &&
+      (localMatches[k] === -1 || incomingMatches[k] === -1)
+    ) {
+      k++;
+    }
+    const localEnd = k < baseLines.length ? localMatches[k] : localLines.length;
+    const incomingEnd =
+      k < baseLines.length ? incomingMatches[k] : incomingLines.length;
+
+    if (k === o && localEnd === l && incomingEnd === n) {
+      // Unchanged on both sides
+      output.push(baseLines[o]);
+      o++;
+      l++;
+      n++;
+      continue;
+    }
+
+    const baseChunk = baseLines.slice(o, k);
+    const localChunk = localLines.slice(l, localEnd);
+    const incomingChunk = incomingLines.slice(n, incomingEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      output.push(...incomingChunk);
+    } else if (
+      sameLines(incomingChunk, baseChunk) ||
+      sameLines(localChunk, incomingChunk)
+    ) {
+      output.push(...localChunk);
+    } else {
+      conflicts.push({
+        line: output.length + 1,
+        local: localChunk,
+        base: baseChunk,
+        incoming: incomingChunk,
+      });
+      output.push(
+        `<<<<<<< ${labels.local}`,
+        ...localChunk,
+        `||||||| ${labels.base}`,
+        ...baseChunk,
+        "=======",
+        ...incomingChunk,
+        `>>>>>>> ${labels.incoming}`
+      );
+    }
+
+    o = k;
+    l = localEnd;
+    n = incomingEnd;
+  }
+
+  const newline = /\n$/.test(incoming) || /\n$/.test(local) ? "\n" : "";
+  return { content: output.join("\n") + newline, conflicts };
+}
+
+function trimNewline(content: string): string {
+  return content.replace(/\r?\n$/, "");
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Renders the changes from `before` to `after` as a unified diff with the
+ * given number of context lines. Returns an empty string when they match.
+ * A null side is a missing file, shown as /dev/null.
+ */
+export function unifiedDiff(
+  before: string | null,
+  after: string | null,
+  label: string,
+  context: number = 3
+): string {
+  const beforeLines = before === null ? [] : splitLines(trimNewline(before));
+  const afterLines = after === null ? [] : splitLines(trimNewline(after));
+  const matches = matchLines(beforeLines, afterLines);
+
+  // Edit script, with each line's 0-based position in both versions
+  const ops: { type: " " | "-" | "+"; line: string; a: number; b: number }[] =
+    [];
+  let j = 0;
+  for (let i = 0; i < beforeLines.length; i++) {
+    if (matches[i] === -1) {
+      ops.push({ type: "-", line: beforeLines[i], a: i, b: j });
+      continue;
+    }
+    for (; j < matches[i]; j++) {
+      ops.push({ type: "+", line: afterLines[j], a: i, b: j });
+    }
+    ops.push({ type: " ", line: beforeLines[i], a: i, b: j });
+    j++;
+  }
+  for (; j < afterLines.length; j++) {
+    ops.push({ type: "+", line: afterLines[j], a: beforeLines.length, b: j });
+  }
+
+  // Group changes that are within two contexts of each other into hunks
+  const hunks: [number, number][] = [];
+  ops.forEach((op, index) => {
+    if (op.type === " ") return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  });
+  if (hunks.length === 0) return "";
+
+  const output = [
+    `--- ${before === null ? "/dev/null" : `a/${label}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${label}`}`,
+  ];
+  for (const [start, end] of hunks) {
+    const hunk = ops.slice(start, end);
+    const beforeCount = hunk.filter((op) => op.type !== "+").length;
+    const afterCount = hunk.filter((op) => op.type !== "-").length;
+    // An empty side is numbered from the line before it, as diff does
+    const beforeStart = hunk[0].a + (beforeCount > 0 ? 1 : 0);
+    const afterStart = hunk[0].b + (afterCount > 0 ? 1 : 0);
+    output.push(
+      `@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@`,
+      ...hunk.map((op) => `${op.type}${op.line}`)
+    );
+  }
+  return output.join("\n") + "\n";
+}
@@ -0,0 +1,156 @@
+// Project identity - which project the facts and deployments belong to
+
+import fs from "fs/promises";
+import path from "path";
+import { simpleGit } from "simple-git";
+
+import {
+  isTemplateValue,
+  isTemplateVariableName,
+  TemplateVariables,
+} from "./templating.js";
+
+export interface ProjectIdentity {
+  id: string;
+  name: string;
+  root: string; // Absolute path that anchors and the watcher are relative to
+  source: "env" | "config" | "git-remote" | "git-root" | "directory";
+}
+
+// Read from the project root: project identity and rule template variables
+export const PROJECT_CONFIG_FILENAME = ".dev-assistant.json";
+
+/**
+ * Works out the current project, in order of preference:
+ * 1. DEV_ASSISTANT_PROJECT_ID environment variable
+ * 2. `project.id` in .dev-assistant.json at the project root (the git root,
+ *    or `cwd` outside a repository)
+ * 3. the git remote URL (origin, or the first remote), normalised so SSH and
+ *    HTTPS clones of the same repository share an ID
+ * 4. the git root directory
+ * 5. `cwd` itself
+ */
+export async function resolveProject(cwd: string): Promise<ProjectIdentity> {
+  const git = simpleGit({ baseDir: cwd });
+  let gitRoot: string | null = null;
+  try {
+    if (await git.checkIsRepo()) {
+      gitRoot = (await git.revparse(["--show-toplevel"])).trim();
+    }
+  } catch (error) {
+    // git not installed or not a repository
+  }
+
+  const root = gitRoot ?? path.resolve(cwd);
+  const config = await readProjectConfig(root);
+  const defaultName = config.name ?? path.basename(root);
+
+  const envId = process.env.DEV_ASSISTANT_PROJECT_ID?.trim();
+  if (envId) {
+    return { id: envId, name: defaultName, root, source: "env" };
+  }
+
+  if (config.id) {
+    return { id: config.id, name: defaultName, root, source: "config" };
+  }
+
+  if (gitRoot) {
+    try {
+      const remotes = await git.getRemotes(true);
+      const remote =
+        remotes.find((candidate) => candidate.name === "origin") ?? remotes[0];
+      const url = remote?.refs.fetch || remote?.refs.push;
+      if (url) {
+        return {
+          id: normalizeRemoteUrl(url),
+          name: defaultName,
+          root,
+          source: "git-remote",
+        };
+      }
+    } catch (error) {
+      // Fall through to the root directory
+    }
+    return { id: `path:${root}`, name: defaultName, root, source: "git-root" };
+  }
+
+  return { id: `path:${root}`, name: defaultName, root, source: "directory" };
+}
+
+/**
+ * Reduces a git remote URL to `host/owner/repo`, dropping protocol,
+ * credentials, port and the `.git` suffix.
+ */
+export function normalizeRemoteUrl(url: string): string {
+  let value = url.trim();
+
+  // scp-like syntax: git@github.com:owner/repo.git
+  const scpLike = value.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scpLike && !/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    value = `${scpLike[1]}/${scpLike[2]}`;
+  } else {
+    try {
+      const parsed = new URL(value);
+      if (parsed.protocol !== "file:") {
+        value = `${parsed.hostname}${parsed.pathname}`;
+      }
+    } catch (error) {
+      // Local path remotes are used as they are
+    }
+  }
+
+  const [host, ...rest] = value.replace(/\/+$/, "").split("/");
+  return [host.toLowerCase(), ...rest].join("/").replace(/\.git$/, "");
+}
+
+async function readProjectConfig(
+  root: string
+): Promise<{ id?: string; name?: string }> {
+  const project = (await readConfigFile(root))?.project ?? {};
+  return {
+    id:
+      typeof project.id === "string"
+        ? project.id.trim() || undefined
+        : undefined,
+    name: typeof project.name === "string" ? project.name : undefined,
+  };
+}
+
+/**
+ * Reads `rules.variables` from .dev-assistant.json: values for the
+ * placeholders in rule templates. Read when rules are deployed rather than
+ * at startup, so edits apply without a restart.
+ */
+export async function readRuleVariables(
+  root: string
+): Promise<TemplateVariables> {
+  const variables = (await readConfigFile(root))?.rules?.variables ?? {};
+  if (typeof variables !== "object" || Array.isArray(variables)) {
+    throw new Error(
+      `${PROJECT_CONFIG_FILENAME}: rules.variables must be an object`
+    );
+  }
+  for (const [name, value] of Object.entries(variables)) {
+    if (!isTemplateVariableName(name) || !isTemplateValue(value)) {
+      throw new Error(
+        `${PROJECT_CONFIG_FILENAME}: rules.variables.${name} must be a string, number, boolean or array of strings`
+      );
+    }
+  }
+  return variables as TemplateVariables;
+}
+
+async function readConfigFile(root: string): Promise<any | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(root, PROJECT_CONFIG_FILENAME), "utf-8");
+  } catch (error) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${PROJECT_CONFIG_FILENAME}: ${error}`);
+  }
+}
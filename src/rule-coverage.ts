@@ -0,0 +1,247 @@
+// Rule coverage - which rules attach to which files in the workspace
+
+import path from "path";
+
+import { matchesFilePattern, parseRule } from "./mdc.js";
+
+// How a rule comes into play for a file
+export type RuleAttachment =
+  | "always" // Included in every request
+  | "pattern" // Attached because a file pattern matches
+  | "agent-requested" // Available for the agent to pull in when relevant
+  | "manual" // Only when referenced explicitly
+  | "none"; // Its patterns do not match
+
+export interface RuleDefinition {
+  path: string; // Where the rule file is, e.g. ".cursor/rules/testing.mdc"
+  name?: string;
+  applyMode: string;
+  patterns: string[];
+  description?: string;
+}
+
+export interface RuleExplanation {
+  rule: string;
+  name?: string;
+  applyMode: string;
+  attachment: RuleAttachment;
+  matchedPatterns: string[];
+}
+
+export interface FileRuleExplanation {
+  path: string;
+  attached: RuleExplanation[]; // Always applied, or attached by pattern
+  onRequest: RuleExplanation[]; // Agent-requested and manual rules
+  notAttached: RuleExplanation[];
+}
+
+export interface RuleCoverageEntry {
+  rule: string;
+  name?: string;
+  applyMode: string;
+  patterns: string[];
+  matchedFiles: number;
+  examples: string[];
+  deadPatterns: string[]; // Patterns no file matches
+}
+
+export interface RuleCoverageReport {
+  totalFiles: number;
+  truncated: boolean; // The walk stopped at the file limit
+  coveredFiles: number;
+  rules: RuleCoverageEntry[];
+  uncovered: {
+    count: number;
+    byExtension: Record<string, number>;
+    files: string[]; // The first ones, up to the listing limit
+  };
+}
+
+const EXAMPLES_PER_RULE = 5;
+// Apply modes under which file patterns do not attach the rule
+const UNPATTERNED_APPLY_MODES = new Set([
+  "always",
+  "agent-requested",
+  "manual",
+]);
+
+/**
+ * Reads the parts of a rule that decide where it applies. Cursor's own
+ * fields are understood too: `alwaysApply: true` applies always, and
+ * `globs` attaches like `filePatterns`.
+ */
+export function readRuleDefinition(
+  rulePath: string,
+  content: string
+): RuleDefinition {
+  const { frontMatter } = parseRule(content);
+  const patterns: string[] = [];
+  if (Array.isArray(frontMatter.filePatterns)) {
+    patterns.push(
+      ...frontMatter.filePatterns.filter(
+        (pattern): pattern is string => typeof pattern === "string"
+      )
+    );
+  }
+  const globs = frontMatter.globs;
+  if (typeof globs === "string") {
+    patterns.push(
+      ...globs
+        .split(",")
+        .map((pattern) => pattern.trim())
+        .filter(Boolean)
+    );
+  } else if (Array.isArray(globs)) {
+    patterns.push(
+      ...globs.filter(
+        (pattern): pattern is string => typeof pattern === "string"
+      )
+    );
+  }
+
+  const description =
+    typeof frontMatter.description === "string"
+      ? frontMatter.description
+      : undefined;
+  let applyMode =
+    typeof frontMatter.applyMode === "string" ? frontMatter.applyMode : "";
+  if (!applyMode) {
+    if (frontMatter.alwaysApply === true) applyMode = "always";
+    else if (patterns.length > 0) applyMode = "auto-attach";
+    else if (description) applyMode = "agent-requested";
+    else applyMode = "manual";
+  }
+
+  return {
+    path: rulePath,
+    name: typeof frontMatter.name === "string" ? frontMatter.name : undefined,
+    applyMode,
+    patterns,
+    description,
+  };
+}
+
+/**
+ * Works out how one rule comes into play for a file.
+ */
+export function explainRule(
+  rule: RuleDefinition,
+  filePath: string
+): RuleExplanation {
+  const matchedPatterns = rule.patterns.filter((pattern) =>
+    matchesFilePattern(filePath, pattern)
+  );
+  let attachment: RuleAttachment;
+  switch (rule.applyMode) {
+    case "always":
+      attachment = "always";
+      break;
+    case "agent-requested":
+      attachment = "agent-requested";
+      break;
+    case "manual":
+      attachment = "manual";
+      break;
+    default:
+      attachment = matchedPatterns.length > 0 ? "pattern" : "none";
+  }
+  return {
+    rule: rule.path,
+    name: rule.name,
+    applyMode: rule.applyMode,
+    attachment,
+    matchedPatterns,
+  };
+}
+
+export function explainRulesForFile(
+  rules: RuleDefinition[],
+  filePath: string
+): FileRuleExplanation {
+  const explanation: FileRuleExplanation = {
+    path: filePath,
+    attached: [],
+    onRequest: [],
+    notAttached: [],
+  };
+  for (const rule of rules) {
+    const result = explainRule(rule, filePath);
+    if (result.attachment === "always" || result.attachment === "pattern") {
+      explanation.attached.push(result);
+    } else if (result.attachment === "none") {
+      explanation.notAttached.push(result);
+    } else {
+      explanation.onRequest.push(result);
+    }
+  }
+  return explanation;
+}
+
+/**
+ * Counts the files each rule's patterns match, and the files no rule
+ * attaches to by pattern. Rules applied always, on request or manually do not
+ * count towards coverage: their patterns decide nothing.
+ */
+export function measureRuleCoverage(
+  rules: RuleDefinition[],
+  files: string[],
+  truncated: boolean,
+  listLimit: number
+): RuleCoverageReport {
+  const entries = rules.map((rule) => ({
+    rule: rule.path,
+    name: rule.name,
+    applyMode: rule.applyMode,
+    patterns: rule.patterns,
+    matchedFiles: 0,
+    examples: [] as string[],
+    patternHits: new Map(rule.patterns.map((pattern) => [pattern, 0])),
+  }));
+
+  let coveredFiles = 0;
+  const uncovered: string[] = [];
+  const byExtension: Record<string, number> = {};
+  for (const file of files) {
+    let covered = false;
+    for (const entry of entries) {
+      let matched = false;
+      for (const pattern of entry.patterns) {
+        if (matchesFilePattern(file, pattern)) {
+          entry.patternHits.set(pattern, entry.patternHits.get(pattern)! + 1);
+          matched = true;
+        }
+      }
+      if (!matched) continue;
+      entry.matchedFiles++;
+      if (entry.examples.length < EXAMPLES_PER_RULE) entry.examples.push(file);
+      if (!UNPATTERNED_APPLY_MODES.has(entry.applyMode)) covered = true;
+    }
+
+    if (covered) {
+      coveredFiles++;
+    } else {
+      uncovered.push(file);
+      const extension = path.posix.extname(file) || "(none)";
+      byExtension[extension] = (byExtension[extension] ?? 0) + 1;
+    }
+  }
+
+  return {
+    totalFiles: files.length,
+    truncated,
+    coveredFiles,
+    rules: entries.map(({ patternHits, ...entry }) => ({
+      ...entry,
+      deadPatterns: Array.from(patternHits)
+        .filter(([, hits]) => hits === 0)
+        .map(([pattern]) => pattern),
+    })),
+    uncovered: {
+      count: uncovered.length,
+      byExtension: Object.fromEntries(
+        Object.entries(byExtension).sort((a, b) => b[1] - a[1])
+      ),
+      files: uncovered.slice(0, listLimit),
+    },
+  };
+}
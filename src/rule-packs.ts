@@ -0,0 +1,437 @@
+// Rule packs - versioned sets of rule templates, built in or loaded from disk
+
+import fs from "fs/promises";
+import path from "path";
+
+import {
+  CursorRule,
+  CURSOR_RULES_TEMPLATES,
+  DEFAULT_TEMPLATE_VARIABLES,
+  TEMPLATE_VERSION,
+} from "./rules-template.js";
+import { adaptRuleToStack, ProjectStack, stackTags } from "./stack.js";
+import {
+  isTemplateValue,
+  isTemplateVariableName,
+  renderTemplate,
+  TemplateVariables,
+} from "./templating.js";
+
+export interface PackRule extends CursorRule {
+  category?: string; // e.g. "testing"; defaults to the filename without .mdc
+  description?: string;
+  // Languages, frameworks, "frontend" or "backend" the rule is for; a rule
+  // without the list applies to every project
+  appliesTo?: string[];
+  // Rewrite the language globs in filePatterns for the detected languages
+  adaptPatterns?: boolean;
+}
+
+export interface RulePack {
+  name: string;
+  version: string;
+  description?: string;
+  source: string; // "built-in" or the directory the pack was loaded from
+  rules: PackRule[];
+  variables: TemplateVariables; // Defaults for the rules' placeholders
+  fragments: Record<string, string>; // Included with {{> name}}
+}
+
+// A rule as deployed: its content and the pack it came from
+export interface ResolvedRule extends PackRule {
+  pack: string;
+  packVersion: string;
+}
+
+export interface SkippedRule {
+  category: string;
+  filename: string;
+  reason: "excluded" | "not-applicable";
+}
+
+export interface RuleSelection {
+  stack?: ProjectStack; // Absent when stack detection was turned off
+  include?: string[]; // Categories deployed even when not applicable
+  exclude?: string[]; // Categories never deployed
+}
+
+// Manifest read from rule-pack.json, or the "devAssistantRules" field of a
+// package.json, which also supplies the name and version
+interface RulePackManifest {
+  name?: string;
+  version?: string;
+  description?: string;
+  files?: RulePackFileEntry[];
+  variables?: TemplateVariables;
+  fragments?: string; // Directory of .md fragments; defaults to fragments/
+}
+
+interface RulePackFileEntry {
+  filename: string;
+  path?: string; // Relative to the pack directory; defaults to filename
+  category?: string;
+  description?: string;
+  appliesTo?: string[];
+  adaptPatterns?: boolean;
+}
+
+// Built-in rules written for particular stacks; the rest apply everywhere
+const BUILT_IN_APPLIES_TO: Record<string, string[]> = {
+  architecture: ["typescript", "javascript"],
+  accessibility: ["frontend"],
+};
+
+export const DEFAULT_RULE_PACK = "default";
+export const RULE_PACK_MANIFEST = "rule-pack.json";
+const DEFAULT_FRAGMENTS_DIR = "fragments";
+
+const BUILT_IN_PACK: RulePack = {
+  name: DEFAULT_RULE_PACK,
+  version: TEMPLATE_VERSION,
+  description: "Company development standards shipped with the server",
+  source: "built-in",
+  rules: CURSOR_RULES_TEMPLATES.map((rule) => {
+    const category = rule.filename.replace(/\.mdc$/, "");
+    return {
+      ...rule,
+      category,
+      appliesTo: BUILT_IN_APPLIES_TO[category],
+      // Accessibility patterns name markup files, not languages
+      adaptPatterns: category !== "accessibility",
+    };
+  }),
+  variables: DEFAULT_TEMPLATE_VARIABLES,
+  fragments: {},
+};
+
+/**
+ * Loads a rule pack. `spec` is one of:
+ * - `default` for the built-in templates
+ * - a path to a pack directory, relative to `rootPath` or absolute
+ * - an npm package name, resolved from `rootPath`/node_modules
+ *
+ * A pack directory contains rule-pack.json, or a package.json with a
+ * `devAssistantRules` field. Without a `files` list every .mdc file in the
+ * directory (or its `rules/` subdirectory) is included.
+ */
+export async function loadRulePack(
+  spec: string,
+  rootPath: string
+): Promise<RulePack> {
+  if (spec === DEFAULT_RULE_PACK) return BUILT_IN_PACK;
+
+  const isPath =
+    spec.startsWith(".") || path.isAbsolute(spec) || spec.includes("\\");
+  const dir = isPath
+    ? path.resolve(rootPath, spec)
+    : path.join(rootPath, "node_modules", ...spec.split("/"));
+
+  let manifest: RulePackManifest | null = await readJson(
+    path.join(dir, RULE_PACK_MANIFEST)
+  );
+  if (!manifest) {
+    const packageJson = await readJson(path.join(dir, "package.json"));
+    if (packageJson?.devAssistantRules) {
+      manifest = {
+        name: packageJson.name,
+        version: packageJson.version,
+        description: packageJson.description,
+        ...packageJson.devAssistantRules,
+      };
+    }
+  }
+  if (!manifest) {
+    throw new Error(
+      `No ${RULE_PACK_MANIFEST} or package.json with devAssistantRules in ${dir}`
+    );
+  }
+
+  if (typeof manifest.name !== "string" || !manifest.name.trim()) {
+    throw new Error(`Rule pack in ${dir} has no name`);
+  }
+  if (typeof manifest.version !== "string" || !manifest.version.trim()) {
+    throw new Error(`Rule pack ${manifest.name} has no version`);
+  }
+
+  const entries = manifest.files ?? (await discoverRuleFiles(dir));
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`Rule pack ${manifest.name} has no rule files`);
+  }
+
+  const rules: PackRule[] = [];
+  for (const entry of entries) {
+    if (
+      typeof entry?.filename !== "string" ||
+      !/^[\w.-]+\.mdc$/.test(entry.filename)
+    ) {
+      throw new Error(
+        `Rule pack ${manifest.name}: filename must be a plain .mdc file name, got ${entry?.filename}`
+      );
+    }
+    const filePath = path.resolve(dir, entry.path ?? entry.filename);
+    if (path.relative(dir, filePath).startsWith("..")) {
+      throw new Error(
+        `Rule pack ${manifest.name}: ${entry.path} is outside the pack`
+      );
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      throw new Error(
+        `Rule pack ${manifest.name}: cannot read ${entry.filename}: ${error}`
+      );
+    }
+    if (
+      entry.appliesTo !== undefined &&
+      (!Array.isArray(entry.appliesTo) ||
+        entry.appliesTo.some((tag) => typeof tag !== "string"))
+    ) {
+      throw new Error(
+        `Rule pack ${manifest.name}: appliesTo of ${entry.filename} must be an array of strings`
+      );
+    }
+    rules.push({
+      filename: entry.filename,
+      content,
+      category: entry.category ?? entry.filename.replace(/\.mdc$/, ""),
+      description: entry.description,
+      appliesTo: entry.appliesTo,
+      adaptPatterns: entry.adaptPatterns === true,
+    });
+  }
+
+  const variables = manifest.variables ?? {};
+  if (typeof variables !== "object" || Array.isArray(variables)) {
+    throw new Error(`Rule pack ${manifest.name}: variables must be an object`);
+  }
+  for (const [name, value] of Object.entries(variables)) {
+    if (!isTemplateVariableName(name) || !isTemplateValue(value)) {
+      throw new Error(
+        `Rule pack ${manifest.name}: variable ${name} must be a string, number, boolean or array of strings`
+      );
+    }
+  }
+
+  return {
+    name: manifest.name,
+    version: manifest.version,
+    description: manifest.description,
+    source: dir,
+    rules,
+    variables,
+    fragments: await loadFragments(
+      manifest.name,
+      dir,
+      manifest.fragments ?? DEFAULT_FRAGMENTS_DIR,
+      manifest.fragments !== undefined
+    ),
+  };
+}
+
+/**
+ * Reads the .md files of a pack's fragments directory, keyed by their name
+ * without the extension. A missing directory is only an error when the
+ * manifest names it.
+ */
+async function loadFragments(
+  packName: string,
+  dir: string,
+  fragmentsDir: string,
+  required: boolean
+): Promise<Record<string, string>> {
+  const fullPath = path.resolve(dir, fragmentsDir);
+  if (path.relative(dir, fullPath).startsWith("..")) {
+    throw new Error(
+      `Rule pack ${packName}: ${fragmentsDir} is outside the pack`
+    );
+  }
+
+  let names: string[];
+  try {
+    names = await fs.readdir(fullPath);
+  } catch (error) {
+    if (required) {
+      throw new Error(
+        `Rule pack ${packName}: cannot read fragments directory ${fragmentsDir}: ${error}`
+      );
+    }
+    return {};
+  }
+
+  const fragments: Record<string, string> = {};
+  for (const name of names.filter((name) => name.endsWith(".md")).sort()) {
+    fragments[name.replace(/\.md$/, "")] = await fs.readFile(
+      path.join(fullPath, name),
+      "utf-8"
+    );
+  }
+  return fragments;
+}
+
+/**
+ * Loads the given packs and combines their rules. When two packs ship a file
+ * with the same name, the later pack wins, so a company pack listed after
+ * `default` can replace individual default rules.
+ */
+export async function resolveRulePacks(
+  specs: string[],
+  rootPath: string
+): Promise<{ packs: RulePack[]; rules: ResolvedRule[] }> {
+  const packs: RulePack[] = [];
+  for (const spec of specs) {
+    const pack = await loadRulePack(spec, rootPath);
+    if (packs.some((loaded) => loaded.name === pack.name)) {
+      throw new Error(`Rule pack ${pack.name} is selected more than once`);
+    }
+    packs.push(pack);
+  }
+
+  const byFilename = new Map<string, ResolvedRule>();
+  for (const pack of packs) {
+    for (const rule of pack.rules) {
+      byFilename.set(rule.filename, {
+        ...rule,
+        pack: pack.name,
+        packVersion: pack.version,
+      });
+    }
+  }
+
+  return { packs, rules: Array.from(byFilename.values()) };
+}
+
+/**
+ * Picks the rules to deploy: rules whose `appliesTo` matches the detected
+ * stack, plus included categories, minus excluded ones. Rules with
+ * `adaptPatterns` get file patterns for the detected languages. Without a
+ * stack, or when it found no language, every rule applies as written.
+ */
+export function selectRules(
+  rules: ResolvedRule[],
+  selection: RuleSelection
+): { rules: ResolvedRule[]; skipped: SkippedRule[] } {
+  const include = new Set(selection.include ?? []);
+  const exclude = new Set(selection.exclude ?? []);
+  const categories = new Set(rules.map(categoryOf));
+  for (const category of [...include, ...exclude]) {
+    if (!categories.has(category)) {
+      throw new Error(
+        `Unknown rule category ${category}; available: ${Array.from(
+          categories
+        ).join(", ")}`
+      );
+    }
+    if (include.has(category) && exclude.has(category)) {
+      throw new Error(
+        `Rule category ${category} is both included and excluded`
+      );
+    }
+  }
+
+  const { stack } = selection;
+  const tags = stack && stack.languages.length > 0 ? stackTags(stack) : null;
+  const selected: ResolvedRule[] = [];
+  const skipped: SkippedRule[] = [];
+  for (const rule of rules) {
+    const category = categoryOf(rule);
+    const applicable =
+      !tags || !rule.appliesTo || rule.appliesTo.some((tag) => tags.has(tag));
+    if (exclude.has(category) || (!applicable && !include.has(category))) {
+      skipped.push({
+        category,
+        filename: rule.filename,
+        reason: exclude.has(category) ? "excluded" : "not-applicable",
+      });
+      continue;
+    }
+    selected.push(
+      stack && rule.adaptPatterns
+        ? { ...rule, content: adaptRuleToStack(rule.content, stack) }
+        : rule
+    );
+  }
+  return { rules: selected, skipped };
+}
+
+/**
+ * Fills in the placeholders, sections and includes of each rule. The packs'
+ * variables and fragments are combined in order, later packs winning, and
+ * `variables` overrides them. Fails listing every placeholder that could not
+ * be resolved, so nothing half-rendered is ever written.
+ */
+export function renderRules(
+  rules: ResolvedRule[],
+  packs: RulePack[],
+  variables: TemplateVariables
+): ResolvedRule[] {
+  const combined: TemplateVariables = Object.assign(
+    {},
+    ...packs.map((pack) => pack.variables),
+    variables
+  );
+  const fragments: Record<string, string> = Object.assign(
+    {},
+    ...packs.map((pack) => pack.fragments)
+  );
+
+  const issues: string[] = [];
+  const rendered = rules.map((rule) => {
+    const result = renderTemplate(
+      rule.content,
+      rule.filename,
+      combined,
+      fragments
+    );
+    issues.push(
+      ...result.issues.map(
+        (issue) => `${issue.source}:${issue.line}: ${issue.message}`
+      )
+    );
+    return { ...rule, content: result.content };
+  });
+  if (issues.length > 0) {
+    throw new Error(
+      `Rule templates could not be rendered:\n${issues.join("\n")}`
+    );
+  }
+  return rendered;
+}
+
+function categoryOf(rule: PackRule): string {
+  return rule.category ?? rule.filename.replace(/\.mdc$/, "");
+}
+
+async function discoverRuleFiles(dir: string): Promise<RulePackFileEntry[]> {
+  for (const candidate of [dir, path.join(dir, "rules")]) {
+    let names: string[];
+    try {
+      names = await fs.readdir(candidate);
+    } catch (error) {
+      continue;
+    }
+    const ruleFiles = names.filter((name) => name.endsWith(".mdc")).sort();
+    if (ruleFiles.length > 0) {
+      return ruleFiles.map((name) => ({
+        filename: name,
+        path: path.relative(dir, path.join(candidate, name)),
+      }));
+    }
+  }
+  return [];
+}
+
+async function readJson(filePath: string): Promise<any | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error}`);
+  }
+}
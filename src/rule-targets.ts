@@ -0,0 +1,204 @@
+// Rule targets - render rule templates into the files each AI assistant reads
+
+import { CursorRule } from "./rules-template.js";
+import { parseRule } from "./mdc.js";
+
+export const RULE_TARGETS = [
+  "cursor",
+  "copilot",
+  "claude",
+  "windsurf",
+  "cline",
+  "agents",
+] as const;
+export type RuleTargetName = (typeof RULE_TARGETS)[number];
+
+export interface RenderedRuleFile {
+  filename: string; // Relative to the target directory
+  content: string;
+  sources: string[]; // Filenames of the rules it was rendered from
+}
+
+export interface RuleTarget {
+  name: RuleTargetName;
+  description: string;
+  dir: string; // Relative to the workspace root, "." for the root itself
+  // Extension of the files a directory target owns; absent for targets that
+  // write a single file
+  extension?: string;
+  render(rules: CursorRule[], header: string): RenderedRuleFile[];
+}
+
+/**
+ * Creates a target that combines every rule into one markdown document, for
+ * assistants that read a single instructions file.
+ */
+function singleFileTarget(
+  name: RuleTargetName,
+  description: string,
+  dir: string,
+  filename: string,
+  title: string
+): RuleTarget {
+  return {
+    name,
+    description,
+    dir,
+    render: (rules, header) => [
+      {
+        filename,
+        content: renderCombined(rules, header, title),
+        sources: rules.map((rule) => rule.filename),
+      },
+    ],
+  };
+}
+
+export const RULE_TARGET_DEFINITIONS: Record<RuleTargetName, RuleTarget> = {
+  cursor: {
+    name: "cursor",
+    description: "Cursor project rules (.cursor/rules/*.mdc)",
+    dir: ".cursor/rules",
+    extension: ".mdc",
+    // The templates are written in Cursor's format already
+    render: (rules) =>
+      rules.map((rule) => ({
+        filename: rule.filename,
+        content: rule.content,
+        sources: [rule.filename],
+      })),
+  },
+  copilot: singleFileTarget(
+    "copilot",
+    "GitHub Copilot repository instructions (.github/copilot-instructions.md)",
+    ".github",
+    "copilot-instructions.md",
+    "Copilot Instructions"
+  ),
+  claude: singleFileTarget(
+    "claude",
+    "Claude project memory (CLAUDE.md)",
+    ".",
+    "CLAUDE.md",
+    "Project Guidelines"
+  ),
+  windsurf: singleFileTarget(
+    "windsurf",
+    "Windsurf workspace rules (.windsurfrules)",
+    ".",
+    ".windsurfrules",
+    "Windsurf Rules"
+  ),
+  cline: {
+    name: "cline",
+    description: "Cline rules (.clinerules/*.md)",
+    dir: ".clinerules",
+    extension: ".md",
+    render: (rules, header) =>
+      rules.map((rule) => ({
+        filename: rule.filename.replace(/\.mdc$/, ".md"),
+        content: renderClineRule(rule, header),
+        sources: [rule.filename],
+      })),
+  },
+  agents: singleFileTarget(
+    "agents",
+    "AGENTS.md instructions read by Codex and other agents",
+    ".",
+    "AGENTS.md",
+    "Agent Instructions"
+  ),
+};
+
+/**
+ * Describes when Cursor would apply a rule, so assistants without apply
+ * modes can tell when a section is relevant.
+ */
+function describeApplicability(rule: CursorRule): string | null {
+  const { frontMatter } = parseRule(rule.content);
+  const patterns = Array.isArray(frontMatter.filePatterns)
+    ? frontMatter.filePatterns.filter(
+        (pattern): pattern is string => typeof pattern === "string"
+      )
+    : [];
+  const patternList = patterns.map((pattern) => `\`${pattern}\``).join(", ");
+
+  switch (frontMatter.applyMode) {
+    case "always":
+      return null;
+    case "manual":
+      return "_Apply only when explicitly asked to._";
+    case "agent-requested":
+      return frontMatter.description
+        ? `_Apply when relevant: ${frontMatter.description}._`
+        : "_Apply when relevant._";
+    default:
+      return patternList ? `_Applies to files matching ${patternList}._` : null;
+  }
+}
+
+function renderCombined(
+  rules: CursorRule[],
+  header: string,
+  title: string
+): string {
+  const sections = rules.map((rule) => {
+    const { body } = parseRule(rule.content);
+    const applicability = describeApplicability(rule);
+    // Each rule's own headings move down a level under the document title
+    const demoted = demoteHeadings(body.trim());
+    if (!applicability) return demoted;
+
+    // Keep the applicability note right under the rule's heading
+    const [first, ...rest] = demoted.split("\n");
+    return first.startsWith("#")
+      ? [first, "", applicability, ...rest].join("\n")
+      : [applicability, "", demoted].join("\n");
+  });
+
+  return [`<!-- ${header} -->`, "", `# ${title}`, "", sections.join("\n\n")]
+    .join("\n")
+    .concat("\n");
+}
+
+function renderClineRule(rule: CursorRule, header: string): string {
+  const { frontMatter, body } = parseRule(rule.content);
+  const patterns = Array.isArray(frontMatter.filePatterns)
+    ? frontMatter.filePatterns.filter(
+        (pattern): pattern is string => typeof pattern === "string"
+      )
+    : [];
+
+  const lines: string[] = [];
+  // Cline applies rules with a `paths` list only to matching files
+  if (frontMatter.applyMode === "auto-attach" && patterns.length > 0) {
+    lines.push(
+      "---",
+      "paths:",
+      ...patterns.map((pattern) => `  - ${JSON.stringify(pattern)}`),
+      "---",
+      ""
+    );
+  }
+  lines.push(`<!-- ${header} -->`, "");
+
+  const applicability =
+    frontMatter.applyMode === "auto-attach"
+      ? null
+      : describeApplicability(rule);
+  if (applicability) lines.push(applicability, "");
+  lines.push(body.trim());
+
+  return lines.join("\n") + "\n";
+}
+
+function demoteHeadings(markdown: string): string {
+  let inFence = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      return !inFence && /^#{1,5}\s/.test(line) ? `#${line}` : line;
+    })
+    .join("\n");
+}
@@ -0,0 +1,1064 @@
+// Rule deployment - writes rule packs into each target and records what was written
+
+import fs from "fs/promises";
+import path from "path";
+
+import {
+  ContextDatabase,
+  RuleDeployment,
+  RuleFile,
+  RuleDeploymentProfile,
+  RulePackRef,
+} from "./database.js";
+import {
+  MergeConflict,
+  MergeResult,
+  mergeThreeWay,
+  unifiedDiff,
+} from "./merge.js";
+import { ResolvedRule, RulePack } from "./rule-packs.js";
+import {
+  RULE_TARGET_DEFINITIONS,
+  RULE_TARGETS,
+  RuleTargetName,
+} from "./rule-targets.js";
+
+export interface RuleDeploymentRequest {
+  workspaceRoot: string;
+  packs: RulePack[];
+  rules: ResolvedRule[];
+  targets: RuleTargetName[];
+  forceUpdate: boolean;
+  // Merge local edits with the new rules instead of refusing to deploy
+  merge?: boolean;
+  backupExisting: boolean;
+  deployedBy?: string;
+  profile?: RuleDeploymentProfile; // Stack the rules were selected for
+}
+
+export interface PlannedRuleFile {
+  target: RuleTargetName;
+  filename: string; // Relative to the target directory
+  path: string; // Relative to the workspace root, "/"-separated
+  content: string;
+  contentHash: string;
+  pack?: RulePackRef; // Absent when the file combines rules from several packs
+  currentHash?: string; // Hash of the file on disk, if it exists
+  deployedHash?: string; // Hash recorded when the target was last deployed
+  deployedContent?: string; // Content last deployed, when it was recorded
+}
+
+export interface MergedRuleFile {
+  target: RuleTargetName;
+  path: string;
+  change: LocalChange;
+  hasBase: boolean; // False when the deployed content was never recorded
+  conflicts: MergeConflict[];
+}
+
+// "modified" - edited since the server last deployed it
+// "unmanaged" - already there, never deployed by the server, and different
+export type LocalChange = "modified" | "unmanaged";
+
+export type RuleDeploymentOutcome =
+  | { status: "up-to-date"; templateVersion: string; files: PlannedRuleFile[] }
+  | {
+      status: "locally-modified";
+      templateVersion: string;
+      files: PlannedRuleFile[];
+      changed: (PlannedRuleFile & { change: LocalChange })[];
+      lastDeployment: RuleDeployment | null;
+    }
+  | {
+      status: "deployed";
+      templateVersion: string;
+      files: PlannedRuleFile[];
+      deploymentId: number;
+      deployedAt: string;
+      backupPath?: string; // Absolute
+      created: boolean; // True when none of the files existed before
+      merged: MergedRuleFile[]; // Files written with local edits merged in
+      prunedBackups: string[]; // Relative to the workspace root
+    };
+
+// A file the server deployed that the rules no longer include, still on disk
+export interface OrphanedRuleFile {
+  target: RuleTargetName;
+  filename: string;
+  path: string; // Relative to the workspace root
+  deployedHash: string; // Last hash deployed for the file
+  currentHash: string;
+  modified: boolean; // True when it matches nothing the server wrote
+}
+
+// A file in a target's directory the server never deployed
+export interface ExtraRuleFile {
+  target: RuleTargetName;
+  path: string;
+}
+
+export type RulePlanAction =
+  | "create"
+  | "update"
+  | "unchanged"
+  | "locally-modified"
+  | "orphaned";
+
+export interface RulePlanEntry {
+  action: RulePlanAction;
+  target: RuleTargetName;
+  path: string; // Relative to the workspace root
+  pack?: string; // "name@version", absent for combined files
+  change?: LocalChange; // For locally modified files
+  mergeConflicts?: number; // For locally modified files, when merging
+  diff?: string; // Unified diff from the file on disk to the new rules
+}
+
+export interface RuleDeploymentPlan {
+  templateVersion: string;
+  // What setup_project_rules would do with the same options
+  result: RuleDeploymentOutcome["status"];
+  files: RulePlanEntry[];
+  backup?: { path: string; files: string[] }; // Relative to the workspace root
+}
+
+export type RuleFileStatus =
+  | "in-sync"
+  | "modified" // Edited since it was deployed
+  | "missing" // Part of the rules but not on disk
+  | "outdated" // As deployed, but the rules have changed since
+  | "unmanaged" // On disk and different, but never deployed by the server
+  | "orphaned" // Deployed by the server, no longer part of the rules
+  | "extra"; // In a target's directory, never deployed by the server
+
+export interface RuleStatusEntry {
+  status: RuleFileStatus;
+  target: RuleTargetName;
+  path: string; // Relative to the workspace root
+  outdated?: boolean; // For modified files, when the rules changed too
+  modified?: boolean; // For orphaned files edited since they were deployed
+}
+
+export interface RulesStatusReport {
+  inSync: boolean;
+  currentVersion: string;
+  deployedVersion?: string;
+  lastDeployment?: { id: number; deployedAt: string };
+  // Version of each pack in the latest deployment and in the current rules
+  packs: { name: string; deployed?: string; current?: string }[];
+  counts: Record<RuleFileStatus, number>;
+  files: RuleStatusEntry[];
+  removed: string[]; // Orphaned files deleted, relative to the workspace root
+}
+
+export interface RuleRollbackRequest {
+  workspaceRoot: string;
+  deploymentId: number; // Deployment whose files are restored
+  backupExisting: boolean;
+  deployedBy?: string;
+}
+
+export interface RestoredRuleFile {
+  target: RuleTargetName;
+  filename: string;
+  path: string; // Relative to the workspace root
+  contentHash: string;
+  // "database" for content stored with the deployment, "workspace" when the
+  // file on disk is still as deployed, otherwise the backup directory it was
+  // recovered from, relative to the workspace root
+  source: string;
+  changed: boolean; // False when the file already had the restored content
+}
+
+export interface RuleRollbackOutcome {
+  deploymentId: number; // The deployment recording the rollback
+  rolledBackTo: RuleDeployment;
+  files: RestoredRuleFile[];
+  deployedAt: string;
+  backupPath?: string; // Absolute
+  prunedBackups: string[];
+}
+
+// How many backups to keep after each deployment; 0 keeps them all
+export interface BackupRetention {
+  keep: number;
+  maxAgeDays?: number; // Also remove backups older than this; 0 does not
+}
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = { keep: 10 };
+
+/**
+ * Reads the backup retention from DEV_ASSISTANT_BACKUP_RETENTION and
+ * DEV_ASSISTANT_BACKUP_MAX_AGE_DAYS, throwing for a value that is not a
+ * non-negative integer rather than pruning by a count that makes no sense.
+ */
+export function loadBackupRetention(
+  env: NodeJS.ProcessEnv = process.env
+): BackupRetention {
+  const parse = (name: string): number | undefined => {
+    const raw = env[name]?.trim();
+    if (!raw) return undefined;
+    if (!/^\d+$/.test(raw)) {
+      throw new Error(`${name} must be a non-negative integer, not "${raw}"`);
+    }
+    return Number(raw);
+  };
+
+  return {
+    keep:
+      parse("DEV_ASSISTANT_BACKUP_RETENTION") ?? DEFAULT_BACKUP_RETENTION.keep,
+    maxAgeDays: parse("DEV_ASSISTANT_BACKUP_MAX_AGE_DAYS"),
+  };
+}
+
+// Backups live outside the target directories so assistants never load them
+export const RULE_BACKUP_DIR = path.join(".dev-assistant", "backups");
+// Where backups went before rule targets, with the .mdc files directly inside
+const LEGACY_BACKUP_DIR = path.join(".cursor", "rules", "backups");
+
+export function templateVersionOf(packs: RulePack[]): string {
+  return packs.map((pack) => `${pack.name}@${pack.version}`).join(", ");
+}
+
+/**
+ * Renders the selected rules for each target and deploys them, refusing to
+ * overwrite local edits unless forced or asked to merge them. Every
+ * deployment is recorded per target and file, with the content written, so
+ * later deployments can tell what was changed by hand and merge it.
+ */
+export class RulesDeployer {
+  constructor(
+    private database: ContextDatabase,
+    private retention: BackupRetention = DEFAULT_BACKUP_RETENTION
+  ) {}
+
+  /**
+   * Works out the files each target needs, with the hash of what is on disk
+   * now and of what was last deployed there.
+   */
+  async plan(
+    request: Pick<
+      RuleDeploymentRequest,
+      "workspaceRoot" | "packs" | "rules" | "targets"
+    >,
+    timestamp: string = new Date().toISOString()
+  ): Promise<PlannedRuleFile[]> {
+    const templateVersion = templateVersionOf(request.packs);
+    const header = `Generated by dev-assistant-mcp-server from ${templateVersion}. Update with setup_project_rules; local edits are detected before overwriting.`;
+    const rules = request.rules.map((rule) => ({
+      ...rule,
+      content: rule.content.replace(/\{timestamp\}/g, timestamp),
+    }));
+    const rulesByFilename = new Map(rules.map((rule) => [rule.filename, rule]));
+
+    const planned: PlannedRuleFile[] = [];
+    for (const targetName of request.targets) {
+      const target = RULE_TARGET_DEFINITIONS[targetName];
+      const deployed = new Map(
+        (await this.database.getLatestRuleFiles(targetName)).map((file) => [
+          file.filename,
+          file,
+        ])
+      );
+
+      for (const file of target.render(rules, header)) {
+        const relativePath = path.posix.join(target.dir, file.filename);
+        const sourcePacks = new Set(
+          file.sources.map((source) => {
+            const rule = rulesByFilename.get(source)!;
+            return `${rule.pack}\n${rule.packVersion}`;
+          })
+        );
+        const [packName, packVersion] =
+          sourcePacks.size === 1 ? Array.from(sourcePacks)[0].split("\n") : [];
+
+        planned.push({
+          target: targetName,
+          filename: file.filename,
+          path: relativePath,
+          content: file.content,
+          contentHash: this.database.generateHash(file.content),
+          pack: packName ? { name: packName, version: packVersion } : undefined,
+          currentHash: await this.hashFile(
+            path.join(request.workspaceRoot, relativePath)
+          ),
+          deployedHash: deployed.get(file.filename)?.contentHash,
+          deployedContent: deployed.get(file.filename)?.content,
+        });
+      }
+    }
+
+    return planned;
+  }
+
+  /**
+   * Describes what deploy() would do with the same request, file by file,
+   * with diffs against the files on disk. Nothing is written to disk or to
+   * the database.
+   */
+  async preview(request: RuleDeploymentRequest): Promise<RuleDeploymentPlan> {
+    const now = new Date();
+    const templateVersion = templateVersionOf(request.packs);
+    const files = await this.plan(request, now.toISOString());
+    const result = blockingStatus(files, request) ?? "deployed";
+
+    const entries: RulePlanEntry[] = [];
+    for (const file of files) {
+      const filePath = path.join(request.workspaceRoot, file.path);
+      const current =
+        file.currentHash === undefined
+          ? null
+          : await fs.readFile(filePath, "utf-8");
+      const change = localChangeOf(file);
+
+      let action: RulePlanAction;
+      if (current === null) action = "create";
+      else if (file.currentHash === file.contentHash) action = "unchanged";
+      else if (change) action = "locally-modified";
+      else action = "update";
+
+      entries.push({
+        action,
+        target: file.target,
+        path: file.path,
+        pack: file.pack ? `${file.pack.name}@${file.pack.version}` : undefined,
+        change: change ?? undefined,
+        mergeConflicts:
+          change && request.merge && current !== null
+            ? mergeLocalEdits(file, current, templateVersion).conflicts.length
+            : undefined,
+        diff:
+          action === "unchanged"
+            ? undefined
+            : unifiedDiff(current, file.content, file.path),
+      });
+    }
+
+    const { orphans } = await this.findUnplannedFiles(
+      request.workspaceRoot,
+      request.targets,
+      files
+    );
+    for (const orphan of orphans) {
+      entries.push({
+        action: "orphaned",
+        target: orphan.target,
+        path: orphan.path,
+      });
+    }
+
+    const existing = files
+      .filter((file) => file.currentHash !== undefined)
+      .map((file) => file.path);
+    return {
+      templateVersion,
+      result,
+      files: entries,
+      backup:
+        result === "deployed" && request.backupExisting && existing.length > 0
+          ? {
+              path: path.join(RULE_BACKUP_DIR, backupDirName(now)),
+              files: existing,
+            }
+          : undefined,
+    };
+  }
+
+  async deploy(request: RuleDeploymentRequest): Promise<RuleDeploymentOutcome> {
+    const now = new Date();
+    const templateVersion = templateVersionOf(request.packs);
+    const files = await this.plan(request, now.toISOString());
+
+    const status = blockingStatus(files, request);
+    if (status === "up-to-date") {
+      return { status, templateVersion, files };
+    }
+    if (status === "locally-modified") {
+      const changed = files.flatMap((file) => {
+        const change = localChangeOf(file);
+        return change ? [{ ...file, change }] : [];
+      });
+      return {
+        status,
+        templateVersion,
+        files,
+        changed,
+        lastDeployment: await this.database.getLatestRuleDeployment(),
+      };
+    }
+
+    const merged: MergedRuleFile[] = [];
+    const writes: StagedWrite[] = [];
+    for (const file of files) {
+      let content = file.content;
+
+      const change = localChangeOf(file);
+      if (request.merge && !request.forceUpdate && change) {
+        const result = mergeLocalEdits(
+          file,
+          await fs.readFile(
+            path.join(request.workspaceRoot, file.path),
+            "utf-8"
+          ),
+          templateVersion
+        );
+        content = result.content;
+        merged.push({
+          target: file.target,
+          path: file.path,
+          change,
+          hasBase: file.deployedContent !== undefined,
+          conflicts: result.conflicts,
+        });
+      }
+      writes.push({ path: file.path, content });
+    }
+
+    const existing = files.filter((file) => file.currentHash !== undefined);
+    const { deploymentId, backupPath } = await this.commitDeployment(
+      request.workspaceRoot,
+      writes,
+      request.backupExisting ? existing.map((file) => file.path) : [],
+      now,
+      (backupPath, apply) =>
+        this.database.recordRuleDeployment(
+          {
+            templateVersion,
+            deployedBy: request.deployedBy,
+            backupPath,
+            packs: request.packs.map(({ name, version }) => ({
+              name,
+              version,
+            })),
+            targets: request.targets,
+            profile: request.profile,
+          },
+          // The rendered rules are recorded rather than any merge, so they
+          // stay the base for carrying local edits into the next deployment
+          files.map((file) => ({
+            target: file.target,
+            filename: file.filename,
+            contentHash: file.contentHash,
+            packName: file.pack?.name,
+            packVersion: file.pack?.version,
+            content: file.content,
+          })),
+          apply
+        )
+    );
+
+    return {
+      status: "deployed",
+      templateVersion,
+      files,
+      deploymentId,
+      deployedAt: now.toISOString(),
+      backupPath,
+      created: existing.length === 0,
+      merged,
+      prunedBackups: await this.pruneBackups(request.workspaceRoot),
+    };
+  }
+
+  /**
+   * Compares each target's files on disk with what was last deployed and
+   * with the current rules. With `cleanOrphans`, orphaned files the server
+   * deployed are deleted, unless they were edited since.
+   */
+  async status(
+    request: Pick<
+      RuleDeploymentRequest,
+      "workspaceRoot" | "packs" | "rules" | "targets"
+    >,
+    cleanOrphans: boolean = false
+  ): Promise<RulesStatusReport> {
+    const files = await this.plan(request);
+    const entries: RuleStatusEntry[] = files.map((file) => {
+      let status: RuleFileStatus;
+      if (file.currentHash === undefined) {
+        status = "missing";
+      } else if (file.deployedHash === undefined) {
+        // Matching the rules counts as in sync even if never recorded
+        status =
+          file.currentHash === file.contentHash ? "in-sync" : "unmanaged";
+      } else if (file.currentHash !== file.deployedHash) {
+        status = "modified";
+      } else {
+        status =
+          file.deployedHash === file.contentHash ? "in-sync" : "outdated";
+      }
+
+      return {
+        status,
+        target: file.target,
+        path: file.path,
+        outdated:
+          status === "modified"
+            ? file.deployedHash !== file.contentHash
+            : undefined,
+      };
+    });
+
+    const { orphans, extras } = await this.findUnplannedFiles(
+      request.workspaceRoot,
+      request.targets,
+      files
+    );
+    const removed: string[] = [];
+    for (const orphan of orphans) {
+      if (cleanOrphans && !orphan.modified) {
+        await fs.rm(path.join(request.workspaceRoot, orphan.path), {
+          force: true,
+        });
+        removed.push(orphan.path);
+        continue;
+      }
+      entries.push({
+        status: "orphaned",
+        target: orphan.target,
+        path: orphan.path,
+        modified: orphan.modified,
+      });
+    }
+    for (const extra of extras) {
+      entries.push({ status: "extra", ...extra });
+    }
+
+    const counts: Record<RuleFileStatus, number> = {
+      "in-sync": 0,
+      modified: 0,
+      missing: 0,
+      outdated: 0,
+      unmanaged: 0,
+      orphaned: 0,
+      extra: 0,
+    };
+    for (const entry of entries) counts[entry.status]++;
+
+    const latest = await this.database.getLatestRuleDeployment();
+    const packNames = Array.from(
+      new Set([
+        ...(latest?.packs ?? []).map((pack) => pack.name),
+        ...request.packs.map((pack) => pack.name),
+      ])
+    );
+
+    return {
+      // Extra files are the user's own and do not affect the rules
+      inSync: entries.every(
+        (entry) => entry.status === "in-sync" || entry.status === "extra"
+      ),
+      currentVersion: templateVersionOf(request.packs),
+      deployedVersion: latest?.templateVersion,
+      lastDeployment: latest
+        ? { id: latest.id, deployedAt: latest.deployedAt }
+        : undefined,
+      packs: packNames.map((name) => ({
+        name,
+        deployed: latest?.packs.find((pack) => pack.name === name)?.version,
+        current: request.packs.find((pack) => pack.name === name)?.version,
+      })),
+      counts,
+      files: entries,
+      removed,
+    };
+  }
+
+  /**
+   * Restores the files a deployment wrote, from the content stored with it
+   * or from the backups taken by later deployments. All files are replaced
+   * together and checked against the recorded hashes; if any step fails the
+   * previous files are put back. The rollback is recorded as a deployment of
+   * its own, so the restored files become the base for the next update.
+   */
+  async rollback(request: RuleRollbackRequest): Promise<RuleRollbackOutcome> {
+    const now = new Date();
+    const deployment = await this.database.getRuleDeployment(
+      request.deploymentId
+    );
+    if (!deployment) {
+      throw new Error(`Rule deployment ${request.deploymentId} not found`);
+    }
+
+    const ruleFiles = await this.database.getRuleFiles(deployment.id);
+    if (ruleFiles.length === 0) {
+      throw new Error(
+        `Rule deployment ${deployment.id} has no recorded files to restore`
+      );
+    }
+
+    // Backups taken after the deployment hold its files, oldest first
+    const laterBackups = (await this.database.getRuleDeploymentHistory(-1))
+      .filter(
+        (later) =>
+          later.backupPath &&
+          (later.deployedAt > deployment.deployedAt ||
+            (later.deployedAt === deployment.deployedAt &&
+              later.id > deployment.id))
+      )
+      .reverse()
+      .map((later) => later.backupPath!);
+
+    const restores: (RestoredRuleFile & {
+      content: string;
+      pack?: RulePackRef;
+    })[] = [];
+    const unrecoverable: string[] = [];
+    for (const file of ruleFiles) {
+      if (!(RULE_TARGETS as readonly string[]).includes(file.target)) {
+        throw new Error(`Unknown rule target ${file.target}`);
+      }
+      const target = file.target as RuleTargetName;
+      const relativePath = path.posix.join(
+        RULE_TARGET_DEFINITIONS[target].dir,
+        file.filename
+      );
+
+      const recovered = await this.recoverContent(
+        request.workspaceRoot,
+        file,
+        relativePath,
+        laterBackups
+      );
+      if (!recovered) {
+        unrecoverable.push(relativePath);
+        continue;
+      }
+      restores.push({
+        target,
+        filename: file.filename,
+        path: relativePath,
+        contentHash: file.contentHash,
+        source: recovered.source,
+        content: recovered.content,
+        pack: file.packName
+          ? { name: file.packName, version: file.packVersion ?? "" }
+          : undefined,
+        changed:
+          (await this.hashFile(
+            path.join(request.workspaceRoot, relativePath)
+          )) !== file.contentHash,
+      });
+    }
+    if (unrecoverable.length > 0) {
+      throw new Error(
+        `Cannot restore deployment ${
+          deployment.id
+        }: no stored content or matching backup for ${unrecoverable.join(", ")}`
+      );
+    }
+
+    const changed = restores.filter((file) => file.changed);
+    const existing: string[] = [];
+    for (const file of changed) {
+      const filePath = path.join(request.workspaceRoot, file.path);
+      if ((await this.hashFile(filePath)) !== undefined) {
+        existing.push(file.path);
+      }
+    }
+    const { deploymentId, backupPath } = await this.commitDeployment(
+      request.workspaceRoot,
+      changed.map((file) => ({ path: file.path, content: file.content })),
+      request.backupExisting ? existing : [],
+      now,
+      (backupPath, apply) =>
+        this.database.recordRuleDeployment(
+          {
+            templateVersion: deployment.templateVersion,
+            deployedBy: request.deployedBy,
+            backupPath,
+            packs: deployment.packs,
+            targets: deployment.targets,
+            rollbackOf: deployment.id,
+          },
+          restores.map((file) => ({
+            target: file.target,
+            filename: file.filename,
+            contentHash: file.contentHash,
+            packName: file.pack?.name,
+            packVersion: file.pack?.version,
+            content: file.content,
+          })),
+          apply
+        )
+    );
+
+    return {
+      deploymentId,
+      rolledBackTo: deployment,
+      files: restores.map(({ content, pack, ...file }) => file),
+      deployedAt: now.toISOString(),
+      backupPath,
+      prunedBackups: await this.pruneBackups(request.workspaceRoot),
+    };
+  }
+
+  /**
+   * Removes backups beyond the retention policy, newest kept first, from
+   * both the current and the legacy backup directory.
+   */
+  async pruneBackups(workspaceRoot: string): Promise<string[]> {
+    const backups: { path: string; name: string }[] = [];
+    for (const dir of [RULE_BACKUP_DIR, LEGACY_BACKUP_DIR]) {
+      let names: string[];
+      try {
+        names = await fs.readdir(path.join(workspaceRoot, dir));
+      } catch (error) {
+        continue;
+      }
+      for (const name of names.filter((name) => name.startsWith("backup-"))) {
+        backups.push({ path: path.join(workspaceRoot, dir, name), name });
+      }
+    }
+    // Names embed the backup's timestamp, so they sort chronologically
+    backups.sort((a, b) => b.name.localeCompare(a.name));
+
+    const cutoff =
+      this.retention.maxAgeDays
+        ? Date.now() - this.retention.maxAgeDays * 86400000
+        : undefined;
+    const pruned: string[] = [];
+    for (const [index, backup] of backups.entries()) {
+      const beyondCount =
+        this.retention.keep > 0 && index >= this.retention.keep;
+      const tooOld =
+        cutoff !== undefined && (await fs.stat(backup.path)).mtimeMs < cutoff;
+      if (beyondCount || tooOld) {
+        await fs.rm(backup.path, { recursive: true, force: true });
+        pruned.push(path.relative(workspaceRoot, backup.path));
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * Writes a deployment's files and records it, all or nothing. The files
+   * are staged in a temporary directory first, then the existing files are
+   * backed up and `record` stores the deployment in a transaction that runs
+   * `apply`, moving the staged files into place and checking their hashes,
+   * before committing. On any failure the
+   * previous files are put back, the backup is removed and nothing is
+   * recorded.
+   */
+  private async commitDeployment(
+    workspaceRoot: string,
+    writes: StagedWrite[],
+    backupPaths: string[],
+    now: Date,
+    record: (
+      backupPath: string | undefined,
+      apply: () => Promise<void>
+    ) => Promise<number>
+  ): Promise<{ deploymentId: number; backupPath?: string }> {
+    const staged = await stageFiles(workspaceRoot, writes);
+    let backupPath: string | undefined;
+    try {
+      backupPath = await this.backupFiles(workspaceRoot, backupPaths, now);
+      const deploymentId = await record(backupPath, async () => {
+        await staged.commit();
+        await this.verifyFiles(workspaceRoot, writes);
+      });
+      return { deploymentId, backupPath };
+    } catch (error) {
+      await staged.undo();
+      if (backupPath) {
+        await fs.rm(backupPath, { recursive: true, force: true });
+      }
+      throw error;
+    } finally {
+      await staged.discard();
+    }
+  }
+
+  /**
+   * Checks each written file against the content meant for it.
+   */
+  private async verifyFiles(
+    workspaceRoot: string,
+    writes: StagedWrite[]
+  ): Promise<void> {
+    for (const write of writes) {
+      const filePath = path.join(workspaceRoot, write.path);
+      if (
+        (await this.hashFile(filePath)) !==
+        this.database.generateHash(write.content)
+      ) {
+        throw new Error(`Rule file does not match after write: ${filePath}`);
+      }
+    }
+  }
+
+  /**
+   * Copies the given workspace files into a new timestamped backup
+   * directory, keeping their paths. Returns undefined when there is nothing
+   * to back up.
+   */
+  private async backupFiles(
+    workspaceRoot: string,
+    relativePaths: string[],
+    now: Date
+  ): Promise<string | undefined> {
+    if (relativePaths.length === 0) return undefined;
+
+    const backupPath = path.join(
+      workspaceRoot,
+      RULE_BACKUP_DIR,
+      backupDirName(now)
+    );
+    await fs.mkdir(backupPath, { recursive: true });
+    try {
+      for (const relativePath of relativePaths) {
+        const backupFilePath = path.join(backupPath, relativePath);
+        await fs.mkdir(path.dirname(backupFilePath), { recursive: true });
+        await fs.copyFile(
+          path.join(workspaceRoot, relativePath),
+          backupFilePath
+        );
+      }
+    } catch (error) {
+      // A partial backup would be listed and pruned like a complete one
+      await fs.rm(backupPath, { recursive: true, force: true });
+      throw error;
+    }
+    return backupPath;
+  }
+
+  /**
+   * Finds files of the given targets that the rules no longer include:
+   * orphans the server deployed at some point, and extra files in a target's
+   * directory it never wrote.
+   */
+  async findUnplannedFiles(
+    workspaceRoot: string,
+    targets: RuleTargetName[],
+    files: PlannedRuleFile[]
+  ): Promise<{ orphans: OrphanedRuleFile[]; extras: ExtraRuleFile[] }> {
+    const orphans: OrphanedRuleFile[] = [];
+    const extras: ExtraRuleFile[] = [];
+    for (const target of targets) {
+      const definition = RULE_TARGET_DEFINITIONS[target];
+      const planned = new Set(
+        files
+          .filter((file) => file.target === target)
+          .map((file) => file.filename)
+      );
+
+      // Hashes the server wrote for each file, newest first
+      const deployedHashes = new Map<string, string[]>();
+      for (const file of await this.database.getRuleFileHistory(target)) {
+        const hashes = deployedHashes.get(file.filename) ?? [];
+        hashes.push(file.contentHash);
+        deployedHashes.set(file.filename, hashes);
+      }
+
+      const candidates = new Set(deployedHashes.keys());
+      if (definition.extension) {
+        try {
+          const entries = await fs.readdir(
+            path.join(workspaceRoot, definition.dir),
+            { withFileTypes: true }
+          );
+          for (const entry of entries) {
+            if (entry.isFile() && entry.name.endsWith(definition.extension)) {
+              candidates.add(entry.name);
+            }
+          }
+        } catch (error) {
+          // The target's directory does not exist yet
+        }
+      }
+
+      for (const filename of Array.from(candidates).sort()) {
+        if (planned.has(filename)) continue;
+        const relativePath = path.posix.join(definition.dir, filename);
+        const currentHash = await this.hashFile(
+          path.join(workspaceRoot, relativePath)
+        );
+        if (currentHash === undefined) continue;
+
+        const hashes = deployedHashes.get(filename);
+        if (hashes) {
+          orphans.push({
+            target,
+            filename,
+            path: relativePath,
+            deployedHash: hashes[0],
+            currentHash,
+            modified: !hashes.includes(currentHash),
+          });
+        } else {
+          extras.push({ target, path: relativePath });
+        }
+      }
+    }
+    return { orphans, extras };
+  }
+
+  private async recoverContent(
+    workspaceRoot: string,
+    file: RuleFile,
+    relativePath: string,
+    backupPaths: string[]
+  ): Promise<{ content: string; source: string } | null> {
+    if (file.content !== undefined) {
+      return { content: file.content, source: "database" };
+    }
+
+    try {
+      const content = await fs.readFile(
+        path.join(workspaceRoot, relativePath),
+        "utf-8"
+      );
+      if (this.database.generateHash(content) === file.contentHash) {
+        return { content, source: "workspace" };
+      }
+    } catch (error) {
+      // Not on disk any more; look in the backups
+    }
+
+    for (const backupPath of backupPaths) {
+      const candidates = [path.join(backupPath, relativePath)];
+      // Legacy backups hold Cursor rules directly in the backup directory
+      if (file.target === "cursor") {
+        candidates.push(path.join(backupPath, file.filename));
+      }
+      for (const candidate of candidates) {
+        let content: string;
+        try {
+          content = await fs.readFile(candidate, "utf-8");
+        } catch (error) {
+          continue;
+        }
+        // A backup may hold local edits made after the deployment
+        if (this.database.generateHash(content) === file.contentHash) {
+          return {
+            content,
+            source: path.relative(workspaceRoot, backupPath),
+          };
+        }
+      }
+    }
+    return null;
+  }
+
+  private async hashFile(filePath: string): Promise<string | undefined> {
+    try {
+      return this.database.generateHash(await fs.readFile(filePath, "utf-8"));
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+interface StagedWrite {
+  path: string; // Relative to the workspace root
+  content: string;
+}
+
+interface StagedFiles {
+  commit(): Promise<void>; // Moves the staged files into place
+  undo(): Promise<void>; // Puts back what the moved files replaced
+  discard(): Promise<void>; // Removes the staging directory
+}
+
+/**
+ * Writes files into a staging directory inside the workspace, so they can
+ * be renamed into place without crossing filesystems.
+ */
+async function stageFiles(
+  workspaceRoot: string,
+  writes: StagedWrite[]
+): Promise<StagedFiles> {
+  const stagingRoot = path.join(workspaceRoot, path.dirname(RULE_BACKUP_DIR));
+  await fs.mkdir(stagingRoot, { recursive: true });
+  const stagingDir = await fs.mkdtemp(path.join(stagingRoot, "staging-"));
+  const discard = () => fs.rm(stagingDir, { recursive: true, force: true });
+
+  try {
+    for (const write of writes) {
+      const stagedPath = path.join(stagingDir, write.path);
+      await fs.mkdir(path.dirname(stagedPath), { recursive: true });
+      await fs.writeFile(stagedPath, write.content, "utf-8");
+    }
+  } catch (error) {
+    await discard();
+    throw new Error(`Failed to stage rule files: ${error}`);
+  }
+
+  // Content each moved file replaced, or null if it did not exist
+  const replaced = new Map<string, string | null>();
+  return {
+    async commit() {
+      for (const write of writes) {
+        const filePath = path.join(workspaceRoot, write.path);
+        let previous: string | null = null;
+        try {
+          previous = await fs.readFile(filePath, "utf-8");
+        } catch (error) {
+          // A new file
+        }
+        try {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.rename(path.join(stagingDir, write.path), filePath);
+        } catch (error) {
+          throw new Error(
+            `Failed to write rule file: ${filePath}. Error: ${error}`
+          );
+        }
+        replaced.set(filePath, previous);
+      }
+    },
+    async undo() {
+      for (const [filePath, previous] of replaced) {
+        if (previous === null) {
+          await fs.rm(filePath, { force: true });
+        } else {
+          await fs.writeFile(filePath, previous, "utf-8");
+        }
+      }
+      replaced.clear();
+    },
+    discard,
+  };
+}
+
+function mergeLocalEdits(
+  file: PlannedRuleFile,
+  local: string,
+  templateVersion: string
+): MergeResult {
+  return mergeThreeWay(file.deployedContent ?? null, local, file.content, {
+    local: "local",
+    base: "deployed",
+    incoming: templateVersion,
+  });
+}
+
+function backupDirName(now: Date): string {
+  return `backup-${now.toISOString().replace(/[:.]/g, "-")}`;
+}
+
+/**
+ * Why a deployment would stop before writing anything, or null when it
+ * would go ahead.
+ */
+function blockingStatus(
+  files: PlannedRuleFile[],
+  request: Pick<RuleDeploymentRequest, "forceUpdate" | "merge">
+): "up-to-date" | "locally-modified" | null {
+  if (request.forceUpdate) return null;
+  if (files.every((file) => file.currentHash === file.contentHash)) {
+    return "up-to-date";
+  }
+  if (!request.merge && files.some((file) => localChangeOf(file))) {
+    return "locally-modified";
+  }
+  return null;
+}
+
+function localChangeOf(file: PlannedRuleFile): LocalChange | null {
+  // Missing files and files already matching the new content are safe
+  if (!file.currentHash || file.currentHash === file.contentHash) return null;
+  if (!file.deployedHash) return "unmanaged";
+  return file.currentHash !== file.deployedHash ? "modified" : null;
+}
@@ -1,5 +1,7 @@
 // Cursor Rules Templates - Modern .mdc format with metadata
 
+import { TemplateVariables } from "./templating.js";
+
 export interface CursorRule {
   filename: string;
   content: string;
@@ -18,8 +20,8 @@ filePatterns: ["*.ts", "*.tsx", "*.js", "*.jsx", "*.vue", "*.svelte"]
 # Code Style & Formatting Standards
 
 ## General Principles
-- Use consistent indentation (2 spaces for JS/TS/React, 4 spaces for Python)
-- Maximum line length: 100 characters
+- Use consistent indentation ({{indentation}})
+- Maximum line length: {{maxLineLength}} characters
 - Use meaningful variable and function names that clearly express intent
 - Prefer explicit over implicit code
 - Write self-documenting code with clear naming conventions
@@ -110,10 +112,15 @@ filePatterns: ["*.test.ts", "*.test.tsx", "*.spec.ts", "*.spec.tsx", "**/__tests
 - Follow AAA pattern: Arrange, Act, Assert
 - Mock external dependencies
 - Test edge cases and error conditions
-- Maintain at least 80% code coverage
+- Maintain at least {{coverageThreshold}}% code coverage
+{{#if testFramework}}
+- Write tests with {{testFramework}}, the project's test framework
+{{/if}}
 
 ## Integration Testing
+{{#if frontend != false}}
 - Test component integration with React Testing Library
+{{/if}}
 - Test API endpoints with real HTTP calls
 - Use test databases for data layer testing
 - Test user workflows end-to-end
@@ -126,7 +133,9 @@ filePatterns: ["*.test.ts", "*.test.tsx", "*.spec.ts", "*.spec.tsx", "**/__tests
 
 ## Testing Best Practices
 - Test behavior, not implementation details
+{{#if frontend != false}}
 - Use data-testid for reliable element selection
+{{/if}}
 - Mock at the boundary (API calls, external services)
 - Write tests that would catch real bugs
 - Keep tests fast and independent
@@ -268,7 +277,7 @@ filePatterns: []
 ## Branch Strategy
 - Use feature branches for all development
 - Keep main/master branch always deployable
-- Use descriptive branch names: feature/user-authentication
+- Use descriptive branch names: {{branchNaming}}
 - Delete branches after merging
 - Use pull requests for all code changes
 
@@ -332,7 +341,16 @@ filePatterns: ["*.tsx", "*.jsx", "*.vue", "*.svelte", "*.html"]
   },
 ];
 
-export const TEMPLATE_VERSION = "2.0.0";
+export const TEMPLATE_VERSION = "2.1.0";
+
+// Values for the placeholders in the templates; the detected stack and the
+// project's .dev-assistant.json override them
+export const DEFAULT_TEMPLATE_VARIABLES: TemplateVariables = {
+  maxLineLength: 100,
+  indentation: "2 spaces for JS/TS/React, 4 spaces for Python",
+  coverageThreshold: 80,
+  branchNaming: "feature/user-authentication",
+};
 export const TEMPLATE_METADATA = {
   generatedBy: "dev-assistant-mcp-server",
   format: "cursor-mdc",
@@ -0,0 +1,322 @@
+// Stack detection - which languages and frameworks a project uses, so only
+// the rules that apply to it are deployed
+
+import fs from "fs/promises";
+import path from "path";
+
+import { parseRule, setFrontMatterField } from "./mdc.js";
+import { TemplateVariables } from "./templating.js";
+
+export interface ProjectStack {
+  languages: string[]; // e.g. "typescript", "python", "go"
+  frameworks: string[]; // e.g. "react", "django", "gin"
+  testFrameworks: string[]; // e.g. "jest", "pytest", "go-test"
+  packageManager?: string;
+  frontend: boolean; // A browser UI framework was found
+  markers: string[]; // Files the detection was based on
+}
+
+// Source and test globs for each language, used to adapt rule file patterns
+const LANGUAGE_PATTERNS: Record<string, { source: string[]; test: string[] }> =
+  {
+    typescript: {
+      source: ["*.ts", "*.tsx"],
+      test: ["*.test.ts", "*.test.tsx", "*.spec.ts", "*.spec.tsx"],
+    },
+    javascript: {
+      source: ["*.js", "*.jsx"],
+      test: ["*.test.js", "*.test.jsx", "*.spec.js", "*.spec.jsx"],
+    },
+    python: { source: ["*.py"], test: ["test_*.py", "*_test.py"] },
+    go: { source: ["*.go"], test: ["*_test.go"] },
+    rust: { source: ["*.rs"], test: ["tests/**/*.rs"] },
+    java: { source: ["*.java"], test: ["*Test.java"] },
+  };
+
+// Component files of frameworks that have their own extension
+const FRAMEWORK_PATTERNS: Record<string, string[]> = {
+  vue: ["*.vue"],
+  svelte: ["*.svelte"],
+};
+
+const FRONTEND_FRAMEWORKS = new Set([
+  "react",
+  "next",
+  "vue",
+  "nuxt",
+  "angular",
+  "svelte",
+  "sveltekit",
+  "solid",
+  "yew",
+  "leptos",
+]);
+
+// package.json dependency -> framework or test framework
+const NPM_FRAMEWORKS: Record<string, string> = {
+  react: "react",
+  next: "next",
+  vue: "vue",
+  nuxt: "nuxt",
+  "@angular/core": "angular",
+  svelte: "svelte",
+  "@sveltejs/kit": "sveltekit",
+  "solid-js": "solid",
+  express: "express",
+  fastify: "fastify",
+  koa: "koa",
+  "@nestjs/core": "nestjs",
+};
+const NPM_TEST_FRAMEWORKS: Record<string, string> = {
+  jest: "jest",
+  vitest: "vitest",
+  mocha: "mocha",
+  "@playwright/test": "playwright",
+  cypress: "cypress",
+};
+
+// Dependency names matched in Python, Go and Rust manifests
+const MANIFEST_FRAMEWORKS: Record<string, [RegExp, string][]> = {
+  python: [
+    [/\bdjango\b/i, "django"],
+    [/\bflask\b/i, "flask"],
+    [/\bfastapi\b/i, "fastapi"],
+  ],
+  go: [
+    [/github\.com\/gin-gonic\/gin\b/, "gin"],
+    [/github\.com\/labstack\/echo\b/, "echo"],
+    [/github\.com\/gofiber\/fiber\b/, "fiber"],
+  ],
+  rust: [
+    [/^\s*actix-web\s*=/m, "actix-web"],
+    [/^\s*axum\s*=/m, "axum"],
+    [/^\s*rocket\s*=/m, "rocket"],
+    [/^\s*yew\s*=/m, "yew"],
+    [/^\s*leptos\s*=/m, "leptos"],
+  ],
+};
+
+// Config files that identify a framework on their own
+const FRAMEWORK_MARKERS: [RegExp, string][] = [
+  [/^next\.config\.(js|mjs|cjs|ts)$/, "next"],
+  [/^nuxt\.config\.(js|mjs|ts)$/, "nuxt"],
+  [/^angular\.json$/, "angular"],
+  [/^svelte\.config\.(js|mjs|ts)$/, "svelte"],
+  [/^manage\.py$/, "django"],
+];
+
+const LOCKFILES: [string, string][] = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lockb", "bun"],
+  ["package-lock.json", "npm"],
+];
+
+/**
+ * Detects the stack from the manifests and config files at the project
+ * root. Nothing is executed; a project with none of the known files gets an
+ * empty stack.
+ */
+export async function detectProjectStack(root: string): Promise<ProjectStack> {
+  let names: string[];
+  try {
+    names = await fs.readdir(root);
+  } catch (error) {
+    names = [];
+  }
+  const present = new Set(names);
+  const read = (name: string) =>
+    present.has(name)
+      ? fs.readFile(path.join(root, name), "utf-8").catch(() => null)
+      : Promise.resolve(null);
+
+  const languages = new Set<string>();
+  const frameworks = new Set<string>();
+  const testFrameworks = new Set<string>();
+  const markers: string[] = [];
+  let packageManager: string | undefined;
+
+  const packageJsonText = await read("package.json");
+  if (packageJsonText !== null) {
+    markers.push("package.json");
+    languages.add("javascript");
+    let packageJson: any = {};
+    try {
+      packageJson = JSON.parse(packageJsonText);
+    } catch (error) {
+      // Still a JavaScript project, just without readable dependencies
+    }
+    const dependencies = new Set(
+      ["dependencies", "devDependencies", "peerDependencies"].flatMap((field) =>
+        Object.keys(packageJson?.[field] ?? {})
+      )
+    );
+    if (dependencies.has("typescript")) languages.add("typescript");
+    for (const [dependency, framework] of Object.entries(NPM_FRAMEWORKS)) {
+      if (dependencies.has(dependency)) frameworks.add(framework);
+    }
+    for (const [dependency, framework] of Object.entries(NPM_TEST_FRAMEWORKS)) {
+      if (dependencies.has(dependency)) testFrameworks.add(framework);
+    }
+    if (typeof packageJson?.packageManager === "string") {
+      packageManager = packageJson.packageManager.split("@")[0];
+    } else {
+      packageManager = LOCKFILES.find(([lockfile]) =>
+        present.has(lockfile)
+      )?.[1];
+    }
+  }
+  if (present.has("tsconfig.json")) {
+    markers.push("tsconfig.json");
+    languages.add("typescript");
+  }
+
+  const manifests: [string, string][] = [
+    ["pyproject.toml", "python"],
+    ["requirements.txt", "python"],
+    ["setup.py", "python"],
+    ["Pipfile", "python"],
+    ["go.mod", "go"],
+    ["Cargo.toml", "rust"],
+    ["pom.xml", "java"],
+    ["build.gradle", "java"],
+    ["build.gradle.kts", "java"],
+  ];
+  for (const [name, language] of manifests) {
+    const text = await read(name);
+    if (text === null) continue;
+    markers.push(name);
+    languages.add(language);
+    for (const [pattern, framework] of MANIFEST_FRAMEWORKS[language] ?? []) {
+      if (pattern.test(text)) frameworks.add(framework);
+    }
+    if (language === "python" && /\bpytest\b/.test(text)) {
+      testFrameworks.add("pytest");
+    }
+  }
+  if (languages.has("go")) testFrameworks.add("go-test");
+  if (languages.has("rust")) testFrameworks.add("cargo-test");
+
+  for (const name of names) {
+    const marker = FRAMEWORK_MARKERS.find(([pattern]) => pattern.test(name));
+    if (marker) {
+      markers.push(name);
+      frameworks.add(marker[1]);
+    }
+  }
+  // Meta-frameworks imply the library they build on
+  if (frameworks.has("next")) frameworks.add("react");
+  if (frameworks.has("nuxt")) frameworks.add("vue");
+  if (frameworks.has("sveltekit")) frameworks.add("svelte");
+  if (frameworks.has("django")) languages.add("python");
+
+  return {
+    languages: Array.from(languages).sort(),
+    frameworks: Array.from(frameworks).sort(),
+    testFrameworks: Array.from(testFrameworks).sort(),
+    packageManager,
+    frontend: Array.from(frameworks).some((framework) =>
+      FRONTEND_FRAMEWORKS.has(framework)
+    ),
+    markers,
+  };
+}
+
+/**
+ * Tags a rule's `appliesTo` list is matched against: the languages,
+ * frameworks, and "frontend" or "backend".
+ */
+export function stackTags(stack: ProjectStack): Set<string> {
+  const tags = new Set([...stack.languages, ...stack.frameworks]);
+  tags.add(stack.frontend ? "frontend" : "backend");
+  // A frontend project with its own server code is both
+  if (
+    stack.frontend &&
+    stack.frameworks.some(
+      (framework) => !FRONTEND_FRAMEWORKS.has(framework) && framework !== "next"
+    )
+  ) {
+    tags.add("backend");
+  }
+  return tags;
+}
+
+/**
+ * Rewrites the language-specific globs in a rule's `filePatterns` for the
+ * detected languages: source globs such as `*.ts` become the source globs of
+ * each detected language, test globs such as `*.test.ts` their test globs.
+ * Other patterns, such as `**\/api/**`, are kept. Returns the content
+ * unchanged when no language was detected or nothing needs rewriting.
+ */
+export function adaptRuleToStack(content: string, stack: ProjectStack): string {
+  if (stack.languages.length === 0) return content;
+
+  const { frontMatter } = parseRule(content);
+  if (!Array.isArray(frontMatter.filePatterns)) return content;
+
+  const allSource = new Set([
+    ...Object.values(LANGUAGE_PATTERNS).flatMap((patterns) => patterns.source),
+    ...Object.values(FRAMEWORK_PATTERNS).flat(),
+  ]);
+  const allTest = new Set([
+    ...Object.values(LANGUAGE_PATTERNS).flatMap((patterns) => patterns.test),
+    "**/__tests__/**",
+  ]);
+  // In the order of LANGUAGE_PATTERNS, so TypeScript comes before JavaScript
+  const detected = Object.keys(LANGUAGE_PATTERNS).filter((language) =>
+    stack.languages.includes(language)
+  );
+  const detectedSource = [
+    ...detected.flatMap((language) => LANGUAGE_PATTERNS[language].source),
+    ...stack.frameworks.flatMap(
+      (framework) => FRAMEWORK_PATTERNS[framework] ?? []
+    ),
+  ];
+  const detectedTest = [
+    ...detected.flatMap((language) => LANGUAGE_PATTERNS[language].test),
+    ...(detected.includes("typescript") || detected.includes("javascript")
+      ? ["**/__tests__/**"]
+      : []),
+  ];
+
+  const patterns: string[] = [];
+  for (const pattern of frontMatter.filePatterns) {
+    if (allSource.has(pattern)) patterns.push(...detectedSource);
+    else if (allTest.has(pattern)) patterns.push(...detectedTest);
+    else patterns.push(pattern);
+  }
+  const adapted = Array.from(new Set(patterns));
+
+  if (
+    adapted.length === frontMatter.filePatterns.length &&
+    adapted.every(
+      (pattern, index) => pattern === frontMatter.filePatterns![index]
+    )
+  ) {
+    return content;
+  }
+  return setFrontMatterField(content, "filePatterns", adapted);
+}
+
+// End-to-end frameworks, not the one unit tests are written with
+const E2E_TEST_FRAMEWORKS = new Set(["playwright", "cypress"]);
+
+/**
+ * Template variables describing the stack: `languages`, `frameworks` and,
+ * when detected, `testFramework`, `packageManager` and `frontend`.
+ */
+export function stackVariables(stack: ProjectStack): TemplateVariables {
+  const variables: TemplateVariables = {
+    languages: stack.languages,
+    frameworks: stack.frameworks,
+  };
+  const testFramework =
+    stack.testFrameworks.find(
+      (framework) => !E2E_TEST_FRAMEWORKS.has(framework)
+    ) ?? stack.testFrameworks[0];
+  if (testFramework) variables.testFramework = testFramework;
+  if (stack.packageManager) variables.packageManager = stack.packageManager;
+  // Left unset when nothing was recognised, as every rule is then deployed
+  if (stack.languages.length > 0) variables.frontend = stack.frontend;
+  return variables;
+}
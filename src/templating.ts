@@ -0,0 +1,333 @@
+// Rule templating - variables, conditional sections and fragment includes in
+// rule content
+
+export type TemplateValue = string | number | boolean | string[];
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface TemplateIssue {
+  source: string; // The rule filename, or the fragment the issue is in
+  line: number; // 1-based, within source
+  message: string;
+}
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: string; line: number }
+  | { type: "include"; name: string; line: number; standalone: boolean }
+  | {
+      type: "if";
+      condition: string;
+      line: number;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+// A tag, or an escaped tag such as \{{name}} written out as {{name}}
+const TAG_PATTERN = /\\(\{\{[^{}]*\}\})|\{\{\s*([#/>]?)\s*([^{}]*?)\s*\}\}/g;
+const NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+const CONDITION_PATTERN =
+  /^(!)?\s*([A-Za-z_][\w.-]*)(?:\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?$/;
+// Fragments including each other this deep are assumed to be a cycle
+const MAX_INCLUDE_DEPTH = 10;
+
+export function isTemplateValue(value: unknown): value is TemplateValue {
+  return (
+    typeof value === "string" ||
+    (typeof value === "number" && Number.isFinite(value)) ||
+    typeof value === "boolean" ||
+    (Array.isArray(value) && value.every((item) => typeof item === "string"))
+  );
+}
+
+export function isTemplateVariableName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+/**
+ * Renders rule content. The syntax is:
+ * - `{{name}}` for a variable; lists are joined with ", "
+ * - `{{#if condition}}`, `{{else}}` and `{{/if}}` around a section, where the
+ *   condition is `name`, `!name`, `name == value` or `name != value`; for a
+ *   list, `==` tests whether it contains the value. Undefined variables,
+ *   false, 0, "" and empty lists are false
+ * - `{{> name}}` to include a fragment, which is rendered the same way
+ * - `\{{...}}` for a literal `{{...}}`, e.g. a Handlebars or JSX example
+ *
+ * A block tag alone on its line removes the whole line, and an include
+ * alone on its line is replaced by the fragment's lines. Anything that cannot
+ * be resolved - an undefined variable, a missing fragment, a malformed tag -
+ * is reported with its line rather than left in the output.
+ */
+export function renderTemplate(
+  content: string,
+  source: string,
+  variables: TemplateVariables,
+  fragments: Record<string, string>
+): { content: string; issues: TemplateIssue[] } {
+  const issues: TemplateIssue[] = [];
+  const output = renderSource(content, source, variables, fragments, issues, [
+    source,
+  ]);
+  // Parse errors are found before evaluation ones; report in line order
+  issues.sort(
+    (a, b) =>
+      Number(a.source !== source) - Number(b.source !== source) ||
+      a.line - b.line
+  );
+  return { content: output, issues };
+}
+
+/**
+ * Checks a template's syntax without rendering it: malformed tags, unclosed
+ * sections, invalid conditions and includes of fragments not in
+ * `fragmentNames`. Variables are not checked, as their values depend on the
+ * project.
+ */
+export function templateSyntaxIssues(
+  content: string,
+  fragmentNames: string[]
+): { line: number; message: string }[] {
+  const issues: { line: number; message: string }[] = [];
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "include" && !fragmentNames.includes(node.name)) {
+        issues.push({
+          line: node.line,
+          message: `Unknown fragment {{> ${node.name}}}`,
+        });
+      } else if (node.type === "if") {
+        if (testCondition(node.condition, {}) === null) {
+          issues.push({
+            line: node.line,
+            message: `Invalid condition {{#if ${node.condition}}}`,
+          });
+        }
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(
+    parseTemplate(content, (line, message) => issues.push({ line, message }))
+  );
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+function renderSource(
+  content: string,
+  source: string,
+  variables: TemplateVariables,
+  fragments: Record<string, string>,
+  issues: TemplateIssue[],
+  stack: string[]
+): string {
+  const nodes = parseTemplate(content, (line, message) =>
+    issues.push({ source, line, message })
+  );
+  return evaluate(nodes);
+
+  function evaluate(nodes: TemplateNode[]): string {
+    return nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.text;
+          case "variable": {
+            const value = variables[node.name];
+            if (value === undefined) {
+              issues.push({
+                source,
+                line: node.line,
+                message: `Unresolved placeholder {{${node.name}}}`,
+              });
+              return "";
+            }
+            return Array.isArray(value) ? value.join(", ") : String(value);
+          }
+          case "include": {
+            const fragment = fragments[node.name];
+            if (fragment === undefined) {
+              issues.push({
+                source,
+                line: node.line,
+                message: `Unknown fragment {{> ${node.name}}}`,
+              });
+              return "";
+            }
+            if (
+              stack.includes(`fragment ${node.name}`) ||
+              stack.length > MAX_INCLUDE_DEPTH
+            ) {
+              issues.push({
+                source,
+                line: node.line,
+                message: `Fragment ${node.name} includes itself`,
+              });
+              return "";
+            }
+            const included = renderSource(
+              fragment,
+              `fragment ${node.name}`,
+              variables,
+              fragments,
+              issues,
+              [...stack, `fragment ${node.name}`]
+            );
+            // An include on its own line stands in for the whole line
+            return node.standalone && !included.endsWith("\n")
+              ? `${included}\n`
+              : included;
+          }
+          case "if": {
+            const result = testCondition(node.condition, variables);
+            if (result === null) {
+              issues.push({
+                source,
+                line: node.line,
+                message: `Invalid condition {{#if ${node.condition}}}`,
+              });
+              return "";
+            }
+            return evaluate(result ? node.then : node.otherwise);
+          }
+        }
+      })
+      .join("");
+  }
+}
+
+function parseTemplate(
+  content: string,
+  report: (line: number, message: string) => void
+): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open sections, innermost last; `nodes` is where the next node goes
+  const open: { node: TemplateNode & { type: "if" }; inElse: boolean }[] = [];
+  let nodes = root;
+  let position = 0;
+
+  const lineAt = (offset: number) =>
+    content.slice(0, offset).split("\n").length;
+  const pushText = (text: string) => {
+    if (text) nodes.push({ type: "text", text });
+  };
+
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    let start = match.index!;
+    let end = start + match[0].length;
+    const [, escaped, sigil, body] = match;
+    if (escaped !== undefined) {
+      pushText(content.slice(position, start) + escaped);
+      position = end;
+      continue;
+    }
+    const line = lineAt(start);
+    const isBlock = sigil === "#" || sigil === "/" || body === "else";
+    let standalone = false;
+
+    // A block tag or include alone on its line takes the line with it
+    if (isBlock || sigil === ">") {
+      const lineStart = content.lastIndexOf("\n", start - 1) + 1;
+      const lineEnd = content.indexOf("\n", end);
+      const before = content.slice(lineStart, start);
+      const after = content.slice(
+        end,
+        lineEnd === -1 ? content.length : lineEnd
+      );
+      if (lineStart >= position && !before.trim() && !after.trim()) {
+        start = lineStart;
+        end = lineEnd === -1 ? content.length : lineEnd + 1;
+        standalone = true;
+      }
+    }
+    pushText(content.slice(position, start));
+    position = end;
+
+    if (sigil === "#") {
+      const [keyword, ...rest] = body.split(/\s+/);
+      if (keyword !== "if" || rest.length === 0) {
+        report(line, `Unknown block {{#${body}}}`);
+        continue;
+      }
+      const node: TemplateNode & { type: "if" } = {
+        type: "if",
+        condition: rest.join(" "),
+        line,
+        then: [],
+        otherwise: [],
+      };
+      nodes.push(node);
+      open.push({ node, inElse: false });
+      nodes = node.then;
+    } else if (body === "else" && sigil === "") {
+      const current = open[open.length - 1];
+      if (!current || current.inElse) {
+        report(line, "{{else}} outside an {{#if}} section");
+        continue;
+      }
+      current.inElse = true;
+      nodes = current.node.otherwise;
+    } else if (sigil === "/") {
+      if (body !== "if" || open.length === 0) {
+        report(line, `Unexpected {{/${body}}}`);
+        continue;
+      }
+      open.pop();
+      const parent = open[open.length - 1];
+      nodes = parent
+        ? parent.inElse
+          ? parent.node.otherwise
+          : parent.node.then
+        : root;
+    } else if (sigil === ">") {
+      if (!NAME_PATTERN.test(body)) {
+        report(line, `Invalid fragment name in {{> ${body}}}`);
+        continue;
+      }
+      nodes.push({ type: "include", name: body, line, standalone });
+    } else if (NAME_PATTERN.test(body)) {
+      nodes.push({ type: "variable", name: body, line });
+    } else {
+      report(line, `Malformed placeholder ${match[0]}`);
+    }
+  }
+  pushText(content.slice(position));
+
+  for (const { node } of open) {
+    report(node.line, `{{#if ${node.condition}}} is never closed`);
+  }
+  // Braces that never formed a tag, e.g. "{{name" or "{{ {x} }}"
+  const leftover = content
+    .replace(TAG_PATTERN, (tag) => " ".repeat(tag.length))
+    .search(/\{\{|\}\}/);
+  if (leftover !== -1) {
+    report(lineAt(leftover), "Unbalanced {{ or }}");
+  }
+  return root;
+}
+
+/**
+ * Evaluates a section condition, or returns null when it cannot be parsed.
+ */
+function testCondition(
+  condition: string,
+  variables: TemplateVariables
+): boolean | null {
+  const match = condition.match(CONDITION_PATTERN);
+  if (!match) return null;
+  const [, negate, name, operator, doubleQuoted, singleQuoted, bare] = match;
+  if (negate && operator) return null;
+
+  const value = variables[name];
+  let result: boolean;
+  if (!operator) {
+    result = Array.isArray(value) ? value.length > 0 : Boolean(value);
+  } else {
+    const expected = doubleQuoted ?? singleQuoted ?? bare;
+    const matches = Array.isArray(value)
+      ? value.includes(expected)
+      : value !== undefined && String(value) === expected;
+    result = operator === "==" ? matches : !matches;
+  }
+  return negate ? !result : result;
+}
@@ -0,0 +1,273 @@
+// Project watcher - records file-change activity into the context database
+
+import chokidar, { FSWatcher } from "chokidar";
+import { Stats } from "fs";
+import path from "path";
+
+import {
+  ContextDatabase,
+  FileActivity,
+  FileActivityKind,
+  toSqlTimestamp,
+} from "./database.js";
+import { GitignoreRules } from "./workspace-files.js";
+
+export interface ProjectWatcherOptions {
+  debounceMs?: number; // Quiet period before a burst of changes is recorded
+  maxWaitMs?: number; // Record a continuous burst at least this often
+  retentionDays?: number; // Activity older than this is pruned on start
+}
+
+export interface ActivityArea {
+  area: string; // Directory prefix, "." for files in the project root
+  events: number;
+  added: number;
+  changed: number;
+  deleted: number;
+  sizeDelta: number;
+  firstTouched: string;
+  lastTouched: string;
+  topFiles: { path: string; events: number }[];
+}
+
+export interface ActivitySummary {
+  since: string;
+  totalEvents: number;
+  areas: ActivityArea[];
+  recent: FileActivity[];
+}
+
+interface PendingChange {
+  existedBefore: boolean;
+  sizeBefore: number;
+  occurredAt: Date;
+}
+
+/**
+ * Watches a project directory with chokidar, honouring every .gitignore in
+ * the tree. Events for the same path within a burst are coalesced into one
+ * add, change or unlink with the net size delta before being written to the
+ * `file_activity` table.
+ */
+export class ProjectWatcher {
+  private watcher: FSWatcher | null = null;
+  private gitignores: GitignoreRules;
+  private sizes = new Map<string, number>();
+  private pending = new Map<string, PendingChange>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private burstStartedAt: number | null = null;
+  private ready = false;
+  private debounceMs: number;
+  private maxWaitMs: number;
+  private retentionDays: number;
+
+  constructor(
+    private database: ContextDatabase,
+    private rootPath: string,
+    options: ProjectWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 1000;
+    this.maxWaitMs = options.maxWaitMs ?? 10000;
+    this.retentionDays = options.retentionDays ?? 30;
+    this.gitignores = new GitignoreRules(rootPath);
+  }
+
+  async start(): Promise<void> {
+    if (this.watcher) return;
+
+    const cutoff = new Date(Date.now() - this.retentionDays * 86400000);
+    await this.database.pruneFileActivity(toSqlTimestamp(cutoff));
+
+    await this.gitignores.loadAll();
+
+    // The initial scan only learns file sizes; activity is recorded after it
+    this.watcher = chokidar.watch(this.rootPath, {
+      ignored: (filePath: string, stats?: Stats) =>
+        this.isIgnored(filePath, stats),
+      alwaysStat: true,
+      persistent: true,
+    });
+
+    this.watcher
+      .on("add", (filePath, stats) => this.handleEvent(filePath, stats))
+      .on("change", (filePath, stats) => this.handleEvent(filePath, stats))
+      .on("unlink", (filePath) => this.handleEvent(filePath))
+      .on("ready", () => {
+        this.ready = true;
+      })
+      .on("error", (error) => {
+        console.error("Project watcher error:", error);
+      });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.watcher) return;
+
+    await this.watcher.close();
+    this.watcher = null;
+    await this.flush();
+  }
+
+  private handleEvent(filePath: string, stats?: Stats) {
+    const relativePath = this.toRelative(filePath);
+    if (!relativePath) return;
+
+    if (path.posix.basename(relativePath) === ".gitignore") {
+      this.gitignores.load(relativePath).catch((error) => {
+        console.error(`Failed to reload ${relativePath}:`, error);
+      });
+    }
+
+    if (!this.ready) {
+      if (stats) this.sizes.set(relativePath, stats.size);
+      return;
+    }
+
+    if (!this.pending.has(relativePath)) {
+      this.pending.set(relativePath, {
+        existedBefore: this.sizes.has(relativePath),
+        sizeBefore: this.sizes.get(relativePath) ?? 0,
+        occurredAt: new Date(),
+      });
+    }
+    this.pending.get(relativePath)!.occurredAt = new Date();
+
+    if (stats) {
+      this.sizes.set(relativePath, stats.size);
+    } else {
+      this.sizes.delete(relativePath);
+    }
+
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    const now = Date.now();
+    this.burstStartedAt ??= now;
+
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    const delay = Math.min(
+      this.debounceMs,
+      Math.max(0, this.burstStartedAt + this.maxWaitMs - now)
+    );
+
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((error) => {
+        console.error("Failed to record file activity:", error);
+      });
+    }, delay);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.burstStartedAt = null;
+
+    const events: Omit<FileActivity, "id">[] = [];
+    for (const [relativePath, change] of this.pending) {
+      const existsNow = this.sizes.has(relativePath);
+      let kind: FileActivityKind;
+      if (change.existedBefore && existsNow) kind = "change";
+      else if (existsNow) kind = "add";
+      else if (change.existedBefore) kind = "unlink";
+      else continue; // Created and removed within the burst
+
+      const size = this.sizes.get(relativePath);
+      events.push({
+        path: relativePath,
+        kind,
+        sizeDelta: (size ?? 0) - change.sizeBefore,
+        size,
+        occurredAt: toSqlTimestamp(change.occurredAt),
+      });
+    }
+    this.pending.clear();
+
+    await this.database.storeFileActivity(events);
+  }
+
+  private isIgnored(filePath: string, stats?: Stats): boolean {
+    const relativePath = this.toRelative(filePath);
+    if (!relativePath) return false;
+
+    // chokidar does not always pass stats; directory-only patterns such as
+    // "build/" are tried when unsure
+    return this.gitignores.ignores(
+      relativePath,
+      stats ? stats.isDirectory() : undefined
+    );
+  }
+
+  private toRelative(filePath: string): string | null {
+    const relativePath = path.relative(this.rootPath, filePath);
+    if (!relativePath || relativePath.startsWith("..")) return null;
+    return relativePath.split(path.sep).join("/");
+  }
+}
+
+/**
+ * Groups activity by directory prefix (`depth` path segments deep) so callers
+ * can see which areas of the codebase were touched and when.
+ */
+export function summarizeActivity(
+  events: FileActivity[],
+  since: string,
+  depth: number = 2,
+  recentLimit: number = 20
+): ActivitySummary {
+  const areas = new Map<
+    string,
+    Omit<ActivityArea, "topFiles"> & { files: Map<string, number> }
+  >();
+
+  for (const event of events) {
+    const dirs = event.path.split("/").slice(0, -1);
+    const area = dirs.length > 0 ? dirs.slice(0, depth).join("/") : ".";
+
+    let entry = areas.get(area);
+    if (!entry) {
+      entry = {
+        area,
+        events: 0,
+        added: 0,
+        changed: 0,
+        deleted: 0,
+        sizeDelta: 0,
+        firstTouched: event.occurredAt,
+        lastTouched: event.occurredAt,
+        files: new Map(),
+      };
+      areas.set(area, entry);
+    }
+
+    entry.events++;
+    if (event.kind === "add") entry.added++;
+    else if (event.kind === "change") entry.changed++;
+    else entry.deleted++;
+    entry.sizeDelta += event.sizeDelta;
+    if (event.occurredAt < entry.firstTouched) {
+      entry.firstTouched = event.occurredAt;
+    }
+    if (event.occurredAt > entry.lastTouched) {
+      entry.lastTouched = event.occurredAt;
+    }
+    entry.files.set(event.path, (entry.files.get(event.path) ?? 0) + 1);
+  }
+
+  return {
+    since,
+    totalEvents: events.length,
+    areas: Array.from(areas.values())
+      .sort((a, b) => b.lastTouched.localeCompare(a.lastTouched))
+      .map(({ files, ...area }) => ({
+        ...area,
+        topFiles: Array.from(files, ([filePath, count]) => ({
+          path: filePath,
+          events: count,
+        }))
+          .sort((a, b) => b.events - a.events)
+          .slice(0, 5),
+      })),
+    recent: events.slice(0, recentLimit),
+  };
+}
@@ -0,0 +1,126 @@
+// Workspace files - which files in a project are worth looking at, honouring
+// every .gitignore in the tree
+
+import { glob } from "glob";
+import ignore, { Ignore } from "ignore";
+import fs from "fs/promises";
+import path from "path";
+
+// Never worth looking at, whatever .gitignore says
+export const ALWAYS_IGNORED_SEGMENTS = new Set([
+  ".git",
+  "node_modules",
+  ".dev-assistant",
+]);
+
+/**
+ * The .gitignore files of a project, each applying to the directory it is
+ * in. Paths are relative to the root and "/"-separated.
+ */
+export class GitignoreRules {
+  private matchers = new Map<string, Ignore>(); // Keyed by relative dir
+
+  constructor(private rootPath: string) {}
+
+  async loadAll(): Promise<void> {
+    const files = await glob("**/.gitignore", {
+      cwd: this.rootPath,
+      dot: true,
+      ignore: ["**/node_modules/**", "**/.git/**"],
+    });
+    for (const file of files) {
+      await this.load(file.split(path.sep).join("/"));
+    }
+  }
+
+  /**
+   * (Re)reads one .gitignore; a file that no longer exists stops applying.
+   */
+  async load(relativeFile: string): Promise<void> {
+    const dir = path.posix.dirname(relativeFile);
+    try {
+      const content = await fs.readFile(
+        path.join(this.rootPath, relativeFile),
+        "utf-8"
+      );
+      this.matchers.set(dir === "." ? "" : dir, ignore().add(content));
+    } catch (error) {
+      this.matchers.delete(dir === "." ? "" : dir);
+    }
+  }
+
+  /**
+   * Whether a path is ignored. Pass `isDirectory` when known: directory-only
+   * patterns such as "build/" need it, and are tried when it is undefined.
+   */
+  ignores(relativePath: string, isDirectory?: boolean): boolean {
+    const segments = relativePath.split("/");
+    if (segments.some((segment) => ALWAYS_IGNORED_SEGMENTS.has(segment))) {
+      return true;
+    }
+    // The database may live in the project root
+    if (segments[segments.length - 1].startsWith(".dev-assistant.db")) {
+      return true;
+    }
+
+    for (const [dir, matcher] of this.matchers) {
+      if (dir && !relativePath.startsWith(`${dir}/`)) continue;
+      const subPath = dir ? relativePath.slice(dir.length + 1) : relativePath;
+      if (matcher.ignores(subPath)) return true;
+      if (isDirectory !== false && matcher.ignores(`${subPath}/`)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Lists the files under `rootPath` that are not ignored, relative to it and
+ * sorted. The walk skips ignored directories without reading them and stops
+ * once it has found `limit` files, so `limit` bounds the work, not just the
+ * result; a truncated list holds the first files in name order.
+ */
+export async function listWorkspaceFiles(
+  rootPath: string,
+  limit: number = Infinity
+): Promise<{ files: string[]; truncated: boolean }> {
+  const rules = new GitignoreRules(rootPath);
+  const files: string[] = [];
+  let truncated = false;
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(rootPath, relativeDir), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      return; // Removed while walking, or unreadable
+    }
+    const relative = (name: string) =>
+      relativeDir ? `${relativeDir}/${name}` : name;
+    // A directory's .gitignore applies to everything in it
+    if (entries.some((entry) => entry.name === ".gitignore")) {
+      await rules.load(relative(".gitignore"));
+    }
+
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      const entryPath = relative(entry.name);
+      if (entry.isDirectory()) {
+        if (!rules.ignores(entryPath, true)) await walk(entryPath);
+      } else if (!rules.ignores(entryPath, false)) {
+        if (files.length === limit) {
+          truncated = true;
+        } else {
+          files.push(entryPath);
+        }
+      }
+      if (truncated) return;
+    }
+  };
+  await walk("");
+
+  return { files: files.sort(), truncated };
+}
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ancestorPaths, normalizeAnchorPath } from "../build/anchors.js";
+import { ContextDatabase } from "../build/database.js";
+
+describe("anchor paths", () => {
+  const root = path.join(os.tmpdir(), "project");
+
+  it("stores paths relative to the project root", () => {
+    assert.equal(
+      normalizeAnchorPath(path.join(root, "src", "api") + "/", root),
+      "src/api"
+    );
+    assert.equal(normalizeAnchorPath("./src/../lib/db.ts", root), "lib/db.ts");
+    assert.equal(normalizeAnchorPath(root, root), ".");
+  });
+
+  it("refuses paths outside the project", () => {
+    assert.throws(
+      () => normalizeAnchorPath("../other/file.ts", root),
+      /outside the project/
+    );
+  });
+
+  it("lists a path and each directory above it", () => {
+    assert.deepEqual(ancestorPaths("src/api/users.ts"), [
+      "src/api/users.ts",
+      "src/api",
+      "src",
+      ".",
+    ]);
+    assert.deepEqual(ancestorPaths("."), ["."]);
+  });
+});
+
+describe("anchored facts", () => {
+  let dir;
+  let database;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores anchors with a fact and finds facts by anchored path", async () => {
+    const id = await database.storeFact(
+      "architecture",
+      "Users are loaded through the repository",
+      undefined,
+      [],
+      [
+        { filePath: "src/api/users.ts", startLine: 10, endLine: 20 },
+        { filePath: "src/db", symbol: "UserRepository" },
+      ]
+    );
+    await database.storeFact("testing", "Use node:test");
+
+    const found = await database.getFactsByAnchorPaths(
+      ancestorPaths("src/db/users.sql")
+    );
+
+    assert.equal(found.length, 1);
+    assert.equal(found[0].fact.id, id);
+    assert.deepEqual(
+      found[0].matched.map((anchor) => anchor.symbol),
+      ["UserRepository"]
+    );
+    assert.deepEqual(
+      found[0].fact.anchors.map((anchor) => anchor.filePath),
+      ["src/api/users.ts", "src/db"]
+    );
+  });
+
+  it("replaces anchors along with the fact", async () => {
+    const id = await database.storeFact(
+      "architecture",
+      "Users are loaded through the repository",
+      undefined,
+      [],
+      [{ filePath: "src/api/users.ts" }]
+    );
+
+    assert.equal(
+      await database.updateFact(id, {
+        fact: "Users are loaded through the service",
+        anchors: [{ filePath: "src/services/users.ts", symbol: "UserService" }],
+      }),
+      true
+    );
+
+    const [fact] = await database.attachAnchors([
+      await database.getFactById(id),
+    ]);
+    assert.equal(fact.fact, "Users are loaded through the service");
+    assert.deepEqual(
+      fact.anchors.map((anchor) => [anchor.filePath, anchor.symbol]),
+      [["src/services/users.ts", "UserService"]]
+    );
+
+    await database.updateFact(id, { anchors: [] });
+    const [unlinked] = await database.attachAnchors([
+      await database.getFactById(id),
+    ]);
+    assert.equal(unlinked.anchors, undefined);
+  });
+
+  it("removes anchors when their fact is deleted", async () => {
+    const id = await database.storeFact(
+      "testing",
+      "Use node:test",
+      undefined,
+      [],
+      [{ filePath: "test" }]
+    );
+
+    await database.deleteFact(id);
+
+    assert.deepEqual(await database.getFactsByAnchorPaths(["test"]), []);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ContextDatabase } from "../build/database.js";
+import {
+  createEmbeddingProvider,
+  HashingEmbeddingProvider,
+  SemanticIndex,
+} from "../build/embeddings.js";
+
+describe("createEmbeddingProvider", () => {
+  it("defaults to the lexical-only hashing provider", () => {
+    const provider = createEmbeddingProvider(undefined);
+
+    assert.equal(provider.name, "hashing-256");
+    assert.equal(provider.lexical, true);
+  });
+
+  it("marks model-backed providers as semantic", () => {
+    const provider = createEmbeddingProvider("transformers:/models/MiniLM");
+
+    assert.equal(provider.name, "transformers:MiniLM");
+    assert.equal(provider.lexical, false);
+  });
+
+  it("can be turned off and rejects unknown providers", () => {
+    assert.equal(createEmbeddingProvider("off"), null);
+    assert.throws(() => createEmbeddingProvider("hashing:0"), /dimensions/);
+    assert.throws(() => createEmbeddingProvider("word2vec"), /Unknown/);
+  });
+});
+
+describe("SemanticIndex", () => {
+  let dir;
+  let database;
+  let index;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+    index = new SemanticIndex(database, new HashingEmbeddingProvider(64));
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("embeds only facts that are new or changed", async () => {
+    const id = await database.storeFact("testing", "Run tests with node:test");
+    await database.storeFact("build", "Compile with tsc before testing");
+
+    assert.equal(await index.sync(), 2);
+    assert.equal(await index.sync(), 0);
+    await database.updateFact(id, { fact: "Run tests with vitest" });
+    assert.equal(await index.sync(), 1);
+  });
+
+  it("ranks facts sharing the search's words first", async () => {
+    await database.storeFact("build", "Compile with tsc before publishing");
+    await database.storeFact("testing", "Integration tests need a database");
+
+    const [best] = await index.search("database tests");
+    const [hybrid] = await index.hybridSearch("database tests");
+
+    assert.equal(best.fact, "Integration tests need a database");
+    assert.ok(best.similarity > 0);
+    assert.equal(hybrid.fact, "Integration tests need a database");
+    assert.ok(hybrid.score > 0 && hybrid.score <= 1);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import sqlite3 from "sqlite3";
+
+import { ContextDatabase } from "../build/database.js";
+import {
+  HashingEmbeddingProvider,
+  SemanticIndex,
+} from "../build/embeddings.js";
+import {
+  DatabaseCipher,
+  prepareDatabaseEncryption,
+} from "../build/encryption.js";
+
+const OLD_KEY = { current: "old key", previous: [], source: "test" };
+const NEW_KEY = { current: "new key", previous: ["old key"], source: "test" };
+
+// Reads rows straight from the file, bypassing the cipher
+function readRaw(dbPath, sql) {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY, (error) => {
+      if (error) return reject(error);
+      db.all(sql, (queryError, rows) => {
+        db.close();
+        queryError ? reject(queryError) : resolve(rows);
+      });
+    });
+  });
+}
+
+describe("database encryption", () => {
+  let dir;
+  let dbPath;
+  let database;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    dbPath = path.join(dir, "context.db");
+    database = new ContextDatabase(dbPath);
+    await database.initialize("test-project");
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("encrypts existing facts when a key is configured", async () => {
+    await database.storeFact("security", "Sessions expire after an hour");
+
+    const status = await prepareDatabaseEncryption(
+      database,
+      new DatabaseCipher(OLD_KEY)
+    );
+
+    assert.equal(status.plaintextFacts, 0);
+    const [raw] = await readRaw(dbPath, "SELECT fact FROM facts");
+    assert.match(raw.fact, /^enc:v1:/);
+    const [fact] = await database.getFacts();
+    assert.equal(fact.fact, "Sessions expire after an hour");
+    // Keyword search still finds it
+    const found = await database.getFacts(undefined, undefined, "sessions");
+    assert.equal(found.length, 1);
+  });
+
+  it("re-encrypts facts under a rotated key", async () => {
+    await prepareDatabaseEncryption(database, new DatabaseCipher(OLD_KEY));
+    await database.storeFact("security", "Sessions expire after an hour");
+    const rotated = new DatabaseCipher(NEW_KEY);
+
+    const status = await prepareDatabaseEncryption(database, rotated);
+
+    assert.deepEqual(status.encryptedFacts, { [rotated.keyId]: 1 });
+    await database.close();
+    database = new ContextDatabase(dbPath);
+    await database.initialize("test-project");
+    await assert.rejects(
+      prepareDatabaseEncryption(database, null),
+      /Facts in the database are encrypted/
+    );
+  });
+
+  it("encrypts embeddings and drops them when the key changes", async () => {
+    await prepareDatabaseEncryption(database, new DatabaseCipher(OLD_KEY));
+    await database.storeFact("security", "Rotate the signing keys every year");
+    const index = new SemanticIndex(database, new HashingEmbeddingProvider(64));
+
+    assert.equal(await index.sync(), 1);
+    const [stored] = await readRaw(
+      dbPath,
+      "SELECT vector, content_hash FROM fact_embeddings"
+    );
+    assert.match(stored.vector, /^enc:v1:/);
+    const text = "Rotate the signing keys every year\nsecurity";
+    assert.notEqual(stored.content_hash, database.generateHash(text));
+    const [result] = await index.search("signing keys");
+    assert.equal(result.fact, "Rotate the signing keys every year");
+    assert.ok(result.similarity > 0);
+
+    await prepareDatabaseEncryption(database, new DatabaseCipher(NEW_KEY));
+
+    assert.deepEqual(
+      await readRaw(dbPath, "SELECT * FROM fact_embeddings"),
+      []
+    );
+    assert.equal(await index.sync(), 1);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { ContextDatabase } from "../build/database.js";
+
+describe("fact search", () => {
+  let dir;
+  let database;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+    await database.storeFact(
+      "redis",
+      "Sessions live in memcached",
+      "Moved away from the old cache"
+    );
+    await database.storeFact(
+      "architecture",
+      "Redis caches rendered pages",
+      "Legacy pages skip the cache",
+      ["performance"]
+    );
+    await database.storeFact(
+      "security",
+      "The database client retries failed connections",
+      undefined,
+      ["database"]
+    );
+  });
+
+  after(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const facts = (results) => results.map((result) => result.fact);
+
+  it("ranks a match in the fact above one in its category", async () => {
+    const results = await database.getFacts(undefined, undefined, "redis");
+
+    assert.deepEqual(facts(results), [
+      "Redis caches rendered pages",
+      "Sessions live in memcached",
+    ]);
+    assert.ok(results[0].score > results[1].score);
+    assert.equal(results[0].snippet, "**Redis** caches rendered pages");
+  });
+
+  it("matches any word of a plain question", async () => {
+    const results = await database.getFacts(
+      undefined,
+      undefined,
+      "how do database connections work?"
+    );
+
+    assert.equal(
+      results[0].fact,
+      "The database client retries failed connections"
+    );
+  });
+
+  it("supports phrases, prefixes and boolean operators", async () => {
+    const search = (query) => database.getFacts(undefined, undefined, query);
+
+    assert.deepEqual(facts(await search('"database client"')), [
+      "The database client retries failed connections",
+    ]);
+    assert.deepEqual(facts(await search("memc*")), [
+      "Sessions live in memcached",
+    ]);
+    assert.deepEqual(facts(await search("cache NOT legacy")), [
+      "Sessions live in memcached",
+    ]);
+  });
+
+  it("falls back to plain words when the query syntax is malformed", async () => {
+    const results = await database.getFacts(undefined, undefined, '"redis');
+
+    assert.equal(results.length, 2);
+  });
+
+  it("filters by category and tags and follows updates", async () => {
+    const [fact] = await database.getFacts(
+      "architecture",
+      ["performance"],
+      "pages"
+    );
+    assert.equal(fact.fact, "Redis caches rendered pages");
+
+    await database.updateFact(fact.id, { fact: "Varnish caches pages" });
+
+    assert.deepEqual(
+      facts(await database.getFacts(undefined, undefined, "varnish")),
+      ["Varnish caches pages"]
+    );
+    assert.deepEqual(
+      facts(await database.getFacts("architecture", undefined, "redis")),
+      []
+    );
+  });
+});
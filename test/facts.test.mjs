@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ContextDatabase } from "../build/database.js";
+
+describe("stored facts", () => {
+  let dir;
+  let database;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("updates only the given fields", async () => {
+    const id = await database.storeFact(
+      "testing",
+      "Use jest",
+      "Chosen in 2021",
+      ["tests"]
+    );
+
+    assert.equal(
+      await database.updateFact(id, { fact: "Use node:test" }),
+      true
+    );
+
+    const fact = await database.getFactById(id);
+    assert.equal(fact.fact, "Use node:test");
+    assert.equal(fact.context, "Chosen in 2021");
+    assert.deepEqual(fact.tags, ["tests"]);
+  });
+
+  it("reports updates and deletes of missing facts", async () => {
+    assert.equal(await database.updateFact(42, { fact: "Nothing" }), false);
+    assert.equal(await database.updateFact(42, {}), false);
+    assert.equal(await database.deleteFact(42), false);
+  });
+
+  it("deletes a fact", async () => {
+    const id = await database.storeFact("testing", "Use node:test");
+
+    assert.equal(await database.deleteFact(id), true);
+
+    assert.equal(await database.getFactById(id), null);
+    assert.deepEqual(await database.getFacts(), []);
+  });
+
+  it("lists categories and tags in use, sorted and without repeats", async () => {
+    await database.storeFact("testing", "Use node:test", undefined, ["ci"]);
+    await database.storeFact("build", "Compile with tsc", undefined, [
+      "typescript",
+      "ci",
+    ]);
+    await database.storeFact("testing", "Keep tests next to the code");
+
+    assert.deepEqual(await database.getCategories(), ["build", "testing"]);
+    assert.deepEqual(await database.getAllTags(), ["ci", "typescript"]);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ContextDatabase } from "../build/database.js";
+import { FreshnessChecker, hashAnchor } from "../build/freshness.js";
+
+const USERS = `import { db } from "./db";
+
+export function loadUser(id: string) {
+  return db.users.find(id);
+}
+
+export function saveUser(user: User) {
+  return db.users.save(user);
+}
+`;
+
+describe("fact freshness", () => {
+  let dir;
+  let root;
+  let database;
+  let freshness;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    root = path.join(dir, "project");
+    await fs.mkdir(path.join(root, "src"), { recursive: true });
+    await fs.writeFile(path.join(root, "src", "users.ts"), USERS);
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+    freshness = new FreshnessChecker(database, root);
+  });
+
+  afterEach(async () => {
+    freshness.stop();
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const editUsers = (edit) =>
+    fs.writeFile(path.join(root, "src", "users.ts"), edit(USERS));
+
+  async function remember(fact, anchors) {
+    return database.storeFact(
+      "architecture",
+      fact,
+      undefined,
+      [],
+      await freshness.hashAnchors(anchors)
+    );
+  }
+
+  it("hashes a symbol's definition wherever it moves", async () => {
+    const anchor = { filePath: "src/users.ts", symbol: "saveUser" };
+    const before = await hashAnchor(anchor, root, database);
+
+    await editUsers((content) => `// Users\n\n${content}`);
+    assert.equal(await hashAnchor(anchor, root, database), before);
+
+    await editUsers((content) => content.replace("save(user)", "upsert(user)"));
+    assert.notEqual(await hashAnchor(anchor, root, database), before);
+    assert.equal(
+      await hashAnchor({ ...anchor, symbol: "deleteUser" }, root, database),
+      null
+    );
+  });
+
+  it("reports facts whose anchored code changed or vanished", async () => {
+    const loads = await remember("Users load by ID", [
+      { filePath: "src/users.ts", symbol: "loadUser" },
+    ]);
+    const saves = await remember("Saving goes through the repository", [
+      { filePath: "src/users.ts", startLine: 7, endLine: 9 },
+    ]);
+    await remember("Sessions live in Redis", [{ filePath: "src/sessions.ts" }]);
+
+    await editUsers((content) => content.replace("save(user)", "upsert(user)"));
+    const report = await freshness.check();
+
+    assert.equal(report.anchorsChecked, 3);
+    assert.equal(report.fresh, 1);
+    assert.equal(report.changed, 1);
+    assert.equal(report.missing, 1);
+    assert.deepEqual(report.staleFacts.map((fact) => fact.fact).sort(), [
+      "Saving goes through the repository",
+      "Sessions live in Redis",
+    ]);
+    assert.ok(!report.staleFacts.some((fact) => fact.id === loads));
+
+    const reviewed = await freshness.check([saves], true);
+    assert.equal(reviewed.fresh, 1);
+    assert.equal((await freshness.check([saves])).staleFacts.length, 0);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { GitContext } from "../build/git.js";
+
+describe("GitContext", () => {
+  let root;
+  let git;
+
+  const run = (...args) =>
+    execFileSync(
+      "git",
+      ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+      { cwd: root, stdio: "pipe" }
+    );
+
+  async function write(file, content) {
+    await fs.mkdir(path.join(root, path.dirname(file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content);
+  }
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    run("init", "-q", "-b", "main");
+    await write("README.md", "# Project\n");
+    run("add", "-A");
+    run("commit", "-q", "-m", "Initial commit");
+
+    run("checkout", "-q", "-b", "feature");
+    await write(
+      "src/api/routes.ts",
+      "export const a = 1;\nexport const b = 2;\n"
+    );
+    await write("src/api/auth/login.ts", "export const login = 1;\n");
+    run("add", "-A");
+    run("commit", "-q", "-m", "Add the API");
+
+    // Upstream work on main is not part of the branch
+    run("checkout", "-q", "main");
+    await write("docs/guide.md", "Guide\n");
+    run("add", "-A");
+    run("commit", "-q", "-m", "Add a guide");
+    run("checkout", "-q", "feature");
+
+    await write("README.md", "# Project\n\nEdited\n");
+    await write("notes.txt", "todo\n");
+    git = new GitContext(root);
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("describes the branch, working tree and recent commits", async () => {
+    const context = await git.getContext(5);
+
+    assert.equal(context.branch, "feature");
+    assert.equal(context.clean, false);
+    assert.deepEqual(context.workingTree.unstaged, [
+      { path: "README.md", status: "M" },
+    ]);
+    assert.deepEqual(context.workingTree.untracked, ["notes.txt"]);
+    assert.deepEqual(
+      context.recentCommits.map((commit) => commit.message),
+      ["Add the API", "Initial commit"]
+    );
+    assert.deepEqual(
+      context.recentCommits[0].files.map((file) => file.path).sort(),
+      ["src/api/auth/login.ts", "src/api/routes.ts"]
+    );
+  });
+
+  it("summarizes branch changes from the merge base by directory", async () => {
+    const summary = await git.summarizeBranchChanges("main", 2);
+
+    assert.equal(summary.head, "feature");
+    assert.deepEqual(
+      summary.commits.map((commit) => commit.message),
+      ["Add the API"]
+    );
+    assert.deepEqual(summary.totals, { files: 2, insertions: 3, deletions: 0 });
+    assert.deepEqual(
+      summary.directories.map((entry) => [entry.directory, entry.files]),
+      [["src/api", 2]]
+    );
+
+    const withWorkingTree = await git.summarizeBranchChanges("main", 1, true);
+    assert.deepEqual(
+      withWorkingTree.directories.map((entry) => entry.directory).sort(),
+      [".", "src"]
+    );
+  });
+
+  it("detects the base branch when none is given", async () => {
+    const summary = await git.summarizeBranchChanges();
+
+    assert.equal(summary.base, "main");
+  });
+
+  it("refuses unknown bases and bases git would read as options", async () => {
+    await assert.rejects(
+      git.summarizeBranchChanges("nowhere"),
+      /Base branch not found: nowhere/
+    );
+    await assert.rejects(
+      git.summarizeBranchChanges("--output=/tmp/x"),
+      /Invalid base branch/
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import os from "node:os";
+import { describe, it } from "node:test";
+
+import { parseRule, validateRule, validateRuleSet } from "../build/mdc.js";
+import { resolveRulePacks } from "../build/rule-packs.js";
+
+const codes = (diagnostics) =>
+  diagnostics.map((diagnostic) => [diagnostic.line, diagnostic.code]);
+
+describe("parseRule", () => {
+  it("reads flow and block lists from the front matter", () => {
+    const { frontMatter, body, bodyStartLine } = parseRule(
+      [
+        "---",
+        'name: "API"',
+        "filePatterns:",
+        "  - src/api/**",
+        "  - '*.http'",
+        "alwaysApply: false",
+        "---",
+        "",
+        "# API",
+      ].join("\n")
+    );
+
+    assert.deepEqual(frontMatter, {
+      name: "API",
+      filePatterns: ["src/api/**", "*.http"],
+      alwaysApply: false,
+    });
+    assert.equal(body, "# API");
+    assert.equal(bodyStartLine, 8);
+  });
+});
+
+describe("validateRule", () => {
+  it("accepts the default pack as templates", async () => {
+    const { packs, rules } = await resolveRulePacks(["default"], os.tmpdir());
+    const fragments = packs.flatMap((pack) => Object.keys(pack.fragments));
+
+    const results = validateRuleSet(
+      rules.map((rule) => ({ path: rule.filename, content: rule.content })),
+      { templateFragments: fragments }
+    );
+
+    assert.deepEqual(
+      results.flatMap((result) =>
+        result.diagnostics.map((diagnostic) => [result.path, diagnostic.code])
+      ),
+      []
+    );
+  });
+
+  it("reports malformed front matter with its line", () => {
+    const diagnostics = validateRule(
+      [
+        "---",
+        'name: "API"',
+        "applyMode: sometimes",
+        'filePatterns: ["src/**", "[oops"]',
+        "colour: blue",
+        "name: again",
+        "---",
+        "# API",
+      ].join("\n")
+    );
+
+    assert.deepEqual(codes(diagnostics), [
+      [3, "unknown-apply-mode"],
+      [4, "invalid-glob"],
+      [5, "unknown-key"],
+      [6, "duplicate-key"],
+    ]);
+  });
+
+  it("needs file patterns for auto-attach and a description when requested", () => {
+    assert.deepEqual(
+      codes(validateRule('---\nname: "A"\napplyMode: auto-attach\n---\n# A\n')),
+      [[3, "no-file-patterns"]]
+    );
+    assert.deepEqual(
+      codes(
+        validateRule('---\nname: "B"\napplyMode: agent-requested\n---\n# B\n')
+      ),
+      [[3, "missing-description"]]
+    );
+  });
+
+  it("warns about placeholders left outside code", () => {
+    const content = [
+      "---",
+      'name: "Style"',
+      "applyMode: always",
+      "---",
+      "Lines up to {{maxLineLength}} characters",
+      "Write `{{name}}` in Handlebars templates",
+      "```jsx",
+      "<div style={{ color: 'red' }} />",
+      "```",
+    ].join("\n");
+
+    assert.deepEqual(codes(validateRule(content)), [
+      [5, "unrendered-placeholder"],
+    ]);
+    // In a template, literal braces in code have to be escaped as \{{
+    assert.deepEqual(codes(validateRule(content, { templateFragments: [] })), [
+      [8, "template"],
+    ]);
+  });
+
+  it("flags a name used by two rules in a set", () => {
+    const rule = '---\nname: "Testing"\napplyMode: always\n---\n# Testing\n';
+
+    const results = validateRuleSet([
+      { path: "a.mdc", content: rule },
+      { path: "b.mdc", content: rule },
+    ]);
+
+    assert.deepEqual(codes(results[0].diagnostics), []);
+    assert.deepEqual(codes(results[1].diagnostics), [[2, "duplicate-name"]]);
+    assert.match(results[1].diagnostics[0].message, /a\.mdc:2/);
+  });
+});
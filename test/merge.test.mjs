@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { mergeThreeWay, unifiedDiff } from "../build/merge.js";
+
+const LABELS = { local: "local", base: "deployed", incoming: "new" };
+
+describe("mergeThreeWay", () => {
+  const base = "# Rules\n- one\n- two\n- three\n";
+
+  it("keeps local and incoming changes to different lines", () => {
+    const local = "# Rules\n- one, edited\n- two\n- three\n";
+    const incoming = "# Rules\n- one\n- two\n- three\n- four\n";
+
+    const result = mergeThreeWay(base, local, incoming, LABELS);
+
+    assert.deepEqual(result.conflicts, []);
+    assert.equal(
+      result.content,
+      "# Rules\n- one, edited\n- two\n- three\n- four\n"
+    );
+  });
+
+  it("takes a change made identically on both sides once", () => {
+    const changed = "# Rules\n- one\n- 2\n- three\n";
+
+    const result = mergeThreeWay(base, changed, changed, LABELS);
+
+    assert.deepEqual(result.conflicts, []);
+    assert.equal(result.content, changed);
+  });
+
+  it("marks lines changed differently on both sides as a conflict", () => {
+    const local = "# Rules\n- one\n- two, locally\n- three\n";
+    const incoming = "# Rules\n- one\n- two, upstream\n- three\n";
+
+    const result = mergeThreeWay(base, local, incoming, LABELS);
+
+    assert.deepEqual(result.conflicts, [
+      {
+        line: 3,
+        local: ["- two, locally"],
+        base: ["- two"],
+        incoming: ["- two, upstream"],
+      },
+    ]);
+    assert.equal(
+      result.content,
+      [
+        "# Rules",
+        "- one",
+        "<<<<<<< local",
+        "- two, locally",
+        "||||||| deployed",
+        "- two",
+        "=======",
+        "- two, upstream",
+        ">>>>>>> new",
+        "- three",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("conflicts as a whole without a base", () => {
+    const result = mergeThreeWay(null, "local\n", "incoming\n", LABELS);
+
+    assert.equal(result.conflicts.length, 1);
+    assert.deepEqual(result.conflicts[0].local, ["local"]);
+    assert.deepEqual(result.conflicts[0].incoming, ["incoming"]);
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("shows changed lines with their context", () => {
+    const before = "a\nb\nc\nd\n";
+    const after = "a\nb\nC\nd\n";
+
+    assert.equal(
+      unifiedDiff(before, after, "rules.mdc", 1),
+      [
+        "--- a/rules.mdc",
+        "+++ b/rules.mdc",
+        "@@ -2,3 +2,3 @@",
+        " b",
+        "-c",
+        "+C",
+        " d",
+        "",
+      ].join("\n")
+    );
+    assert.equal(unifiedDiff(before, before, "rules.mdc"), "");
+  });
+
+  it("diffs a missing file against /dev/null", () => {
+    assert.equal(
+      unifiedDiff(null, "new\n", "rules.mdc"),
+      "--- /dev/null\n+++ b/rules.mdc\n@@ -0,0 +1,1 @@\n+new\n"
+    );
+  });
+});
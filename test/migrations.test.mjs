@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import sqlite3 from "sqlite3";
+
+import { ContextDatabase, SCHEMA_VERSION } from "../build/database.js";
+
+// The tables as the first release created them, before any migration
+const BASELINE_SCHEMA = [
+  `CREATE TABLE facts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    category TEXT NOT NULL,
+    fact TEXT NOT NULL,
+    context TEXT,
+    tags TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE rule_deployments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    template_version TEXT NOT NULL,
+    deployed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    deployed_by TEXT,
+    total_files INTEGER NOT NULL,
+    backup_path TEXT
+  )`,
+  `CREATE TABLE rule_files (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_id INTEGER NOT NULL,
+    filename TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    deployed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `INSERT INTO facts (category, fact, context, tags)
+   VALUES ('architecture', 'Requests are authenticated at the gateway', 'Decided in 2023', '["auth"]')`,
+  `INSERT INTO rule_deployments (template_version, deployed_by, total_files)
+   VALUES ('1.0.0', 'setup', 7)`,
+  `INSERT INTO rule_files (deployment_id, filename, content_hash)
+   VALUES (1, 'testing.mdc', 'abc123')`,
+];
+
+function execute(dbPath, statements) {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(dbPath, (error) => {
+      if (error) return reject(error);
+      db.exec(statements.join(";\n"), (execError) => {
+        db.close((closeError) =>
+          execError || closeError ? reject(execError || closeError) : resolve()
+        );
+      });
+    });
+  });
+}
+
+describe("schema migrations", () => {
+  let dir;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("upgrades a baseline database and keeps its data", async () => {
+    const dbPath = path.join(dir, "baseline.db");
+    await execute(dbPath, BASELINE_SCHEMA);
+
+    const database = new ContextDatabase(dbPath);
+    try {
+      await database.initialize("test-project");
+
+      const status = await database.getSchemaStatus();
+      assert.equal(status.version, SCHEMA_VERSION);
+      assert.deepEqual(
+        status.migrations.map((migration) => migration.version),
+        Array.from({ length: SCHEMA_VERSION }, (_, index) => index + 1)
+      );
+
+      // Existing facts belong to the project that opened the database
+      const [fact] = await database.getFacts();
+      assert.equal(fact.fact, "Requests are authenticated at the gateway");
+      assert.equal(fact.projectId, "test-project");
+      assert.deepEqual(fact.tags, ["auth"]);
+
+      // The full-text index covers facts stored before it existed
+      const found = await database.getFacts(undefined, undefined, "gateway");
+      assert.deepEqual(
+        found.map((result) => result.id),
+        [fact.id]
+      );
+
+      const revisions = await database.getFactRevisions({ factId: fact.id });
+      assert.deepEqual(
+        revisions.map((revision) => revision.action),
+        ["baseline"]
+      );
+
+      const [deployment] = await database.getRuleDeploymentHistory(-1);
+      assert.equal(deployment.templateVersion, "1.0.0");
+      assert.deepEqual(deployment.targets, ["cursor"]);
+    } finally {
+      await database.close();
+    }
+  });
+
+  it("does not run migrations again when reopened", async () => {
+    const dbPath = path.join(dir, "baseline.db");
+
+    const database = new ContextDatabase(dbPath);
+    try {
+      await database.initialize("test-project");
+      const status = await database.getSchemaStatus();
+      assert.equal(status.migrations.length, SCHEMA_VERSION);
+      assert.equal((await database.getFacts()).length, 1);
+    } finally {
+      await database.close();
+    }
+  });
+
+  it("records every migration for a new database", async () => {
+    const database = new ContextDatabase(path.join(dir, "new.db"));
+    try {
+      await database.initialize("test-project");
+      const status = await database.getSchemaStatus();
+      assert.equal(status.version, SCHEMA_VERSION);
+      assert.equal(status.migrations.length, SCHEMA_VERSION);
+    } finally {
+      await database.close();
+    }
+  });
+
+  it("refuses a database from a newer version", async () => {
+    const dbPath = path.join(dir, "newer.db");
+    await execute(dbPath, [
+      ...BASELINE_SCHEMA,
+      `CREATE TABLE schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `INSERT INTO schema_migrations (version, name) VALUES (${
+        SCHEMA_VERSION + 1
+      }, 'From the future')`,
+    ]);
+
+    const database = new ContextDatabase(dbPath);
+    try {
+      await assert.rejects(
+        database.initialize("test-project"),
+        /only supports up to/
+      );
+    } finally {
+      await database.close();
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ContextDatabase } from "../build/database.js";
+import {
+  normalizeRemoteUrl,
+  readRuleVariables,
+  resolveProject,
+} from "../build/project.js";
+
+describe("resolveProject", () => {
+  let root;
+
+  beforeEach(async () => {
+    root = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"))
+    );
+    delete process.env.DEV_ASSISTANT_PROJECT_ID;
+  });
+
+  afterEach(async () => {
+    delete process.env.DEV_ASSISTANT_PROJECT_ID;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("gives SSH and HTTPS clones of a repository the same ID", () => {
+    const id = "github.com/acme/widgets";
+
+    assert.equal(normalizeRemoteUrl("git@github.com:acme/widgets.git"), id);
+    assert.equal(normalizeRemoteUrl("https://GitHub.com/acme/widgets/"), id);
+    assert.equal(
+      normalizeRemoteUrl("ssh://git@github.com:22/acme/widgets.git"),
+      id
+    );
+    assert.equal(
+      normalizeRemoteUrl("https://token@github.com/acme/widgets.git"),
+      id
+    );
+  });
+
+  it("uses the git remote from anywhere in the repository", async () => {
+    execFileSync("git", ["init", "-q"], { cwd: root });
+    execFileSync(
+      "git",
+      ["remote", "add", "origin", "git@github.com:acme/widgets.git"],
+      { cwd: root }
+    );
+    await fs.mkdir(path.join(root, "src"));
+
+    const project = await resolveProject(path.join(root, "src"));
+
+    assert.deepEqual(project, {
+      id: "github.com/acme/widgets",
+      name: path.basename(root),
+      root,
+      source: "git-remote",
+    });
+  });
+
+  it("prefers the environment, then the config file", async () => {
+    await fs.writeFile(
+      path.join(root, ".dev-assistant.json"),
+      JSON.stringify({ project: { id: "widgets", name: "Widgets" } })
+    );
+
+    const configured = await resolveProject(root);
+    assert.equal(configured.id, "widgets");
+    assert.equal(configured.name, "Widgets");
+    assert.equal(configured.source, "config");
+
+    process.env.DEV_ASSISTANT_PROJECT_ID = "from-env";
+    const fromEnv = await resolveProject(root);
+    assert.equal(fromEnv.id, "from-env");
+    assert.equal(fromEnv.source, "env");
+  });
+
+  it("reads rule variables from the config file", async () => {
+    assert.deepEqual(await readRuleVariables(root), {});
+
+    const config = (variables) =>
+      fs.writeFile(
+        path.join(root, ".dev-assistant.json"),
+        JSON.stringify({ rules: { variables } })
+      );
+    await config({ maxLineLength: 120, languages: ["go"] });
+    assert.deepEqual(await readRuleVariables(root), {
+      maxLineLength: 120,
+      languages: ["go"],
+    });
+
+    await config({ owner: { name: "Platform" } });
+    await assert.rejects(
+      readRuleVariables(root),
+      /rules.variables.owner must be a string, number, boolean or array of strings/
+    );
+  });
+
+  it("falls back to the directory outside a repository", async () => {
+    const project = await resolveProject(root);
+
+    assert.equal(project.id, `path:${root}`);
+    assert.equal(project.source, "directory");
+  });
+});
+
+describe("project scopes", () => {
+  let dir;
+  let widgets;
+  let gadgets;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    const dbPath = path.join(dir, "context.db");
+    widgets = new ContextDatabase(dbPath);
+    await widgets.initialize("widgets");
+    gadgets = new ContextDatabase(dbPath);
+    await gadgets.initialize("gadgets");
+  });
+
+  afterEach(async () => {
+    await widgets.close();
+    await gadgets.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const factsOf = async (database, scope) =>
+    (await database.getFacts(undefined, undefined, undefined, 20, scope))
+      .map((fact) => fact.fact)
+      .sort();
+
+  it("keeps project facts apart and shares global ones", async () => {
+    await widgets.storeFact("testing", "Widgets use jest");
+    await widgets.storeFact(
+      "style",
+      "Prefer named exports",
+      undefined,
+      [],
+      [],
+      "global"
+    );
+    await gadgets.storeFact("testing", "Gadgets use vitest");
+
+    assert.deepEqual(await factsOf(widgets, "project"), ["Widgets use jest"]);
+    assert.deepEqual(await factsOf(gadgets, "global"), [
+      "Prefer named exports",
+    ]);
+    assert.deepEqual(await factsOf(gadgets, "all"), [
+      "Gadgets use vitest",
+      "Prefer named exports",
+    ]);
+    assert.deepEqual(await gadgets.getCategories("all"), ["style", "testing"]);
+  });
+
+  it("only changes facts of the current project or the global scope", async () => {
+    const id = await widgets.storeFact("testing", "Widgets use jest");
+
+    assert.equal(await gadgets.updateFact(id, { fact: "Hijacked" }), false);
+    assert.equal(await gadgets.deleteFact(id), false);
+    assert.equal(await gadgets.getFactById(id), null);
+
+    assert.equal(await widgets.updateFact(id, { scope: "global" }), true);
+    assert.deepEqual(await factsOf(gadgets, "global"), ["Widgets use jest"]);
+  });
+
+  it("records and prunes file activity per project", async () => {
+    const since = "2024-01-01 00:00:00";
+    const change = (occurredAt) => ({
+      path: "src/index.ts",
+      kind: "change",
+      sizeDelta: 1,
+      size: 10,
+      occurredAt,
+    });
+    await widgets.storeFileActivity([change("2024-01-02 00:00:00")]);
+    await gadgets.storeFileActivity([change("2023-12-01 00:00:00")]);
+
+    assert.equal((await widgets.getFileActivity(since)).length, 1);
+    assert.equal((await gadgets.getFileActivity(since)).length, 0);
+
+    assert.equal(await widgets.pruneFileActivity("2025-01-01 00:00:00"), 1);
+    assert.equal(
+      (await gadgets.getFileActivity("2000-01-01 00:00:00")).length,
+      1
+    );
+  });
+});
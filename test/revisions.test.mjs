@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ContextDatabase } from "../build/database.js";
+
+describe("fact revisions", () => {
+  let dir;
+  let database;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const history = async (factId) =>
+    (await database.getFactRevisions({ factId })).map((revision) => [
+      revision.revision,
+      revision.action,
+      revision.author,
+    ]);
+
+  it("records each change with its author and what it changed", async () => {
+    const id = await database.storeFact(
+      "testing",
+      "Use jest",
+      undefined,
+      ["tests"],
+      [],
+      "project",
+      "alice"
+    );
+    await database.updateFact(id, { fact: "Use node:test" }, "bob");
+    // An update that changes nothing is not a revision
+    await database.updateFact(id, { tags: ["tests"] }, "bob");
+    await database.deleteFact(id, "carol");
+    await database.restoreFact(id, "alice");
+
+    assert.deepEqual(await history(id), [
+      [1, "create", "alice"],
+      [2, "update", "bob"],
+      [3, "delete", "carol"],
+      [4, "restore", "alice"],
+    ]);
+    const [, update] = await database.getFactRevisions({ factId: id });
+    assert.deepEqual(update.changes, {
+      fact: { from: "Use jest", to: "Use node:test" },
+    });
+  });
+
+  it("reverts to an earlier revision as a new one", async () => {
+    const id = await database.storeFact(
+      "testing",
+      "Use jest",
+      "Chosen in 2021"
+    );
+    await database.updateFact(id, { fact: "Use node:test", context: "" });
+
+    assert.equal(await database.revertFact(id, 1, "alice"), true);
+
+    const fact = await database.getFactById(id);
+    assert.equal(fact.fact, "Use jest");
+    assert.equal(fact.context, "Chosen in 2021");
+    const [revert] = await database.getFactRevisions({
+      factId: id,
+      action: "revert",
+    });
+    assert.equal(revert.revision, 3);
+    assert.equal(revert.revertedTo, 1);
+
+    assert.equal(await database.revertFact(id, 9), false);
+    await database.deleteFact(id);
+    assert.equal(await database.revertFact(id, 1), false);
+  });
+
+  it("keeps deleted facts out of reach until they are restored", async () => {
+    const id = await database.storeFact("testing", "Use jest");
+
+    assert.equal(await database.deleteFact(id), true);
+    assert.equal(await database.getFactById(id), null);
+    assert.ok((await database.getFactById(id, true)).deletedAt);
+    assert.deepEqual(await database.getFacts(), []);
+    assert.equal(await database.updateFact(id, { fact: "Changed" }), false);
+    assert.equal(await database.restoreFact(42), false);
+
+    // Fixes to stored text reach deleted facts, and show once restored
+    assert.equal(
+      await database.updateFact(id, { fact: "Use node:test" }, undefined, true),
+      true
+    );
+    assert.deepEqual(
+      (await database.getStoredFactText()).map((fact) => [
+        fact.id,
+        fact.deleted,
+      ]),
+      [[id, true]]
+    );
+    assert.equal(await database.restoreFact(id), true);
+    assert.equal((await database.getFactById(id)).fact, "Use node:test");
+    assert.equal(await database.restoreFact(id), false);
+  });
+
+  it("removes a fact and its history when deleted permanently", async () => {
+    const id = await database.storeFact("testing", "Use jest");
+    await database.updateFact(id, { fact: "Use node:test" });
+
+    assert.equal(await database.deleteFact(id, undefined, true), true);
+
+    assert.equal(await database.getFactById(id, true), null);
+    assert.deepEqual(await database.getFactRevisions({ factId: id }), []);
+    assert.equal(await database.deleteFact(id, undefined, true), false);
+  });
+
+  it("rewrites the text of earlier revisions in place", async () => {
+    const id = await database.storeFact("config", "Token is abc123");
+    await database.updateFact(id, { fact: "Token is in the vault" });
+
+    assert.equal(
+      await database.updateRevisionText(id, 1, { fact: "Token is [REDACTED]" }),
+      true
+    );
+
+    assert.deepEqual(
+      (await database.getStoredRevisionText()).map((revision) => [
+        revision.revision,
+        revision.fact,
+      ]),
+      [
+        [1, "Token is [REDACTED]"],
+        [2, "Token is in the vault"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import {
+  explainRulesForFile,
+  measureRuleCoverage,
+  readRuleDefinition,
+} from "../build/rule-coverage.js";
+import { listWorkspaceFiles } from "../build/workspace-files.js";
+
+const TESTING_RULE = `---
+name: "Testing"
+applyMode: "auto-attach"
+filePatterns: ["**/*.test.ts", "**/*.spec.py"]
+---
+# Testing
+`;
+
+const STYLE_RULE = `---
+name: "Style"
+alwaysApply: true
+---
+# Style
+`;
+
+describe("listWorkspaceFiles", () => {
+  let root;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    const files = {
+      ".gitignore": "dist/\n*.log\n",
+      "src/app.ts": "",
+      "src/app.test.ts": "",
+      "src/.gitignore": "generated.ts\n",
+      "src/generated.ts": "",
+      "dist/app.js": "",
+      "debug.log": "",
+      "node_modules/lib/index.js": "",
+      "README.md": "",
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.join(root, path.dirname(file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), content);
+    }
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("leaves out what any .gitignore ignores", async () => {
+    const { files, truncated } = await listWorkspaceFiles(root);
+
+    assert.equal(truncated, false);
+    assert.deepEqual(files, [
+      ".gitignore",
+      "README.md",
+      "src/.gitignore",
+      "src/app.test.ts",
+      "src/app.ts",
+    ]);
+  });
+
+  it("stops at the limit", async () => {
+    const { files, truncated } = await listWorkspaceFiles(root, 3);
+
+    assert.equal(truncated, true);
+    assert.deepEqual(files, [".gitignore", "README.md", "src/.gitignore"]);
+  });
+});
+
+describe("rule coverage", () => {
+  const rules = [
+    readRuleDefinition(".cursor/rules/testing.mdc", TESTING_RULE),
+    readRuleDefinition(".cursor/rules/style.mdc", STYLE_RULE),
+  ];
+
+  it("reads Cursor's alwaysApply as an apply mode", () => {
+    assert.equal(rules[1].applyMode, "always");
+  });
+
+  it("explains which rules attach to a file and why", () => {
+    const explanation = explainRulesForFile(rules, "src/app.test.ts");
+
+    assert.deepEqual(
+      explanation.attached.map((rule) => [rule.rule, rule.attachment]),
+      [
+        [".cursor/rules/testing.mdc", "pattern"],
+        [".cursor/rules/style.mdc", "always"],
+      ]
+    );
+    assert.deepEqual(explanation.attached[0].matchedPatterns, ["**/*.test.ts"]);
+  });
+
+  it("counts matched files, dead patterns and uncovered files", () => {
+    const report = measureRuleCoverage(
+      rules,
+      ["src/app.ts", "src/app.test.ts", "README.md"],
+      false,
+      10
+    );
+
+    const [testing] = report.rules;
+    assert.equal(testing.matchedFiles, 1);
+    assert.deepEqual(testing.deadPatterns, ["**/*.spec.py"]);
+    assert.equal(report.coveredFiles, 1);
+    assert.equal(report.uncovered.count, 2);
+    assert.deepEqual(report.uncovered.byExtension, { ".ts": 1, ".md": 1 });
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { loadRulePack, resolveRulePacks } from "../build/rule-packs.js";
+
+const RULE = `---
+description: "Company testing rules"
+---
+# Testing
+`;
+
+describe("rule packs", () => {
+  let root;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function write(file, content) {
+    await fs.mkdir(path.join(root, path.dirname(file)), { recursive: true });
+    await fs.writeFile(
+      path.join(root, file),
+      typeof content === "string" ? content : JSON.stringify(content)
+    );
+  }
+
+  it("ships the built-in templates as the default pack", async () => {
+    const pack = await loadRulePack("default", root);
+
+    assert.equal(pack.source, "built-in");
+    assert.ok(pack.rules.length > 0);
+    const testing = pack.rules.find((rule) => rule.filename === "testing.mdc");
+    assert.equal(testing.category, "testing");
+  });
+
+  it("loads a pack directory, finding rules when no files are listed", async () => {
+    await write("packs/acme/rule-pack.json", {
+      name: "acme",
+      version: "1.2.0",
+    });
+    await write("packs/acme/rules/testing.mdc", RULE);
+    await write("packs/acme/rules/notes.txt", "not a rule");
+
+    const pack = await loadRulePack("./packs/acme", root);
+
+    assert.equal(pack.name, "acme");
+    assert.equal(pack.version, "1.2.0");
+    assert.deepEqual(
+      pack.rules.map((rule) => [rule.filename, rule.category, rule.content]),
+      [["testing.mdc", "testing", RULE]]
+    );
+  });
+
+  it("loads an npm package that declares devAssistantRules", async () => {
+    await write("node_modules/@acme/rules/package.json", {
+      name: "@acme/rules",
+      version: "3.0.0",
+      devAssistantRules: {
+        files: [
+          { filename: "api.mdc", path: "src/api.mdc", category: "api-design" },
+        ],
+      },
+    });
+    await write("node_modules/@acme/rules/src/api.mdc", RULE);
+
+    const pack = await loadRulePack("@acme/rules", root);
+
+    assert.equal(pack.name, "@acme/rules");
+    assert.deepEqual(
+      pack.rules.map((rule) => [rule.filename, rule.category]),
+      [["api.mdc", "api-design"]]
+    );
+  });
+
+  it("refuses packs without a version or with files outside the pack", async () => {
+    await write("unversioned/rule-pack.json", { name: "unversioned" });
+    await write("unversioned/testing.mdc", RULE);
+    await write("escaping/rule-pack.json", {
+      name: "escaping",
+      version: "1.0.0",
+      files: [{ filename: "secrets.mdc", path: "../secrets.mdc" }],
+    });
+
+    await assert.rejects(loadRulePack("./unversioned", root), /no version/);
+    await assert.rejects(loadRulePack("./escaping", root), /outside the pack/);
+    await assert.rejects(loadRulePack("./missing", root), /No rule-pack.json/);
+  });
+
+  it("lets a later pack replace rules of the same name", async () => {
+    await write("acme/rule-pack.json", { name: "acme", version: "1.0.0" });
+    await write("acme/testing.mdc", RULE);
+
+    const { packs, rules } = await resolveRulePacks(
+      ["default", "./acme"],
+      root
+    );
+
+    assert.deepEqual(
+      packs.map((pack) => pack.name),
+      ["default", "acme"]
+    );
+    const testing = rules.filter((rule) => rule.filename === "testing.mdc");
+    assert.deepEqual(
+      testing.map((rule) => [rule.pack, rule.packVersion]),
+      [["acme", "1.0.0"]]
+    );
+    assert.ok(rules.some((rule) => rule.pack === "default"));
+    await assert.rejects(
+      resolveRulePacks(["default", "default"], root),
+      /selected more than once/
+    );
+  });
+});
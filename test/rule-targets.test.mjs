@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { RULE_TARGET_DEFINITIONS } from "../build/rule-targets.js";
+
+const rule = (filename, frontMatter, body) => ({
+  filename,
+  category: "testing",
+  content: `---\n${frontMatter}\n---\n${body}`,
+});
+
+const RULES = [
+  rule("general.mdc", 'applyMode: "always"', "# General\n\n## Naming\n"),
+  rule(
+    "typescript.mdc",
+    'applyMode: "auto-attach"\nfilePatterns: ["*.ts", "*.tsx"]',
+    "# TypeScript\n\n```md\n# Not a heading\n```\n"
+  ),
+  rule(
+    "review.mdc",
+    'description: "Reviewing pull requests"\napplyMode: "agent-requested"',
+    "# Review\n"
+  ),
+];
+
+describe("rule targets", () => {
+  it("writes Cursor rules unchanged", () => {
+    const files = RULE_TARGET_DEFINITIONS.cursor.render(RULES, "header");
+
+    assert.deepEqual(
+      files.map((file) => [file.filename, file.content]),
+      RULES.map((rule) => [rule.filename, rule.content])
+    );
+  });
+
+  it("combines the rules into one document for single-file targets", () => {
+    const [file] = RULE_TARGET_DEFINITIONS.claude.render(RULES, "header");
+
+    assert.equal(file.filename, "CLAUDE.md");
+    assert.deepEqual(file.sources, [
+      "general.mdc",
+      "typescript.mdc",
+      "review.mdc",
+    ]);
+    assert.equal(
+      file.content,
+      [
+        "<!-- header -->",
+        "",
+        "# Project Guidelines",
+        "",
+        "## General",
+        "",
+        "### Naming",
+        "",
+        "## TypeScript",
+        "",
+        "_Applies to files matching `*.ts`, `*.tsx`._",
+        "",
+        "```md",
+        "# Not a heading",
+        "```",
+        "",
+        "## Review",
+        "",
+        "_Apply when relevant: Reviewing pull requests._",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("gives Cline rules paths for auto-attached patterns", () => {
+    const files = RULE_TARGET_DEFINITIONS.cline.render(RULES, "header");
+
+    assert.deepEqual(
+      files.map((file) => file.filename),
+      ["general.md", "typescript.md", "review.md"]
+    );
+    assert.match(
+      files[1].content,
+      /^---\npaths:\n {2}- "\*\.ts"\n {2}- "\*\.tsx"\n---\n/
+    );
+    assert.doesNotMatch(files[1].content, /Applies to files/);
+  });
+});
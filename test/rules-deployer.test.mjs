@@ -0,0 +1,308 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ContextDatabase } from "../build/database.js";
+import { renderRules, resolveRulePacks } from "../build/rule-packs.js";
+import { loadBackupRetention, RulesDeployer } from "../build/rules-deployer.js";
+
+describe("RulesDeployer", () => {
+  let dir;
+  let workspaceRoot;
+  let database;
+  let deployer;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    workspaceRoot = path.join(dir, "workspace");
+    await fs.mkdir(workspaceRoot);
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+    deployer = new RulesDeployer(database);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function request(options = {}) {
+    const { packs, rules } = await resolveRulePacks(["default"], workspaceRoot);
+    return {
+      workspaceRoot,
+      packs,
+      rules: renderRules(rules, packs, { projectName: "test" }),
+      targets: ["cursor"],
+      forceUpdate: false,
+      backupExisting: true,
+      ...options,
+    };
+  }
+
+  // A one-rule pack in the workspace, rewritten for each version
+  async function writePack(version, lines) {
+    const packDir = path.join(workspaceRoot, "rules-pack");
+    await fs.mkdir(packDir, { recursive: true });
+    await fs.writeFile(
+      path.join(packDir, "rule-pack.json"),
+      JSON.stringify({ name: "acme", version })
+    );
+    await fs.writeFile(
+      path.join(packDir, "style.mdc"),
+      ["# Style", ...lines, ""].join("\n")
+    );
+  }
+
+  async function acme(options = {}) {
+    const { packs, rules } = await resolveRulePacks(
+      ["./rules-pack"],
+      workspaceRoot
+    );
+    return { ...(await request(options)), packs, rules };
+  }
+
+  const readRule = (filename) =>
+    fs.readFile(
+      path.join(workspaceRoot, ".cursor", "rules", filename),
+      "utf-8"
+    );
+
+  it("deploys the rules and records them", async () => {
+    const outcome = await deployer.deploy(await request());
+
+    assert.equal(outcome.status, "deployed");
+    assert.equal(outcome.created, true);
+    for (const file of outcome.files) {
+      assert.equal(await readRule(file.filename), file.content);
+    }
+    const recorded = await database.getRuleFiles(outcome.deploymentId);
+    assert.deepEqual(
+      recorded.map((file) => file.filename).sort(),
+      outcome.files.map((file) => file.filename).sort()
+    );
+
+    const again = await deployer.deploy(await request());
+    assert.equal(again.status, "up-to-date");
+  });
+
+  it("refuses to overwrite local edits or unmanaged files unless forced", async () => {
+    await deployer.deploy(await request());
+    await fs.appendFile(
+      path.join(workspaceRoot, ".cursor", "rules", "testing.mdc"),
+      "\nEdited locally\n"
+    );
+    await fs.writeFile(path.join(workspaceRoot, "CLAUDE.md"), "# Mine\n");
+
+    const refused = await deployer.deploy(
+      await request({ targets: ["cursor", "claude"] })
+    );
+    assert.equal(refused.status, "locally-modified");
+    assert.deepEqual(
+      refused.changed.map((file) => [file.path, file.change]),
+      [
+        [".cursor/rules/testing.mdc", "modified"],
+        ["CLAUDE.md", "unmanaged"],
+      ]
+    );
+
+    const forced = await deployer.deploy(
+      await request({ targets: ["cursor", "claude"], forceUpdate: true })
+    );
+    assert.equal(forced.status, "deployed");
+    assert.doesNotMatch(await readRule("testing.mdc"), /Edited locally/);
+    const backup = path.join(forced.backupPath, "CLAUDE.md");
+    assert.equal(await fs.readFile(backup, "utf-8"), "# Mine\n");
+    assert.deepEqual(
+      (await database.getLatestRuleFiles("claude")).map(
+        (file) => file.filename
+      ),
+      ["CLAUDE.md"]
+    );
+  });
+
+  it("merges local edits with a new version of the pack", async () => {
+    await writePack("1.0.0", ["- Use tabs", "- Name things well"]);
+    await deployer.deploy(await acme());
+    await fs.writeFile(
+      path.join(workspaceRoot, ".cursor", "rules", "style.mdc"),
+      "# Style\n- Use tabs\n- Name things well\n- Edited locally\n"
+    );
+    await writePack("2.0.0", ["- Use spaces", "- Name things well"]);
+
+    const refused = await deployer.deploy(await acme());
+    assert.equal(refused.status, "locally-modified");
+
+    const merged = await deployer.deploy(await acme({ merge: true }));
+    assert.equal(merged.status, "deployed");
+    assert.deepEqual(
+      merged.merged.map((file) => [file.path, file.conflicts.length]),
+      [[".cursor/rules/style.mdc", 0]]
+    );
+    assert.equal(
+      await readRule("style.mdc"),
+      "# Style\n- Use spaces\n- Name things well\n- Edited locally\n"
+    );
+  });
+
+  it("previews a deployment without writing anything", async () => {
+    await writePack("1.0.0", ["- Use tabs"]);
+    await deployer.deploy(await acme());
+    await writePack("2.0.0", ["- Use spaces"]);
+
+    const plan = await deployer.preview(
+      await acme({ targets: ["cursor", "claude"] })
+    );
+
+    assert.equal(plan.templateVersion, "acme@2.0.0");
+    assert.equal(plan.result, "deployed");
+    assert.deepEqual(
+      plan.files.map((file) => [file.action, file.path, file.pack]),
+      [
+        ["update", ".cursor/rules/style.mdc", "acme@2.0.0"],
+        ["create", "CLAUDE.md", "acme@2.0.0"],
+      ]
+    );
+    assert.match(plan.files[0].diff, /^-- Use tabs\n\+- Use spaces$/m);
+    assert.deepEqual(plan.backup.files, [".cursor/rules/style.mdc"]);
+    assert.equal(await readRule("style.mdc"), "# Style\n- Use tabs\n");
+    await assert.rejects(fs.access(path.join(workspaceRoot, "CLAUDE.md")));
+    assert.equal((await database.getRuleDeploymentHistory()).length, 1);
+  });
+
+  it("reports drift and removes orphaned files", async () => {
+    const naming = path.join(workspaceRoot, "rules-pack", "naming.mdc");
+    await writePack("1.0.0", ["- Use tabs"]);
+    await fs.writeFile(naming, "# Naming\n");
+    await deployer.deploy(await acme());
+    await fs.rm(naming);
+    await writePack("2.0.0", ["- Use spaces"]);
+    await fs.writeFile(
+      path.join(workspaceRoot, ".cursor", "rules", "mine.mdc"),
+      "# Mine\n"
+    );
+
+    const report = await deployer.status(await acme());
+
+    assert.equal(report.inSync, false);
+    assert.equal(report.deployedVersion, "acme@1.0.0");
+    assert.deepEqual(report.packs, [
+      { name: "acme", deployed: "1.0.0", current: "2.0.0" },
+    ]);
+    assert.deepEqual(
+      report.files.map((file) => [file.status, file.path]),
+      [
+        ["outdated", ".cursor/rules/style.mdc"],
+        ["orphaned", ".cursor/rules/naming.mdc"],
+        ["extra", ".cursor/rules/mine.mdc"],
+      ]
+    );
+
+    const cleaned = await deployer.status(await acme(), true);
+    assert.deepEqual(cleaned.removed, [".cursor/rules/naming.mdc"]);
+    assert.equal(cleaned.counts.orphaned, 0);
+    assert.equal(await readRule("mine.mdc"), "# Mine\n");
+  });
+
+  it("leaves the files and the history alone when a write fails", async () => {
+    await writePack("1.0.0", ["- Use tabs"]);
+    await deployer.deploy(await acme());
+    await writePack("2.0.0", ["- Use spaces"]);
+    // A directory where CLAUDE.md should go cannot be replaced by the file
+    await fs.mkdir(path.join(workspaceRoot, "CLAUDE.md", "notes"), {
+      recursive: true,
+    });
+
+    await assert.rejects(
+      deployer.deploy(await acme({ targets: ["cursor", "claude"] }))
+    );
+
+    assert.equal(await readRule("style.mdc"), "# Style\n- Use tabs\n");
+    assert.equal((await database.getRuleDeploymentHistory()).length, 1);
+    assert.deepEqual(
+      await fs.readdir(path.join(workspaceRoot, ".dev-assistant", "backups")),
+      []
+    );
+  });
+
+  it("rolls back to an earlier deployment", async () => {
+    await writePack("1.0.0", ["- Use tabs"]);
+    const first = await deployer.deploy(await acme());
+    await writePack("2.0.0", ["- Use spaces"]);
+    const second = await deployer.deploy(await acme());
+    assert.equal(second.status, "deployed");
+    assert.ok(second.backupPath);
+
+    const rollback = await deployer.rollback({
+      workspaceRoot,
+      deploymentId: first.deploymentId,
+      backupExisting: true,
+    });
+
+    assert.equal(rollback.rolledBackTo.id, first.deploymentId);
+    assert.deepEqual(
+      rollback.files.map((file) => [file.filename, file.source, file.changed]),
+      [["style.mdc", "database", true]]
+    );
+    assert.equal(await readRule("style.mdc"), "# Style\n- Use tabs\n");
+    const latest = await database.getLatestRuleDeployment();
+    assert.equal(latest.id, rollback.deploymentId);
+    assert.equal(latest.rollbackOf, first.deploymentId);
+    await assert.rejects(
+      deployer.rollback({
+        workspaceRoot,
+        deploymentId: 99,
+        backupExisting: true,
+      }),
+      /Rule deployment 99 not found/
+    );
+  });
+
+  it("keeps only the configured number of backups", async () => {
+    deployer = new RulesDeployer(database, { keep: 1 });
+    const backups = path.join(workspaceRoot, ".dev-assistant", "backups");
+    await fs.mkdir(path.join(backups, "backup-2020-01-01"), {
+      recursive: true,
+    });
+
+    await writePack("1.0.0", ["- Use tabs"]);
+    await deployer.deploy(await acme());
+    await writePack("2.0.0", ["- Use spaces"]);
+    const outcome = await deployer.deploy(await acme());
+
+    assert.deepEqual(outcome.prunedBackups, [
+      path.join(".dev-assistant", "backups", "backup-2020-01-01"),
+    ]);
+    assert.deepEqual(await fs.readdir(backups), [
+      path.basename(outcome.backupPath),
+    ]);
+  });
+});
+
+describe("loadBackupRetention", () => {
+  it("reads the retention settings from the environment", () => {
+    assert.deepEqual(loadBackupRetention({}), {
+      keep: 10,
+      maxAgeDays: undefined,
+    });
+    assert.deepEqual(
+      loadBackupRetention({
+        DEV_ASSISTANT_BACKUP_RETENTION: "0",
+        DEV_ASSISTANT_BACKUP_MAX_AGE_DAYS: " 30 ",
+      }),
+      { keep: 0, maxAgeDays: 30 }
+    );
+  });
+
+  it("refuses values that are not whole numbers", () => {
+    assert.throws(
+      () => loadBackupRetention({ DEV_ASSISTANT_BACKUP_RETENTION: "ten" }),
+      /DEV_ASSISTANT_BACKUP_RETENTION must be a non-negative integer, not "ten"/
+    );
+    assert.throws(
+      () => loadBackupRetention({ DEV_ASSISTANT_BACKUP_MAX_AGE_DAYS: "-1" }),
+      /non-negative integer/
+    );
+  });
+});
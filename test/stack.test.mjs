@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { parseRule } from "../build/mdc.js";
+import { resolveRulePacks, selectRules } from "../build/rule-packs.js";
+import {
+  adaptRuleToStack,
+  detectProjectStack,
+  stackTags,
+} from "../build/stack.js";
+
+const stack = (overrides) => ({
+  languages: [],
+  frameworks: [],
+  testFrameworks: [],
+  frontend: false,
+  markers: [],
+  ...overrides,
+});
+
+describe("detectProjectStack", () => {
+  let root;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const write = (name, content) => fs.writeFile(path.join(root, name), content);
+
+  it("reads languages, frameworks and tools from package.json", async () => {
+    await write(
+      "package.json",
+      JSON.stringify({
+        dependencies: { next: "14.0.0" },
+        devDependencies: { typescript: "5.0.0", vitest: "1.0.0" },
+      })
+    );
+    await write("pnpm-lock.yaml", "");
+
+    assert.deepEqual(await detectProjectStack(root), {
+      languages: ["javascript", "typescript"],
+      frameworks: ["next", "react"],
+      testFrameworks: ["vitest"],
+      packageManager: "pnpm",
+      frontend: true,
+      markers: ["package.json"],
+    });
+  });
+
+  it("recognises backend manifests", async () => {
+    await write("pyproject.toml", '[project]\ndependencies = ["django"]\n');
+    await write("go.mod", "module example.com/api\n");
+
+    const detected = await detectProjectStack(root);
+
+    assert.deepEqual(detected.languages, ["go", "python"]);
+    assert.deepEqual(detected.frameworks, ["django"]);
+    assert.deepEqual(detected.testFrameworks, ["go-test"]);
+    assert.equal(detected.frontend, false);
+  });
+
+  it("finds nothing in an empty or missing directory", async () => {
+    assert.deepEqual(
+      await detectProjectStack(root),
+      stack({ packageManager: undefined })
+    );
+    assert.deepEqual(
+      (await detectProjectStack(path.join(root, "missing"))).languages,
+      []
+    );
+  });
+});
+
+describe("rule selection", () => {
+  it("tags a frontend with its own server code as both", () => {
+    assert.deepEqual(
+      Array.from(
+        stackTags(stack({ frameworks: ["express", "react"], frontend: true }))
+      ).sort(),
+      ["backend", "express", "frontend", "react"]
+    );
+  });
+
+  it("rewrites language globs in file patterns for the stack", () => {
+    const rule =
+      '---\nfilePatterns: ["*.ts", "*.test.ts", "**/api/**"]\n---\n# API\n';
+
+    const adapted = adaptRuleToStack(rule, stack({ languages: ["python"] }));
+
+    assert.deepEqual(parseRule(adapted).frontMatter.filePatterns, [
+      "*.py",
+      "test_*.py",
+      "*_test.py",
+      "**/api/**",
+    ]);
+    assert.equal(adaptRuleToStack(rule, stack({})), rule);
+  });
+
+  it("skips rules for other stacks unless their category is included", async () => {
+    const { rules } = await resolveRulePacks(["default"], os.tmpdir());
+    const python = stack({ languages: ["python"] });
+
+    const selected = selectRules(rules, {
+      stack: python,
+      exclude: ["testing"],
+    });
+    assert.deepEqual(
+      selected.skipped.map((rule) => [rule.category, rule.reason]).sort(),
+      [
+        ["accessibility", "not-applicable"],
+        ["architecture", "not-applicable"],
+        ["testing", "excluded"],
+      ]
+    );
+
+    const included = selectRules(rules, {
+      stack: python,
+      include: ["architecture"],
+    });
+    assert.ok(included.rules.some((rule) => rule.category === "architecture"));
+    assert.equal(selectRules(rules, {}).skipped.length, 0);
+    assert.throws(
+      () => selectRules(rules, { include: ["cobol"] }),
+      /Unknown rule category cobol/
+    );
+  });
+});
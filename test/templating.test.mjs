@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import os from "node:os";
+
+import { renderRules, resolveRulePacks } from "../build/rule-packs.js";
+import { stackVariables } from "../build/stack.js";
+import { renderTemplate, templateSyntaxIssues } from "../build/templating.js";
+
+function render(content, variables = {}, fragments = {}) {
+  return renderTemplate(content, "rule.mdc", variables, fragments);
+}
+
+describe("renderTemplate", () => {
+  it("fills in variables, joining lists", () => {
+    const result = render("Limit: {{ maxLineLength }}; {{languages}}", {
+      maxLineLength: 100,
+      languages: ["TypeScript", "Go"],
+    });
+
+    assert.deepEqual(result.issues, []);
+    assert.equal(result.content, "Limit: 100; TypeScript, Go");
+  });
+
+  it("keeps the section a condition selects, without blank lines", () => {
+    const content = [
+      "# Testing",
+      "{{#if frontend}}",
+      "- Use React Testing Library",
+      "{{else}}",
+      "- Test the HTTP handlers",
+      "{{/if}}",
+      "{{#if languages == Go}}",
+      "- Table-driven tests",
+      "{{/if}}",
+      "",
+    ].join("\n");
+
+    assert.equal(
+      render(content, { frontend: false, languages: ["Go"] }).content,
+      "# Testing\n- Test the HTTP handlers\n- Table-driven tests\n"
+    );
+    assert.equal(
+      render(content, { frontend: true, languages: [] }).content,
+      "# Testing\n- Use React Testing Library\n"
+    );
+  });
+
+  it("includes fragments in place of their line", () => {
+    const result = render(
+      "# Security\n{{> secrets}}\nEnd\n",
+      { vault: "Vault" },
+      { secrets: "- Keep secrets in {{vault}}" }
+    );
+
+    assert.deepEqual(result.issues, []);
+    assert.equal(result.content, "# Security\n- Keep secrets in Vault\nEnd\n");
+  });
+
+  it("reports what cannot be resolved, with its line", () => {
+    const result = render("{{missing}}\n{{> nowhere}}\n{{#if x}}\n", {}, {});
+
+    assert.deepEqual(
+      result.issues.map((issue) => [issue.line, issue.message]),
+      [
+        [1, "Unresolved placeholder {{missing}}"],
+        [2, "Unknown fragment {{> nowhere}}"],
+        [3, "{{#if x}} is never closed"],
+      ]
+    );
+  });
+
+  it("reports a fragment that includes itself", () => {
+    const result = render("{{> loop}}", {}, { loop: "again {{> loop}}" });
+
+    assert.deepEqual(
+      result.issues.map((issue) => issue.message),
+      ["Fragment loop includes itself"]
+    );
+  });
+
+  it("writes escaped tags out as they are", () => {
+    const result = render(
+      '<div style=\\{{ color: "red" }}>\n\\{{#if admin}} is Handlebars, {{name}} is not\n',
+      { name: "Acme" }
+    );
+
+    assert.deepEqual(result.issues, []);
+    assert.equal(
+      result.content,
+      '<div style={{ color: "red" }}>\n{{#if admin}} is Handlebars, Acme is not\n'
+    );
+  });
+});
+
+describe("renderRules", () => {
+  async function renderDefault(variables) {
+    const { packs, rules } = await resolveRulePacks(["default"], os.tmpdir());
+    const rendered = renderRules(rules, packs, variables);
+    return (filename) =>
+      rendered.find((rule) => rule.filename === filename).content;
+  }
+
+  it("fills the default pack with its own values, overridable", async () => {
+    const rule = await renderDefault({ maxLineLength: 80 });
+
+    assert.match(rule("code-style.mdc"), /Maximum line length: 80 characters/);
+    assert.match(rule("testing.mdc"), /at least 80% code coverage/);
+    assert.doesNotMatch(rule("testing.mdc"), /\{\{/);
+  });
+
+  it("leaves frontend testing advice out of backend projects", async () => {
+    const backend = stackVariables({
+      languages: ["go"],
+      frameworks: [],
+      testFrameworks: ["go-test"],
+      frontend: false,
+      markers: ["go.mod"],
+    });
+
+    const rule = await renderDefault(backend);
+    assert.doesNotMatch(rule("testing.mdc"), /React Testing Library/);
+    assert.match(rule("testing.mdc"), /Write tests with go-test/);
+
+    const unknown = await renderDefault({});
+    assert.match(unknown("testing.mdc"), /React Testing Library/);
+  });
+
+  it("fails listing every placeholder it could not resolve", async () => {
+    const { packs, rules } = await resolveRulePacks(["default"], os.tmpdir());
+    const broken = [
+      { ...rules[0], filename: "team.mdc", content: "{{team}}\n{{#if x}}\n" },
+      ...rules.slice(1),
+    ];
+
+    assert.throws(() => renderRules(broken, packs, {}), {
+      message: [
+        "Rule templates could not be rendered:",
+        "team.mdc:1: Unresolved placeholder {{team}}",
+        "team.mdc:2: {{#if x}} is never closed",
+      ].join("\n"),
+    });
+  });
+});
+
+describe("templateSyntaxIssues", () => {
+  it("checks tags and fragments but not variables", () => {
+    const issues = templateSyntaxIssues(
+      "{{anything}}\n{{#if a ==}}\n{{/if}}\n{{> known}}\n{{> unknown}}\n{{oops\n",
+      ["known"]
+    );
+
+    assert.deepEqual(issues, [
+      { line: 2, message: "Invalid condition {{#if a ==}}" },
+      { line: 5, message: "Unknown fragment {{> unknown}}" },
+      { line: 6, message: "Unbalanced {{ or }}" },
+    ]);
+  });
+
+  it("accepts escaped tags", () => {
+    assert.deepEqual(templateSyntaxIssues("\\{{#if x}} \\{{> y}}\n", []), []);
+  });
+});
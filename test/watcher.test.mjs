@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { ContextDatabase, toSqlTimestamp } from "../build/database.js";
+import { ProjectWatcher, summarizeActivity } from "../build/watcher.js";
+
+const SINCE = "2024-01-01 00:00:00";
+
+function event(filePath, kind, occurredAt, sizeDelta = 10) {
+  return { path: filePath, kind, sizeDelta, size: 100, occurredAt };
+}
+
+describe("file activity", () => {
+  let dir;
+  let database;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("filters by path prefix without treating _ or % as wildcards", async () => {
+    await database.storeFileActivity([
+      event("src/a_b/x.ts", "add", "2024-01-02 10:00:00"),
+      event("src/aXb/y.ts", "add", "2024-01-02 10:01:00"),
+      event("src/a_b.ts", "change", "2024-01-02 10:02:00"),
+    ]);
+
+    const activity = await database.getFileActivity(SINCE, "src/a_b");
+
+    assert.deepEqual(
+      activity.map((entry) => entry.path),
+      ["src/a_b/x.ts"]
+    );
+  });
+
+  it("returns activity since a time, newest first, and prunes older", async () => {
+    await database.storeFileActivity([
+      event("old.ts", "change", "2023-12-01 00:00:00"),
+      event("a.ts", "change", "2024-01-02 00:00:00"),
+      event("b.ts", "unlink", "2024-01-03 00:00:00"),
+    ]);
+
+    const activity = await database.getFileActivity(SINCE);
+    assert.deepEqual(
+      activity.map((entry) => entry.path),
+      ["b.ts", "a.ts"]
+    );
+
+    assert.equal(await database.pruneFileActivity(SINCE), 1);
+    assert.equal(
+      (await database.getFileActivity("2000-01-01 00:00:00")).length,
+      2
+    );
+  });
+});
+
+describe("summarizeActivity", () => {
+  it("groups events by directory, most recently touched first", () => {
+    const summary = summarizeActivity(
+      [
+        event("src/api/routes.ts", "change", "2024-01-02 12:00:00", 5),
+        event("src/api/routes.ts", "change", "2024-01-02 11:00:00", 5),
+        event("src/api/auth/login.ts", "add", "2024-01-02 10:00:00", 40),
+        event("README.md", "unlink", "2024-01-03 09:00:00", -300),
+      ],
+      SINCE,
+      2,
+      1
+    );
+
+    assert.equal(summary.totalEvents, 4);
+    assert.deepEqual(
+      summary.areas.map((area) => [area.area, area.events, area.sizeDelta]),
+      [
+        [".", 1, -300],
+        ["src/api", 3, 50],
+      ]
+    );
+    const api = summary.areas[1];
+    assert.equal(api.added, 1);
+    assert.equal(api.changed, 2);
+    assert.equal(api.firstTouched, "2024-01-02 10:00:00");
+    assert.deepEqual(api.topFiles[0], { path: "src/api/routes.ts", events: 2 });
+    assert.deepEqual(
+      summary.recent.map((entry) => entry.path),
+      ["src/api/routes.ts"]
+    );
+  });
+});
+
+describe("ProjectWatcher", () => {
+  let dir;
+  let root;
+  let database;
+  let watcher;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "dev-assistant-test-"));
+    root = path.join(dir, "project");
+    await fs.mkdir(path.join(root, "src"), { recursive: true });
+    await fs.mkdir(path.join(root, "dist"));
+    await fs.writeFile(path.join(root, ".gitignore"), "dist/\n");
+    database = new ContextDatabase(path.join(dir, "context.db"));
+    await database.initialize("test-project");
+    watcher = new ProjectWatcher(database, root, { debounceMs: 20 });
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("records changes to files .gitignore does not ignore", async () => {
+    const since = toSqlTimestamp(new Date(Date.now() - 60000));
+    await watcher.start();
+
+    // Changes made before the initial scan ends are not recorded, so keep
+    // writing until one is
+    let activity = [];
+    for (let attempt = 0; attempt < 50 && activity.length === 0; attempt++) {
+      await fs.writeFile(
+        path.join(root, "dist", "app.js"),
+        "x".repeat(attempt)
+      );
+      await fs.writeFile(path.join(root, "src", "app.ts"), "x".repeat(attempt));
+      await sleep(100);
+      activity = await database.getFileActivity(since);
+    }
+    await watcher.stop();
+
+    const paths = new Set(
+      (await database.getFileActivity(since)).map((entry) => entry.path)
+    );
+    assert.deepEqual([...paths], ["src/app.ts"]);
+  });
+});